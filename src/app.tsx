@@ -1,40 +1,370 @@
 /* eslint-disable no-console */
 import {
+  Badge,
   Button,
+  CheckboxGroup,
+  Column,
+  Columns,
   FormField,
+  ProgressBar,
   Rows,
+  SegmentedControl,
   Select,
   Text,
   Title,
   Alert,
 } from "@canva/app-ui-kit";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FormattedMessage, defineMessages, useIntl } from "react-intl";
+import type { IntlShape } from "react-intl";
 import * as styles from "styles/components.css";
 import { generateWeeks } from "utils/week_generator";
-import { fetchBoxes, fetchBoxData } from "./services/api";
-import type { Box, BoxData, WeekOption } from "./types";
+import {
+  ApiError,
+  fetchBoxes,
+  fetchBoxData,
+  getCachedBoxData,
+} from "./services/api";
+import { getTimeSinceUpdate } from "./services/box_data_cache";
+import type { TimeSinceUpdate } from "./services/box_data_cache";
+import { designCallQueue } from "./services/design_queue";
+import { formatIngredient, scaleBoxData } from "./services/ingredients";
+import type { DesignQueueProgress } from "./services/design_queue";
+import {
+  countBatchPages,
+  createBatchRecipeBooks,
+  getBatchProgressFraction,
+  planBatchItems,
+} from "./services/batch_generation";
+import type {
+  BatchItemError,
+  BatchRun,
+  BatchStep,
+} from "./services/batch_generation";
+import { uploadRecipeImages } from "./services/image_upload";
+import {
+  estimateProgress,
+  formatDuration,
+  getProgressFraction,
+} from "./services/generation_progress";
+import type { GenerationStep } from "./services/generation_progress";
+import {
+  BookGenerationError,
+  GenerationCancelledError,
+  countCreatedPages,
+  hasCreatedContent,
+  isRunComplete,
+  rollbackGenerationRun,
+} from "./services/generation_run";
+import type {
+  GenerationRun,
+  GenerationStatus,
+} from "./services/generation_run";
+import {
+  PayloadValidationError,
+  findDietConflicts,
+  findMissingRecipeInfo,
+} from "./services/validation";
+import type { ValidationIssue } from "./services/validation";
+import type { Box, BoxData, WeekOption, WeekStatus } from "./types";
+import {
+  getNextDeliveryWeek,
+  loadWeekOptions,
+} from "./services/week_availability";
+import type { WeekOptions } from "./services/week_availability";
 import { 
-  createCompleteRecipeBook
+  checkRecipeTemplate,
+  createCompleteRecipeBook,
+  fillRecipeTemplate,
 } from "./services/recipe_page_generator";
+import type { TemplateCheckReport } from "./services/recipe_page_generator";
+import type { PlaceholderReport } from "utils/text_replacement";
+import { hasLintProblems } from "utils/placeholder_lint";
+import { getLayoutTemplate } from "./templates";
 import { CanvaError } from "@canva/error";
 import { prepareDesignEditor } from "@canva/intents/design";
 
+const STATUS_BADGE_TONES: Record<
+  GenerationStatus,
+  React.ComponentProps<typeof Badge>["tone"]
+> = {
+  pending: "assist",
+  created: "positive",
+  failed: "critical",
+};
+
+const STATUS_BADGE_LABELS = defineMessages<GenerationStatus>({
+  pending: {
+    defaultMessage: "Pending",
+    description:
+      "Badge for a part of the recipe book that hasn't been created yet",
+  },
+  created: {
+    defaultMessage: "Created",
+    description:
+      "Badge for a part of the recipe book that was added to the design",
+  },
+  failed: {
+    defaultMessage: "Failed",
+    description: "Badge for a part of the recipe book that couldn't be created",
+  },
+});
+
 prepareDesignEditor({
   render: async () => {
     return <App />;
   },
 });
 
+// 0 keeps the amounts the recipes are written with
+function getServingsOptions(intl: IntlShape) {
+  return [
+    {
+      value: 0,
+      label: intl.formatMessage({
+        defaultMessage: "As in the recipes",
+        description:
+          "Servings option that keeps the ingredient amounts the recipes are written with",
+      }),
+    },
+    ...[1, 2, 3, 4, 5, 6, 8].map((count) => ({
+      value: count,
+      label: intl.formatMessage(
+        {
+          defaultMessage: "{count, plural, one {# serving} other {# servings}}",
+          description:
+            "Servings option that rescales the ingredient amounts of every recipe",
+        },
+        { count },
+      ),
+    })),
+  ];
+}
+
+const WEEK_STATUS_LABELS = defineMessages<WeekStatus>({
+  published: {
+    defaultMessage: "Published",
+    description: "Describes a week whose recipes are published",
+  },
+  draft: {
+    defaultMessage: "Draft",
+    description: "Describes a week whose recipes are still drafts",
+  },
+});
+
+function describeWeek(
+  { status, disabled }: WeekOption,
+  intl: IntlShape,
+): string | undefined {
+  if (disabled) {
+    return intl.formatMessage({
+      defaultMessage: "No recipes",
+      description: "Describes a week that has no recipes for the selected box",
+    });
+  }
+  return status && intl.formatMessage(WEEK_STATUS_LABELS[status]);
+}
+
+const TIME_SINCE_UPDATE_LABELS = defineMessages<TimeSinceUpdate["unit"]>({
+  minute: {
+    defaultMessage: "{count, plural, =0 {just now} other {# min ago}}",
+    description: "How long ago the recipes were fetched, in minutes",
+  },
+  hour: {
+    defaultMessage: "{count} h ago",
+    description: "How long ago the recipes were fetched, in hours",
+  },
+  day: {
+    defaultMessage: "{count, plural, =1 {yesterday} other {# days ago}}",
+    description: "How long ago the recipes were fetched, in days",
+  },
+});
+
+// Describes how long ago data was fetched, e.g. "5 min ago"
+function describeLastUpdated(fetchedAt: number, intl: IntlShape): string {
+  const { unit, count } = getTimeSinceUpdate(fetchedAt, Date.now());
+  return intl.formatMessage(TIME_SINCE_UPDATE_LABELS[unit], { count });
+}
+
+// Describes the step a recipe book run is on, e.g. "Creating recipe 2 of 6:
+// Fiskefrikadeller, page 2 of 3". Pages are only mentioned for steps that span
+// several.
+function describeGenerationStep(step: GenerationStep, intl: IntlShape): string {
+  if (step.kind === "images") {
+    return intl.formatMessage(
+      {
+        defaultMessage: "Uploading photos ({completed} of {total})",
+        description: "Progress of a recipe book while its photos are uploaded",
+      },
+      { completed: step.completed, total: step.total },
+    );
+  }
+  if (step.kind === "front_page") {
+    return intl.formatMessage({
+      defaultMessage: "Creating the front page",
+      description: "Progress of a recipe book while its front page is created",
+    });
+  }
+  if (step.kind === "shopping_list") {
+    return step.pageCount > 1
+      ? intl.formatMessage(
+          {
+            defaultMessage:
+              "Creating the shopping list, page {page} of {pageCount}",
+            description:
+              "Progress of a recipe book while a page of its shopping list is created",
+          },
+          { page: step.page, pageCount: step.pageCount },
+        )
+      : intl.formatMessage({
+          defaultMessage: "Creating the shopping list",
+          description:
+            "Progress of a recipe book while its shopping list is created",
+        });
+  }
+  const values = {
+    position: step.index + 1,
+    count: step.count,
+    title: step.title,
+    page: step.page,
+    pageCount: step.pageCount,
+  };
+  return step.pageCount > 1
+    ? intl.formatMessage(
+        {
+          defaultMessage:
+            "Creating recipe {position} of {count}: {title}, page {page} of {pageCount}",
+          description:
+            "Progress of a recipe book while a page of one of its recipes is created",
+        },
+        values,
+      )
+    : intl.formatMessage(
+        {
+          defaultMessage: "Creating recipe {position} of {count}: {title}",
+          description:
+            "Progress of a recipe book while one of its recipes is created",
+        },
+        values,
+      );
+}
+
+const BATCH_ITEM_ERROR_LABELS = defineMessages<
+  Exclude<BatchItemError["kind"], "failed">
+>({
+  cancelled: {
+    defaultMessage: "Cancelled partway",
+    description: "Why a recipe book in a batch is incomplete",
+  },
+  not_found: {
+    defaultMessage: "No recipes found for this box and week",
+    description: "Why a recipe book in a batch couldn't be created",
+  },
+});
+
+// Describes the box and week a batch run is on and its step, e.g.
+// "Veganer kassen, Uge 43 (1 of 2): Creating the front page"
+function describeBatchStep(
+  { index, count, label, step }: BatchStep,
+  intl: IntlShape,
+): string {
+  return intl.formatMessage(
+    {
+      defaultMessage: "{item} ({position} of {count}): {step}",
+      description:
+        "The recipe book a batch is creating, its place in the batch and what's being done for it",
+    },
+    {
+      item: label,
+      position: index + 1,
+      count,
+      step: step
+        ? describeGenerationStep(step, intl)
+        : intl.formatMessage({
+            defaultMessage: "Fetching recipes",
+            description:
+              "What's being done for a recipe book in a batch before its pages are created",
+          }),
+    },
+  );
+}
+
 export const App = () => {
+  const intl = useIntl();
+  const servingsOptions = useMemo(() => getServingsOptions(intl), [intl]);
   const [boxes, setBoxes] = useState<Box[]>([]);
   const [weeks, setWeeks] = useState<WeekOption[]>([]);
+  const [weekSource, setWeekSource] =
+    useState<WeekOptions["source"]>("generated");
+  const [isLoadingWeeks, setIsLoadingWeeks] = useState(false);
+  // The box whose weeks were requested last, so a slow response for a box
+  // that's no longer selected is ignored
+  const weeksRequestRef = useRef("");
   const [selectedBox, setSelectedBox] = useState<string>("");
   const [selectedWeek, setSelectedWeek] = useState<string>("");
   const [boxData, setBoxData] = useState<BoxData | null>(null);
+  const [servings, setServings] = useState(0);
+  // The box data as it goes into the book, rescaled to the chosen servings
+  const bookData = useMemo(
+    () => (boxData && servings ? scaleBoxData(boxData, servings) : boxData),
+    [boxData, servings],
+  );
+  const missingRecipeInfo = useMemo(
+    () => (boxData ? findMissingRecipeInfo(boxData) : []),
+    [boxData],
+  );
+  const dietConflicts = useMemo(() => {
+    const box = boxes.find(({ id }) => id === selectedBox);
+    return box && boxData ? findDietConflicts(box, boxData) : [];
+  }, [boxes, selectedBox, boxData]);
   const [isLoading, setIsLoading] = useState(false);
+  // When the shown box data was fetched, and whether it's being fetched again
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [isStale, setIsStale] = useState(false);
+  // The box and week whose data was requested last, so a slow response for
+  // one that's no longer selected is ignored
+  const dataRequestRef = useRef("");
   const [isCreatingDocument, setIsCreatingDocument] = useState(false);
+  const [progressStep, setProgressStep] = useState<GenerationStep | null>(null);
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const cancelRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string>("");
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>(
+    [],
+  );
   const [success, setSuccess] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
+  const [generationRun, setGenerationRun] = useState<GenerationRun | null>(
+    null,
+  );
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [mode, setMode] = useState<"create" | "fill">("create");
+  const [isFillingTemplate, setIsFillingTemplate] = useState(false);
+  const [fillReport, setFillReport] = useState<PlaceholderReport | null>(null);
+  const [isCheckingTemplate, setIsCheckingTemplate] = useState(false);
+  const [templateCheck, setTemplateCheck] =
+    useState<TemplateCheckReport | null>(null);
+  const [retrying, setRetrying] =
+    useState<DesignQueueProgress["retrying"]>(undefined);
+  const [bookMode, setBookMode] = useState<"single" | "batch">("single");
+  // Batch runs are for upcoming print runs, so only upcoming weeks are offered
+  const [batchWeekOptions] = useState(() => generateWeeks(0, 8));
+  const [batchBoxes, setBatchBoxes] = useState<string[]>([]);
+  const [batchWeeks, setBatchWeeks] = useState<string[]>([]);
+  const [isCreatingBatch, setIsCreatingBatch] = useState(false);
+  const [batchStep, setBatchStep] = useState<BatchStep | null>(null);
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+
+  // Tick while books are being created, so the elapsed time stays current
+  useEffect(() => {
+    if (!isCreatingDocument && !isCreatingBatch) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isCreatingDocument, isCreatingBatch]);
 
   // Load boxes on mount
   useEffect(() => {
@@ -42,6 +372,15 @@ export const App = () => {
     setWeeks(generateWeeks());
   }, []);
 
+  const describeError = (err: unknown) =>
+    err instanceof Error
+      ? err.message
+      : intl.formatMessage({
+          defaultMessage: "Unknown error",
+          description:
+            "Stands in for the reason something failed when there's no error message",
+        });
+
   const loadBoxes = async () => {
     console.log("Loading boxes...");
     try {
@@ -49,172 +388,1465 @@ export const App = () => {
       console.log("Boxes loaded:", boxesData);
       setBoxes(boxesData);
     } catch (err) {
+      if (err instanceof PayloadValidationError) {
+        setValidationIssues(err.issues);
+      }
       setError("Failed to load boxes");
       console.error("Error loading boxes:", err);
     }
   };
 
-  const handleSubmit = async () => {
+  const loadWeeks = async (boxId: string) => {
+    weeksRequestRef.current = boxId;
+    setIsLoadingWeeks(true);
+    const options = await loadWeekOptions(boxId);
+    if (weeksRequestRef.current !== boxId) {
+      return;
+    }
+    setWeeks(options.weeks);
+    setWeekSource(options.source);
+    setSelectedWeek(getNextDeliveryWeek(options.weeks) ?? "");
+    setIsLoadingWeeks(false);
+  };
+
+  /**
+   * Shows the selected box's recipes. Data cached from an earlier fetch is
+   * shown straight away while it's fetched again, and kept if the backend
+   * can't be reached.
+   * @param refresh - Skip the cache, e.g. when the user asks for fresh data
+   */
+  const handleSubmit = async ({ refresh = false } = {}) => {
     console.log("Handle submit called with:", { selectedBox, selectedWeek });
     if (!selectedBox || !selectedWeek) {
       setError("Please select both a box and a week");
       return;
     }
 
-    setIsLoading(true);
+    const requestKey = `${selectedBox}:${selectedWeek}`;
+    dataRequestRef.current = requestKey;
     setError("");
+    setNotice("");
+    setValidationIssues([]);
+
+    const cached = refresh
+      ? undefined
+      : getCachedBoxData(selectedBox, selectedWeek);
+    // Data that's already shown is kept if the backend can't be reached
+    const hasShownData = cached !== undefined || (refresh && boxData != null);
+    if (cached) {
+      console.log("Showing cached box data from:", cached.fetchedAt);
+      setBoxData(cached.data);
+      setLastUpdated(cached.fetchedAt);
+      setGenerationRun(null);
+      setFillReport(null);
+      setTemplateCheck(null);
+    }
+    setIsStale(false);
+    setIsRevalidating(true);
+    setIsLoading(!hasShownData);
 
     try {
       console.log("Fetching box data for:", { selectedBox, selectedWeek });
-      const data = await fetchBoxData(selectedBox, selectedWeek);
+      const { data, fetchedAt } = await fetchBoxData(selectedBox, selectedWeek);
       console.log("Box data fetched:", data);
+      if (dataRequestRef.current !== requestKey) {
+        return;
+      }
       setBoxData(data);
+      setLastUpdated(fetchedAt);
+      if (!hasShownData) {
+        setGenerationRun(null);
+        setFillReport(null);
+        setTemplateCheck(null);
+      }
     } catch (err) {
-      setError("Failed to fetch recipe data");
       console.error("Error fetching box data:", err);
+      if (dataRequestRef.current !== requestKey) {
+        return;
+      }
+      if (hasShownData) {
+        setIsStale(true);
+        setNotice(
+          intl.formatMessage({
+            defaultMessage:
+              "Couldn't reach the recipe backend, so the recipes shown may be out of date.",
+            description:
+              "Notice shown when earlier fetched recipes are shown because the backend couldn't be reached",
+          }),
+        );
+      } else if (err instanceof ApiError && err.status === 404) {
+        setError(
+          intl.formatMessage({
+            defaultMessage: "No recipes found for the selected box and week",
+            description:
+              "Error shown when the selected box has no recipes for the selected week",
+          }),
+        );
+      } else if (err instanceof PayloadValidationError) {
+        setValidationIssues(err.issues);
+        setError(
+          intl.formatMessage(
+            {
+              defaultMessage:
+                "{message}: {count, plural, one {# problem} other {# problems}} found",
+              description:
+                "Error shown when the backend sent recipe data that isn't valid. The problems are listed below it.",
+            },
+            { message: err.message, count: err.issues.length },
+          ),
+        );
+      } else {
+        setError("Failed to fetch recipe data");
+      }
     } finally {
-      setIsLoading(false);
+      if (dataRequestRef.current === requestKey) {
+        setIsLoading(false);
+        setIsRevalidating(false);
+      }
     }
   };
 
-  const createRecipeDocument = async () => {
-    console.log("Creating recipe document with boxData:", boxData);
-    if (!boxData || !selectedBox) {
+  /**
+   * Creates the recipe book, or finishes a failed run when one is passed in
+   */
+  const createRecipeDocument = async (resumeRun?: GenerationRun) => {
+    console.log("Creating recipe document with box data:", bookData);
+    if (!bookData || !selectedBox) {
       setError("No recipe data available");
       return;
     }
 
     setIsCreatingDocument(true);
     setError("");
+    setValidationIssues([]);
     setSuccess("");
+    setNotice("");
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    const cancel = new AbortController();
+    cancelRef.current = cancel;
+
+    // Let the user know when Canva is slowing the book down
+    const stopListening = designCallQueue.onProgress((progress) =>
+      setRetrying(progress.retrying),
+    );
 
     try {
       console.log("Creating complete recipe book...");
-      console.log("Box data:", boxData);
-      console.log("Number of recipes:", boxData.recipes.length);
+      console.log("Box data:", bookData);
+      console.log("Number of recipes:", bookData.recipes.length);
       
+      // Lay the book out with the template registered for the selected box
+      const box = boxes.find(({ id }) => id === selectedBox);
+      const template = getLayoutTemplate(box?.templateId ?? "");
+
+      // Upload the dish photos first, so the pages can include them
+      const { images, failedUrls } = await uploadRecipeImages(
+        bookData.recipes,
+        ({ completed, total }) =>
+          setProgressStep({ kind: "images", completed, total }),
+      );
+
       // Create complete recipe book with front page and all recipe pages
-      await createCompleteRecipeBook(boxData, boxData.recipes);
-      
-      const totalPages = boxData.recipes.length + 1; // +1 for front page
-      setSuccess(`Successfully created complete recipe book with ${totalPages} pages!`);
+      const run = await createCompleteRecipeBook(
+        bookData,
+        bookData.recipes,
+        template,
+        images,
+        {
+          run: resumeRun,
+          onUpdate: setGenerationRun,
+          onProgress: setProgressStep,
+          signal: cancel.signal,
+          diets: box?.diets,
+        },
+      );
+      const totalPages = countCreatedPages(run);
+
+      setSuccess(
+        intl.formatMessage(
+          {
+            defaultMessage:
+              "Successfully created complete recipe book with {totalPages} pages!{skippedPhotos, plural, =0 {} one { # photo could not be uploaded and was left out.} other { # photos could not be uploaded and were left out.}}",
+            description:
+              "Shown when the recipe book was added to the design, with how many photos were left out if any",
+          },
+          { totalPages, skippedPhotos: failedUrls.length },
+        ),
+      );
     } catch (err) {
       console.error("Error creating recipe document:", err);
-      if (err instanceof CanvaError) {
-        console.error("Canva error code:", err.code);
-        switch (err.code) {
+      // Keep what the run created, so it can be resumed or cleaned up
+      const run = err instanceof BookGenerationError ? err.run : null;
+      const cause = err instanceof BookGenerationError ? err.cause : err;
+      if (run) {
+        setGenerationRun(run);
+      }
+      if (run && cause instanceof GenerationCancelledError) {
+        setNotice(
+          intl.formatMessage(
+            {
+              defaultMessage:
+                "Cancelled after {count, plural, one {# page} other {# pages}}. Resume to finish the book, or remove what was created.",
+              description:
+                "Shown when the user cancelled creating the recipe book",
+            },
+            { count: countCreatedPages(run) },
+          ),
+        );
+      } else if (cause instanceof CanvaError) {
+        console.error("Canva error code:", cause.code);
+        switch (cause.code) {
           case "quota_exceeded":
             setError("Cannot add more pages. Please remove existing pages and try again.");
             break;
           case "rate_limited":
-            setError("Rate limited. Please wait a moment and try again.");
+            setError(
+              intl.formatMessage({
+                defaultMessage:
+                  "Canva is still rate limiting after several retries. Please wait a minute and resume.",
+                description:
+                  "Error shown when Canva kept rejecting changes to the design for being too frequent",
+              }),
+            );
             break;
           default:
-            setError(`Canva error: ${err.message}`);
+            setError(
+              intl.formatMessage(
+                {
+                  defaultMessage: "Canva error: {message}",
+                  description:
+                    "Error shown when Canva rejected a change to the design",
+                },
+                { message: cause.message },
+              ),
+            );
             break;
         }
       } else {
         setError(`Failed to create document: ${err instanceof Error ? err.message : 'Unknown error'}`);
       }
     } finally {
+      stopListening();
+      cancelRef.current = null;
+      setRetrying(undefined);
+      setProgressStep(null);
       setIsCreatingDocument(false);
     }
   };
 
+  /**
+   * Creates a section with a divider page, front page and recipe pages for
+   * every selected week of every selected box
+   */
+  const createBatchBooks = async () => {
+    const items = planBatchItems(boxes, batchBoxes, batchWeeks);
+    if (items.length === 0) {
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Please select at least one box and one week",
+          description:
+            "Error shown when a batch of recipe books is created without a box or a week",
+        }),
+      );
+      return;
+    }
+
+    setIsCreatingBatch(true);
+    setError("");
+    setValidationIssues([]);
+    setSuccess("");
+    setNotice("");
+    setBatchRun(null);
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    const cancel = new AbortController();
+    cancelRef.current = cancel;
+
+    const stopListening = designCallQueue.onProgress((progress) =>
+      setRetrying(progress.retrying),
+    );
+
+    try {
+      const run = await createBatchRecipeBooks(items, {
+        servings: servings || undefined,
+        onUpdate: setBatchRun,
+        onProgress: setBatchStep,
+        signal: cancel.signal,
+      });
+      const created = run.items.filter(
+        ({ status }) => status === "created",
+      ).length;
+      const summary = intl.formatMessage(
+        {
+          defaultMessage:
+            "Created {created} of {count, plural, one {# book} other {# books}} with {pageCount} pages.",
+          description: "Summary of a batch of recipe books added to the design",
+        },
+        { created, count: items.length, pageCount: countBatchPages(run) },
+      );
+      if (run.cancelled) {
+        setNotice(
+          intl.formatMessage(
+            {
+              defaultMessage: "Cancelled. {summary}",
+              description:
+                "Shown when the user cancelled a batch of recipe books, followed by what was created",
+            },
+            { summary },
+          ),
+        );
+      } else if (created < items.length) {
+        setNotice(
+          intl.formatMessage(
+            {
+              defaultMessage: "{summary} See below for the books that failed.",
+              description:
+                "Shown when some books of a batch couldn't be created, after what was created",
+            },
+            { summary },
+          ),
+        );
+      } else {
+        setSuccess(summary);
+      }
+    } catch (err) {
+      console.error("Error creating recipe books:", err);
+      setError(
+        intl.formatMessage(
+          {
+            defaultMessage: "Failed to create books: {message}",
+            description:
+              "Error shown when a batch of recipe books couldn't be created",
+          },
+          { message: describeError(err) },
+        ),
+      );
+    } finally {
+      stopListening();
+      cancelRef.current = null;
+      setRetrying(undefined);
+      setBatchStep(null);
+      setIsCreatingBatch(false);
+    }
+  };
+
+  /**
+   * Fills the placeholders of a template design with the selected box's recipes
+   */
+  const fillTemplate = async () => {
+    if (!bookData) {
+      setError(
+        intl.formatMessage({
+          defaultMessage: "No recipe data available",
+          description:
+            "Error shown when a recipe book is made before the recipes are loaded",
+        }),
+      );
+      return;
+    }
+
+    setIsFillingTemplate(true);
+    setError("");
+    setSuccess("");
+    setNotice("");
+    setFillReport(null);
+
+    try {
+      // Upload the dish photos first, so tagged image frames can be filled
+      const { images, failedUrls } = await uploadRecipeImages(bookData.recipes);
+      setFillReport(await fillRecipeTemplate(bookData, images));
+      if (failedUrls.length > 0) {
+        setNotice(
+          intl.formatMessage(
+            {
+              defaultMessage:
+                "{count, plural, one {# photo could not be uploaded and was left out.} other {# photos could not be uploaded and were left out.}}",
+              description:
+                "Shown when a template was filled without some of the recipe photos",
+            },
+            { count: failedUrls.length },
+          ),
+        );
+      }
+    } catch (err) {
+      console.error("Error filling template:", err);
+      setError(
+        intl.formatMessage(
+          {
+            defaultMessage: "Failed to fill template: {message}",
+            description:
+              "Error shown when the placeholders of the design couldn't be filled",
+          },
+          { message: describeError(err) },
+        ),
+      );
+    } finally {
+      setIsFillingTemplate(false);
+    }
+  };
+
+  /**
+   * Lists the placeholders in the design that don't match the box's data
+   */
+  const checkTemplate = async () => {
+    if (!bookData) {
+      setError(
+        intl.formatMessage({
+          defaultMessage: "No recipe data available",
+          description:
+            "Error shown when a recipe book is made before the recipes are loaded",
+        }),
+      );
+      return;
+    }
+
+    setIsCheckingTemplate(true);
+    setError("");
+    setTemplateCheck(null);
+
+    try {
+      setTemplateCheck(await checkRecipeTemplate(bookData));
+    } catch (err) {
+      console.error("Error checking template:", err);
+      setError(
+        intl.formatMessage(
+          {
+            defaultMessage: "Failed to check template: {message}",
+            description:
+              "Error shown when the placeholders of the design couldn't be checked",
+          },
+          { message: describeError(err) },
+        ),
+      );
+    } finally {
+      setIsCheckingTemplate(false);
+    }
+  };
+
+  /**
+   * Removes everything a failed run added to the design
+   */
+  const rollBackRun = async () => {
+    if (!generationRun) {
+      return;
+    }
+
+    setIsRollingBack(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const { removedElements, clearedPages } =
+        await rollbackGenerationRun(generationRun);
+      const untrackedPages = [
+        generationRun.shoppingList,
+        ...generationRun.recipes,
+      ].reduce(
+        (count, { pageCount, pageIds }) => count + pageCount - pageIds.length,
+        0,
+      );
+      setSuccess(
+        [
+          intl.formatMessage(
+            {
+              defaultMessage:
+                "Removed {count, plural, one {# front page element} other {# front page elements}}.",
+              description:
+                "Shown when what a failed recipe book run added to the front page was removed",
+            },
+            { count: removedElements },
+          ),
+          intl.formatMessage(
+            {
+              defaultMessage:
+                "Emptied {count, plural, one {# page} other {# pages}}.",
+              description:
+                "Shown when the pages a failed recipe book run added were emptied",
+            },
+            { count: clearedPages },
+          ),
+          clearedPages > 0 &&
+            intl.formatMessage(
+              {
+                defaultMessage:
+                  "Apps can't delete pages, so please delete the {count, plural, one {blank page} other {# blank pages}} from the page list.",
+                description:
+                  "Asks the user to delete the pages that were emptied, since apps can't delete pages",
+              },
+              { count: clearedPages },
+            ),
+          untrackedPages > 0 &&
+            intl.formatMessage(
+              {
+                defaultMessage:
+                  "{count, plural, one {# page} other {# pages}} couldn't be identified and must be removed by hand.",
+                description:
+                  "Asks the user to remove the pages of a failed recipe book run that the app couldn't find",
+              },
+              { count: untrackedPages },
+            ),
+        ]
+          .filter(Boolean)
+          .join(" "),
+      );
+      setGenerationRun(null);
+    } catch (err) {
+      console.error("Error rolling back recipe book:", err);
+      setError(
+        intl.formatMessage(
+          {
+            defaultMessage: "Failed to clean up: {message}",
+            description:
+              "Error shown when what a failed recipe book run added to the design couldn't be removed",
+          },
+          { message: describeError(err) },
+        ),
+      );
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const progress = estimateProgress(
+    progressStep && bookData
+      ? getProgressFraction(progressStep, {
+          imageCount: bookData.recipes.reduce(
+            (count, { images }) =>
+              count + (images?.hero ? 1 : 0) + (images?.steps?.length ?? 0),
+            0,
+          ),
+          recipeCount: bookData.recipes.length,
+        })
+      : 0,
+    startedAt,
+    now,
+  );
+
   return (
     <div className={styles.scrollContainer}>
       <Title size="large">Recipe Box Selector</Title>
 
       <Rows spacing="2u">
-        <FormField
-          label="Select Box"
-          value={selectedBox}
-          control={(props) => (
-            <Select<string>
-              {...props}
-              options={[
-                { value: "", label: "Choose a box...", disabled: true },
-                ...boxes.map((box) => ({
-                  value: box.id,
-                  label: box.label,
-                })),
-              ]}
-              onChange={(value) => {
-                setSelectedBox(value);
-                setBoxData(null);
-              }}
-            />
-          )}
+        <SegmentedControl<"single" | "batch">
+          value={bookMode}
+          options={[
+            {
+              value: "single",
+              label: intl.formatMessage({
+                defaultMessage: "One book",
+                description:
+                  "Mode that creates the recipe book of one box and week",
+              }),
+            },
+            {
+              value: "batch",
+              label: intl.formatMessage({
+                defaultMessage: "Batch",
+                description:
+                  "Mode that creates the recipe books of several boxes and weeks in one run",
+              }),
+            },
+          ]}
+          onChange={(value) => {
+            setBookMode(value);
+            setError("");
+            setSuccess("");
+            setNotice("");
+          }}
+          disabled={isCreatingDocument || isCreatingBatch}
         />
 
-        <FormField
-          label="Select Week"
-          value={selectedWeek}
-          control={(props) => (
-            <Select<string>
-              {...props}
-              options={[
-                { value: "", label: "Choose a week...", disabled: true },
-                ...weeks.map((week) => ({
-                  value: week.value,
-                  label: week.label,
-                })),
-              ]}
-              onChange={(value) => {
-                setSelectedWeek(value);
-                setBoxData(null);
-              }}
+        {bookMode === "single" && (
+          <>
+            <FormField
+              label="Select Box"
+              value={selectedBox}
+              control={(props) => (
+                <Select<string>
+                  {...props}
+                  options={[
+                    { value: "", label: "Choose a box...", disabled: true },
+                    ...boxes.map((box) => ({
+                      value: box.id,
+                      label: box.label,
+                    })),
+                  ]}
+                  onChange={(value) => {
+                    setSelectedBox(value);
+                    setBoxData(null);
+                    setGenerationRun(null);
+                    loadWeeks(value);
+                  }}
+                />
+              )}
+            />
+
+            <FormField
+              label="Select Week"
+              value={selectedWeek}
+              description={
+                selectedBox && !isLoadingWeeks && weekSource === "generated"
+                  ? intl.formatMessage({
+                      defaultMessage:
+                        "Couldn't load this box's weeks, so every week is listed. Some may have no recipes.",
+                      description:
+                        "Shown under the week field when the weeks with recipes couldn't be loaded",
+                    })
+                  : undefined
+              }
+              control={(props) => (
+                <Select<string>
+                  {...props}
+                  disabled={isLoadingWeeks}
+                  options={[
+                    { value: "", label: "Choose a week...", disabled: true },
+                    ...weeks.map((week) => ({
+                      value: week.value,
+                      label: week.label,
+                      description: describeWeek(week, intl),
+                      disabled: week.disabled,
+                    })),
+                  ]}
+                  onChange={(value) => {
+                    setSelectedWeek(value);
+                    setBoxData(null);
+                    setGenerationRun(null);
+                  }}
+                />
+              )}
             />
-          )}
-        />
 
-        <Button
-          variant="primary"
-          onClick={handleSubmit}
-          loading={isLoading}
-          stretch
-        >
-          Get Recipes
-        </Button>
+            <Button
+              variant="primary"
+              onClick={() => handleSubmit()}
+              loading={isLoading}
+              stretch
+            >
+              Get Recipes
+            </Button>
+          </>
+        )}
 
-        {error && <Alert tone="critical" title={error} />}
+        {error && (
+          <Alert tone="critical" title={error}>
+            {validationIssues.length > 0 && (
+              <ul>
+                {validationIssues.map((issue, index) => (
+                  <li key={index}>
+                    <Text size="small" variant="bold">
+                      {issue.path}
+                    </Text>
+                    <Text size="small">{issue.message}</Text>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Alert>
+        )}
         {success && <Alert tone="positive" title={success} />}
+        {notice && <Alert tone="info" title={notice} />}
 
-        {boxData && (
+        {bookMode === "batch" && (
           <Rows spacing="2u">
+            <FormField
+              label={intl.formatMessage({
+                defaultMessage: "Boxes",
+                description:
+                  "Label of the field for choosing the boxes of a batch of recipe books",
+              })}
+              value={batchBoxes}
+              control={(props) => (
+                <CheckboxGroup
+                  {...props}
+                  options={boxes.map((box) => ({
+                    value: box.id,
+                    label: box.label,
+                  }))}
+                  onChange={setBatchBoxes}
+                />
+              )}
+            />
+            <FormField
+              label={intl.formatMessage({
+                defaultMessage: "Weeks",
+                description:
+                  "Label of the field for choosing the weeks of a batch of recipe books",
+              })}
+              value={batchWeeks}
+              control={(props) => (
+                <CheckboxGroup
+                  {...props}
+                  options={batchWeekOptions.map((week) => ({
+                    value: week.value,
+                    label: week.label,
+                  }))}
+                  onChange={(values) =>
+                    // Keep the weeks in calendar order, whatever order they were ticked in
+                    setBatchWeeks(
+                      batchWeekOptions
+                        .map(({ value }) => value)
+                        .filter((value) => values.includes(value)),
+                    )
+                  }
+                />
+              )}
+            />
+            <FormField
+              label={intl.formatMessage({
+                defaultMessage: "Servings",
+                description:
+                  "Label of the field for choosing how many people the recipes are for",
+              })}
+              value={servings}
+              control={(props) => (
+                <Select<number>
+                  {...props}
+                  options={servingsOptions}
+                  onChange={setServings}
+                />
+              )}
+            />
+            <Button
+              variant="primary"
+              onClick={createBatchBooks}
+              loading={isCreatingBatch}
+              disabled={batchBoxes.length === 0 || batchWeeks.length === 0}
+              stretch
+            >
+              {intl.formatMessage(
+                {
+                  defaultMessage:
+                    "Create {count, plural, one {# Book} other {# Books}}",
+                  description:
+                    "Button that creates a recipe book for every selected box and week",
+                },
+                { count: batchBoxes.length * batchWeeks.length },
+              )}
+            </Button>
+            {isCreatingBatch && batchStep && (
+              <Rows spacing="1u">
+                <ProgressBar
+                  value={Math.round(getBatchProgressFraction(batchStep) * 100)}
+                  ariaLabel={intl.formatMessage({
+                    defaultMessage: "Batch progress",
+                    description:
+                      "Accessible label of the progress bar of a batch of recipe books",
+                  })}
+                />
+                <Text size="small">{describeBatchStep(batchStep, intl)}</Text>
+                <Text size="small" tone="secondary">
+                  <FormattedMessage
+                    defaultMessage="Elapsed {duration}"
+                    description="How long the batch of recipe books has been running"
+                    values={{
+                      duration: formatDuration(Math.max(0, now - startedAt)),
+                    }}
+                  />
+                </Text>
+                <Button
+                  variant="secondary"
+                  onClick={() => cancelRef.current?.abort()}
+                  stretch
+                >
+                  {intl.formatMessage({
+                    defaultMessage: "Cancel",
+                    description: "Button that stops creating recipe books",
+                  })}
+                </Button>
+              </Rows>
+            )}
+            {retrying && isCreatingBatch && (
+              <Text size="small" tone="secondary">
+                <FormattedMessage
+                  defaultMessage="Canva is busy, retrying in {seconds}s (attempt {attempt})"
+                  description="Shown while a change to the design waits to be retried because Canva is busy"
+                  values={{
+                    seconds: Math.ceil(retrying.delayMs / 1000),
+                    attempt: retrying.attempt,
+                  }}
+                />
+              </Text>
+            )}
+            {batchRun && (
+              <Rows spacing="1u">
+                <Text variant="bold">
+                  <FormattedMessage
+                    defaultMessage="Books"
+                    description="Heading of the list of recipe books in a batch"
+                  />
+                </Text>
+                {batchRun.items.map(
+                  ({
+                    key,
+                    label,
+                    status,
+                    pageCount,
+                    skippedPhotos,
+                    dietConflicts: itemDietConflicts,
+                    error: itemError,
+                  }) => (
+                    <Columns key={key} spacing="1u" alignY="center">
+                      <Column width="content">
+                        <Badge
+                          tone={STATUS_BADGE_TONES[status]}
+                          text={intl.formatMessage(STATUS_BADGE_LABELS[status])}
+                        />
+                      </Column>
+                      <Column>
+                        <Text size="small">{label}</Text>
+                        {pageCount > 0 && (
+                          <Text size="small" tone="secondary">
+                            <FormattedMessage
+                              defaultMessage="{count, plural, one {# page} other {# pages}}"
+                              description="How many pages a recipe book in a batch has"
+                              values={{ count: pageCount }}
+                            />
+                            {skippedPhotos > 0 && (
+                              <FormattedMessage
+                                defaultMessage=", {count, plural, one {# photo} other {# photos}} left out"
+                                description="Follows the page count of a recipe book in a batch, with how many of its photos couldn't be uploaded"
+                                values={{ count: skippedPhotos }}
+                              />
+                            )}
+                          </Text>
+                        )}
+                        {itemDietConflicts.length > 0 && (
+                          <Text size="small">
+                            <FormattedMessage
+                              defaultMessage="{count, plural, one {# recipe doesn't} other {# recipes don't}} suit the box's diets"
+                              description="Warns that some recipes in a recipe book in a batch don't meet the diets the box is tagged with"
+                              values={{
+                                count: new Set(
+                                  itemDietConflicts.map(({ path }) => path),
+                                ).size,
+                              }}
+                            />
+                          </Text>
+                        )}
+                        {itemError && (
+                          <Text size="small" tone="critical">
+                            {itemError.kind === "failed"
+                              ? describeError(itemError.cause)
+                              : intl.formatMessage(
+                                  BATCH_ITEM_ERROR_LABELS[itemError.kind],
+                                )}
+                          </Text>
+                        )}
+                      </Column>
+                    </Columns>
+                  ),
+                )}
+              </Rows>
+            )}
+          </Rows>
+        )}
+
+        {bookMode === "single" && bookData && (
+          <Rows spacing="2u">
+            {lastUpdated != null && (
+              <Columns spacing="1u" alignY="center">
+                <Column>
+                  <Badge
+                    tone={isStale ? "warn" : "assist"}
+                    text={
+                      isRevalidating
+                        ? intl.formatMessage(
+                            {
+                              defaultMessage:
+                                "Updated {lastUpdated}, checking for changes…",
+                              description:
+                                "Shows when the recipes were fetched, while they're being fetched again",
+                            },
+                            {
+                              lastUpdated: describeLastUpdated(
+                                lastUpdated,
+                                intl,
+                              ),
+                            },
+                          )
+                        : intl.formatMessage(
+                            {
+                              defaultMessage: "Updated {lastUpdated}",
+                              description:
+                                "Shows when the recipes were fetched",
+                            },
+                            {
+                              lastUpdated: describeLastUpdated(
+                                lastUpdated,
+                                intl,
+                              ),
+                            },
+                          )
+                    }
+                  />
+                </Column>
+                <Column width="content">
+                  <Button
+                    variant="tertiary"
+                    onClick={() => handleSubmit({ refresh: true })}
+                    loading={isRevalidating}
+                    disabled={isCreatingDocument || isFillingTemplate}
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Refresh",
+                      description: "Button that fetches the recipes again",
+                    })}
+                  </Button>
+                </Column>
+              </Columns>
+            )}
             <Title size="small">Frontpage</Title>
-            <Text variant="bold">{boxData.frontpage.title}</Text>
+            <Text variant="bold">{bookData.frontpage.title}</Text>
             <div>
               <Text variant="bold">Ingredients:</Text>
               <ul>
-                {boxData.frontpage.ingredients.map((ingredient, index) => (
+                {bookData.frontpage.ingredients.map((ingredient, index) => (
                   <li key={index}>{ingredient}</li>
                 ))}
               </ul>
             </div>
 
             <Title size="small">Recipes</Title>
-            {boxData.recipes.map((recipe) => (
+            {bookData.recipes.map((recipe) => (
               <Rows key={recipe.id} spacing="0.5u">
                 <Text variant="bold">{recipe.title}</Text>
                 <div>
                   <ul>
                     {recipe.ingredients.map((ingredient, index) => (
-                      <li key={index}>{ingredient}</li>
+                      <li key={index}>{formatIngredient(ingredient)}</li>
                     ))}
                   </ul>
                 </div>
               </Rows>
             ))}
 
-            <Button
-              variant="primary"
-              onClick={createRecipeDocument}
-              loading={isCreatingDocument}
-              stretch
-            >
-              Create Complete Recipe Book
-            </Button>
+            {missingRecipeInfo.length > 0 && (
+              <Alert
+                tone="warn"
+                title={intl.formatMessage({
+                  defaultMessage:
+                    "Some recipes are missing allergens or nutritional values",
+                  description:
+                    "Warning listing the recipes that the book will show without allergens or nutrition",
+                })}
+              >
+                <ul>
+                  {missingRecipeInfo.map((issue) => (
+                    <li key={issue.path}>
+                      <Text size="small" variant="bold">
+                        {issue.path}
+                      </Text>
+                      <Text size="small">{issue.message}</Text>
+                    </li>
+                  ))}
+                </ul>
+              </Alert>
+            )}
+            {dietConflicts.length > 0 && (
+              <Alert
+                tone="warn"
+                title={intl.formatMessage({
+                  defaultMessage: "Some recipes don't suit the box's diets",
+                  description:
+                    "Warning listing the recipes that don't meet the diets the box is tagged with",
+                })}
+              >
+                <ul>
+                  {dietConflicts.map((issue) => (
+                    <li key={`${issue.path}:${issue.message}`}>
+                      <Text size="small" variant="bold">
+                        {issue.path}
+                      </Text>
+                      <Text size="small">{issue.message}</Text>
+                    </li>
+                  ))}
+                </ul>
+              </Alert>
+            )}
+
+            <FormField
+              label={intl.formatMessage({
+                defaultMessage: "Servings",
+                description:
+                  "Label of the field for choosing how many people the recipes are for",
+              })}
+              value={servings}
+              control={(props) => (
+                <Select<number>
+                  {...props}
+                  options={servingsOptions}
+                  onChange={setServings}
+                />
+              )}
+            />
+
+            <FormField
+              label={intl.formatMessage({
+                defaultMessage: "Generation mode",
+                description:
+                  "Label of the field for choosing how the recipe book is made",
+              })}
+              value={mode}
+              control={(props) => (
+                <SegmentedControl
+                  {...props}
+                  options={[
+                    {
+                      value: "create",
+                      label: intl.formatMessage({
+                        defaultMessage: "Create pages",
+                        description:
+                          "Mode that adds new pages for the recipe book",
+                      }),
+                    },
+                    {
+                      value: "fill",
+                      label: intl.formatMessage({
+                        defaultMessage: "Fill template",
+                        description:
+                          "Mode that fills the placeholders of the current design",
+                      }),
+                    },
+                  ]}
+                  onChange={setMode}
+                />
+              )}
+            />
+
+            {mode === "create" && (
+              <>
+                <Button
+                  variant="primary"
+                  onClick={() => createRecipeDocument()}
+                  loading={isCreatingDocument}
+                  disabled={isRollingBack}
+                  stretch
+                >
+                  Create Complete Recipe Book
+                </Button>
+                {isCreatingDocument && progressStep && (
+                  <Rows spacing="1u">
+                    <ProgressBar
+                      value={Math.round(progress.fraction * 100)}
+                      ariaLabel={intl.formatMessage({
+                        defaultMessage: "Recipe book progress",
+                        description:
+                          "Accessible label of the progress bar of the recipe book",
+                      })}
+                    />
+                    <Text size="small">
+                      {describeGenerationStep(progressStep, intl)}
+                    </Text>
+                    <Text size="small" tone="secondary">
+                      {progress.remainingMs === undefined ? (
+                        <FormattedMessage
+                          defaultMessage="Elapsed {elapsed}"
+                          description="How long the recipe book has been in the making"
+                          values={{
+                            elapsed: formatDuration(progress.elapsedMs),
+                          }}
+                        />
+                      ) : (
+                        <FormattedMessage
+                          defaultMessage="Elapsed {elapsed}, about {remaining} left"
+                          description="How long the recipe book has been in the making, and how long it will take to finish"
+                          values={{
+                            elapsed: formatDuration(progress.elapsedMs),
+                            remaining: formatDuration(progress.remainingMs),
+                          }}
+                        />
+                      )}
+                    </Text>
+                    <Button
+                      variant="secondary"
+                      onClick={() => cancelRef.current?.abort()}
+                      stretch
+                    >
+                      {intl.formatMessage({
+                        defaultMessage: "Cancel",
+                        description: "Button that stops creating recipe books",
+                      })}
+                    </Button>
+                  </Rows>
+                )}
+                {retrying && (
+                  <Text size="small" tone="secondary">
+                    <FormattedMessage
+                      defaultMessage="Canva is busy, retrying in {seconds}s (attempt {attempt})"
+                      description="Shown while a change to the design waits to be retried because Canva is busy"
+                      values={{
+                        seconds: Math.ceil(retrying.delayMs / 1000),
+                        attempt: retrying.attempt,
+                      }}
+                    />
+                  </Text>
+                )}
+
+                {generationRun && (
+                  <Rows spacing="1u">
+                    <Text variant="bold">
+                      <FormattedMessage
+                        defaultMessage="Book status"
+                        description="Heading of the list of the recipe book's parts and whether they were created"
+                      />
+                    </Text>
+                    {[
+                      {
+                        key: "front-page",
+                        label: intl.formatMessage({
+                          defaultMessage: "Front page",
+                          description:
+                            "The front page of the recipe book, in the book status list",
+                        }),
+                        ...generationRun.frontPage,
+                      },
+                      {
+                        key: "shopping-list",
+                        label: intl.formatMessage({
+                          defaultMessage: "Shopping list",
+                          description:
+                            "The shopping list pages of the recipe book, in the book status list",
+                        }),
+                        ...generationRun.shoppingList,
+                      },
+                      ...generationRun.recipes.map((recipe) => ({
+                        key: recipe.recipeId,
+                        label: recipe.title,
+                        ...recipe,
+                      })),
+                    ].map(({ key, label, status, error: stepError }) => (
+                      <Columns key={key} spacing="1u" alignY="center">
+                        <Column width="content">
+                          <Badge
+                            tone={STATUS_BADGE_TONES[status]}
+                            text={intl.formatMessage(
+                              STATUS_BADGE_LABELS[status],
+                            )}
+                          />
+                        </Column>
+                        <Column>
+                          <Text size="small">{label}</Text>
+                          {stepError && (
+                            <Text size="small" tone="critical">
+                              {stepError}
+                            </Text>
+                          )}
+                        </Column>
+                      </Columns>
+                    ))}
+
+                    {!isRunComplete(generationRun) && !isCreatingDocument && (
+                      <Rows spacing="1u">
+                        <Button
+                          variant="primary"
+                          onClick={() => createRecipeDocument(generationRun)}
+                          disabled={isRollingBack}
+                          stretch
+                        >
+                          {intl.formatMessage({
+                            defaultMessage: "Resume Where It Stopped",
+                            description:
+                              "Button that finishes a recipe book that failed or was cancelled",
+                          })}
+                        </Button>
+                        {hasCreatedContent(generationRun) && (
+                          <Button
+                            variant="secondary"
+                            onClick={rollBackRun}
+                            loading={isRollingBack}
+                            stretch
+                          >
+                            {intl.formatMessage({
+                              defaultMessage: "Remove Created Pages",
+                              description:
+                                "Button that removes what a failed or cancelled recipe book added to the design",
+                            })}
+                          </Button>
+                        )}
+                      </Rows>
+                    )}
+                  </Rows>
+                )}
+              </>
+            )}
+
+            {mode === "fill" && (
+              <>
+                <Text size="small" tone="secondary">
+                  <FormattedMessage
+                    defaultMessage="Replaces placeholders such as {title} on every page of the design with the selected box's recipes. Placeholders can use filters and loops, e.g. {day} or {ingredients}. To fill a frame with a recipe photo, place a text with only {image} over it or group them."
+                    description="Explains how to fill a template design. The values are placeholders that must not be translated."
+                    values={{
+                      title: "{{recipeTitle_1}}",
+                      day: '{{recipeDay_1|default:"-"}}',
+                      ingredients: "{{recipeIngredientList_1|bullet}}",
+                      image: "{{recipeImage_1}}",
+                    }}
+                  />
+                </Text>
+                <Button
+                  variant="primary"
+                  onClick={fillTemplate}
+                  loading={isFillingTemplate}
+                  stretch
+                >
+                  {intl.formatMessage({
+                    defaultMessage: "Fill Template",
+                    description:
+                      "Button that fills the placeholders of the design with the recipes",
+                  })}
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={checkTemplate}
+                  loading={isCheckingTemplate}
+                  stretch
+                >
+                  {intl.formatMessage({
+                    defaultMessage: "Check Template",
+                    description:
+                      "Button that lists the placeholders of the design that don't match the recipes",
+                  })}
+                </Button>
+                {templateCheck && (
+                  <Alert
+                    tone={
+                      hasLintProblems(templateCheck) ||
+                      templateCheck.errors.length > 0
+                        ? "warn"
+                        : "positive"
+                    }
+                    title={
+                      hasLintProblems(templateCheck) ||
+                      templateCheck.errors.length > 0
+                        ? intl.formatMessage({
+                            defaultMessage:
+                              "The template doesn't match the box's data",
+                            description:
+                              "Title of the template check when it found problems, which are listed below it",
+                          })
+                        : intl.formatMessage({
+                            defaultMessage:
+                              "Every placeholder matches the box's data",
+                            description:
+                              "Title of the template check when it found no problems",
+                          })
+                    }
+                  >
+                    {[
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Unknown placeholders",
+                          description:
+                            "Heading of the placeholders in the design that match no data field",
+                        }),
+                        lines: templateCheck.unknown.map(
+                          ({ key, pages, suggestion }) =>
+                            suggestion
+                              ? intl.formatMessage(
+                                  {
+                                    defaultMessage:
+                                      "{placeholder} on page {pages}, did you mean {suggestion}?",
+                                    description:
+                                      "An unknown placeholder, the pages it's on and the data field it was probably meant to be",
+                                  },
+                                  {
+                                    placeholder: `{{${key}}}`,
+                                    pages: pages
+                                      .map((page) => page + 1)
+                                      .join(", "),
+                                    suggestion: `{{${suggestion}}}`,
+                                  },
+                                )
+                              : intl.formatMessage(
+                                  {
+                                    defaultMessage:
+                                      "{placeholder} on page {pages}",
+                                    description:
+                                      "An unknown placeholder and the pages it's on",
+                                  },
+                                  {
+                                    placeholder: `{{${key}}}`,
+                                    pages: pages
+                                      .map((page) => page + 1)
+                                      .join(", "),
+                                  },
+                                ),
+                        ),
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Gaps in numbering",
+                          description:
+                            "Heading of the numbered placeholders that skip a number",
+                        }),
+                        lines: templateCheck.indexGaps.map(
+                          ({ prefix, missing }) =>
+                            intl.formatMessage(
+                              {
+                                defaultMessage: "{prefix}: no {missing}",
+                                description:
+                                  "A placeholder name and the numbers it skips, such as recipeTitle: no _3",
+                              },
+                              {
+                                prefix,
+                                missing: missing
+                                  .map((index) => `_${index}`)
+                                  .join(", "),
+                              },
+                            ),
+                        ),
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Used more than once",
+                          description:
+                            "Heading of the placeholders that appear several times in the design",
+                        }),
+                        lines: templateCheck.duplicates.map(({ key, count }) =>
+                          intl.formatMessage(
+                            {
+                              defaultMessage: "{placeholder} ({count} times)",
+                              description:
+                                "A placeholder and how often it appears in the design",
+                            },
+                            { placeholder: `{{${key}}}`, count },
+                          ),
+                        ),
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Template errors",
+                          description:
+                            "Heading of the placeholders that couldn't be read, such as unclosed loops",
+                        }),
+                        lines: templateCheck.errors.map(
+                          ({ pageIndex, message }) =>
+                            intl.formatMessage(
+                              {
+                                defaultMessage: "Page {page}: {message}",
+                                description:
+                                  "A problem with the placeholders on a page of the design",
+                              },
+                              { page: pageIndex + 1, message },
+                            ),
+                        ),
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage:
+                            "Data fields the template doesn't show",
+                          description:
+                            "Heading of the data fields that no placeholder in the design uses, listed for information as a template needn't show every field",
+                        }),
+                        lines: [
+                          templateCheck.unused
+                            .map((field) => `{{${field}}}`)
+                            .join(", "),
+                        ].filter(Boolean),
+                      },
+                    ]
+                      .filter(({ lines }) => lines.length > 0)
+                      .map(({ label, lines }) => (
+                        <div key={label}>
+                          <Text size="small" variant="bold">
+                            {label}
+                          </Text>
+                          {lines.map((line) => (
+                            <Text key={line} size="small">
+                              {line}
+                            </Text>
+                          ))}
+                        </div>
+                      ))}
+                  </Alert>
+                )}
+                {fillReport && (
+                  <Alert
+                    tone={
+                      fillReport.missing.length > 0 ||
+                      fillReport.unmatched.length > 0 ||
+                      fillReport.skippedPages.length > 0 ||
+                      fillReport.pages.some(({ errors }) => errors.length > 0)
+                        ? "warn"
+                        : "positive"
+                    }
+                    title={intl.formatMessage(
+                      {
+                        defaultMessage:
+                          "Filled {count, plural, one {# placeholder} other {# placeholders}}",
+                        description:
+                          "Title of the report of a template that was filled with the recipes",
+                      },
+                      { count: fillReport.filled.length },
+                    )}
+                  >
+                    {[
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Missing from the design",
+                          description:
+                            "Heading of the data fields that have no placeholder in the design",
+                        }),
+                        names: fillReport.missing,
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "No data for",
+                          description:
+                            "Heading of the placeholders in the design that no data field fills",
+                        }),
+                        names: fillReport.unmatched,
+                      },
+                    ]
+                      .filter(({ names }) => names.length > 0)
+                      .map(({ label, names }) => (
+                        <div key={label}>
+                          <Text size="small" variant="bold">
+                            {label}
+                          </Text>
+                          <Text size="small">
+                            {names.map((name) => `{{${name}}}`).join(", ")}
+                          </Text>
+                        </div>
+                      ))}
+                    {fillReport.pages.map(
+                      ({ pageIndex, replacements, errors }) => (
+                        <Text key={pageIndex} size="small">
+                          {[
+                            intl.formatMessage(
+                              {
+                                defaultMessage:
+                                  "Page {page}: {count, plural, one {# replacement} other {# replacements}}",
+                                description:
+                                  "How many placeholders were filled on a page of the design",
+                              },
+                              { page: pageIndex + 1, count: replacements },
+                            ),
+                            ...errors,
+                          ].join(". ")}
+                        </Text>
+                      ),
+                    )}
+                    {fillReport.skippedPages.length > 0 && (
+                      <Text size="small">
+                        <FormattedMessage
+                          defaultMessage="Skipped locked {count, plural, one {page} other {pages}}: {pages}"
+                          description="The pages of the design that couldn't be filled because they're locked"
+                          values={{
+                            count: fillReport.skippedPages.length,
+                            pages: fillReport.skippedPages
+                              .map((pageIndex) => pageIndex + 1)
+                              .join(", "),
+                          }}
+                        />
+                      </Text>
+                    )}
+                  </Alert>
+                )}
+              </>
+            )}
           </Rows>
         )}
       </Rows>
@@ -0,0 +1,164 @@
+/* eslint-disable no-console */
+import "dotenv/config";
+import * as express from "express";
+import * as cors from "cors";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createBaseServer } from "../../utils/backend/base_backend/create";
+
+/**
+ * Local stand-in for the recipe backend. It serves the same routes as the real
+ * backend from JSON fixtures on disk, so the app can be developed offline.
+ *
+ * Fixtures are laid out as:
+ * - `<data dir>/boxes.json` - the list of available boxes
+ * - `<data dir>/boxes/<boxId>/<wwyy>.json` - the box data for a specific week
+ * - `<data dir>/boxes/<boxId>/default.json` - used when a week has no fixture
+ * - `<data dir>/boxes/<boxId>/weeks.json` - optional, the weeks the box has
+ *   recipes in. Without it, every `<wwyy>.json` fixture counts as a published
+ *   week.
+ *
+ * Set `RECIPE_DATA_DIR` in the project's .env file to serve fixtures from a
+ * different directory.
+ */
+const DATA_DIR =
+  process.env.RECIPE_DATA_DIR || path.join(__dirname, "..", "..", "data");
+
+// Both values end up in a file path, so only allow plain identifiers
+const BOX_ID_PATTERN = /^[a-z0-9-]+$/;
+const WEEK_PATTERN = /^\d{4}$/;
+
+async function readJsonFile(filePath: string): Promise<unknown | undefined> {
+  try {
+    const contents = await fs.promises.readFile(filePath, "utf8");
+    return JSON.parse(contents);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists the weeks a box has recipes in, from `weeks.json` if the box has one,
+ * otherwise from its week fixtures
+ * @param boxDir - The box's fixture directory
+ * @returns The weeks, or `undefined` if the box has neither
+ */
+async function readWeekAvailability(
+  boxDir: string,
+): Promise<unknown | undefined> {
+  const weeks = await readJsonFile(path.join(boxDir, "weeks.json"));
+  if (weeks) {
+    return weeks;
+  }
+
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(boxDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const weekFiles = files.filter((file) =>
+    WEEK_PATTERN.test(path.basename(file, ".json")),
+  );
+  if (weekFiles.length === 0) {
+    return undefined;
+  }
+  return Promise.all(
+    weekFiles.map(async (file) => {
+      const boxData = (await readJsonFile(path.join(boxDir, file))) as {
+        recipes?: unknown[];
+      };
+      return {
+        week: path.basename(file, ".json"),
+        status: "published",
+        recipeCount: boxData?.recipes?.length ?? 0,
+      };
+    }),
+  );
+}
+
+async function main() {
+  const router = express.Router();
+
+  // The stand-in server is only meant for local development, so any origin is
+  // allowed. The real backend must restrict this to the app's origin.
+  router.use(cors());
+
+  // The stand-in server doesn't verify the Canva user token sent by the app,
+  // which keeps it usable without a network connection.
+
+  router.get("/api/boxes", async (req, res, next) => {
+    try {
+      const boxes = await readJsonFile(path.join(DATA_DIR, "boxes.json"));
+      if (!boxes) {
+        res.status(404).send({ error: "no boxes fixture found" });
+        return;
+      }
+      res.status(200).send(boxes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/api/boxes/:boxId/weeks", async (req, res, next) => {
+    const { boxId } = req.params;
+
+    if (!BOX_ID_PATTERN.test(boxId)) {
+      res.status(400).send({ error: "invalid box id" });
+      return;
+    }
+
+    try {
+      const weeks = await readWeekAvailability(
+        path.join(DATA_DIR, "boxes", boxId),
+      );
+      if (!weeks) {
+        res.status(404).send({ error: `no weeks found for box '${boxId}'` });
+        return;
+      }
+      res.status(200).send(weeks);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/api/boxes/:boxId/week/:week", async (req, res, next) => {
+    const { boxId, week } = req.params;
+
+    if (!BOX_ID_PATTERN.test(boxId) || !WEEK_PATTERN.test(week)) {
+      res.status(400).send({ error: "invalid box id or week" });
+      return;
+    }
+
+    try {
+      const boxDir = path.join(DATA_DIR, "boxes", boxId);
+      const boxData =
+        (await readJsonFile(path.join(boxDir, `${week}.json`))) ??
+        (await readJsonFile(path.join(boxDir, "default.json")));
+
+      if (!boxData) {
+        res.status(404).send({
+          error: `no recipes found for box '${boxId}' in week '${week}'`,
+        });
+        return;
+      }
+      res.status(200).send(boxData);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  console.log(`Serving recipe fixtures from '${DATA_DIR}'`);
+
+  const server = createBaseServer(router);
+  server.start(process.env.CANVA_BACKEND_PORT);
+}
+
+main();
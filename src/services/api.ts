@@ -1,27 +1,102 @@
-import type { Box, BoxData } from "../types";
-import boxesData from "../../data/boxes.json";
-import boxData from "../../data/box.json";
+import { auth } from "@canva/user";
+import type { Box, WeekAvailability } from "../types";
+import { readCachedBoxData, writeCachedBoxData } from "./box_data_cache";
+import type { CachedBoxData } from "./box_data_cache";
+import { parseBoxData, parseBoxes, parseWeekAvailability } from "./validation";
+
+const API_BASE_URL = `${BACKEND_HOST}/api`;
+
+/**
+ * Thrown when the recipe backend responds with a non-2xx status code
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Sends an authenticated GET request to the recipe backend
+ * @param path - The path of the endpoint, relative to the API base URL
+ * @returns The parsed JSON response body
+ * @throws ApiError if the backend responds with a non-2xx status code
+ */
+async function getJson(path: string): Promise<unknown> {
+  // The token lets the backend verify which Canva user is asking for data
+  const token = await auth.getCanvaUserToken();
+
+  const res = await fetch(`${API_BASE_URL}${path}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!res.ok) {
+    throw new ApiError(
+      res.status,
+      `Request to ${path} failed with status ${res.status}`,
+    );
+  }
+
+  return res.json();
+}
 
 /**
  * Fetches all available boxes
- * TODO: Replace with real API call when backend is ready
+ * @throws PayloadValidationError if the response doesn't match the {@link Box} type
  */
 export async function fetchBoxes(): Promise<Box[]> {
-  // Mock: return data from local JSON file
-  return boxesData as Box[];
+  return parseBoxes(await getJson("/boxes"));
 }
 
 /**
- * Fetches box data for a specific box and week
- * TODO: Replace with real API call when backend is ready
+ * Fetches box data for a specific box and week, and caches it so it can be
+ * shown straight away next time, or when the backend can't be reached
  * @param boxId - The ID of the box to fetch
  * @param week - The week identifier (wwyy format)
+ * @throws PayloadValidationError if the response doesn't match the {@link BoxData} type
  */
 export async function fetchBoxData(
   boxId: string,
   week: string,
-): Promise<BoxData> {
-  // Mock: return data from local JSON file
-  // In real implementation, this would be: return fetch(`/api/boxes/${boxId}/week/${week}`)
-  return boxData as BoxData;
+): Promise<CachedBoxData> {
+  const data = parseBoxData(
+    await getJson(
+      `/boxes/${encodeURIComponent(boxId)}/week/${encodeURIComponent(week)}`,
+    ),
+  );
+  const entry = { data, fetchedAt: Date.now() };
+  writeCachedBoxData(boxId, week, entry);
+  return entry;
+}
+
+/**
+ * Returns the box data fetched earlier for a specific box and week, even if
+ * the panel has been reloaded since. The data may be out of date, so fetch it
+ * again with {@link fetchBoxData}.
+ * @param boxId - The ID of the box
+ * @param week - The week identifier (wwyy format)
+ * @returns The cached data, or `undefined` if it hasn't been fetched before
+ */
+export function getCachedBoxData(
+  boxId: string,
+  week: string,
+): CachedBoxData | undefined {
+  return readCachedBoxData(boxId, week);
+}
+
+/**
+ * Fetches the weeks a box has recipes in
+ * @param boxId - The ID of the box
+ * @throws PayloadValidationError if the response doesn't match the {@link WeekAvailability} type
+ */
+export async function fetchWeekAvailability(
+  boxId: string,
+): Promise<WeekAvailability[]> {
+  return parseWeekAvailability(
+    await getJson(`/boxes/${encodeURIComponent(boxId)}/weeks`),
+  );
 }
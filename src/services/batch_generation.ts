@@ -0,0 +1,357 @@
+/* eslint-disable no-console */
+import type { Box, DietTag } from "../types";
+import { formatWeekLabel, parseWeekValue } from "../../utils/iso_week";
+import { getLayoutTemplate } from "../templates";
+import { ApiError, fetchBoxData } from "./api";
+import { getProgressFraction } from "./generation_progress";
+import type { GenerationPlan, GenerationStep } from "./generation_progress";
+import {
+  BookGenerationError,
+  GenerationCancelledError,
+  throwIfCancelled,
+} from "./generation_run";
+import type { GenerationRun, GenerationStatus } from "./generation_run";
+import { uploadRecipeImages } from "./image_upload";
+import { scaleBoxData } from "./ingredients";
+import {
+  createAllRecipePages,
+  createDividerPage,
+  createFrontPage,
+  createShoppingListPages,
+} from "./recipe_page_generator";
+import { findDietConflicts } from "./validation";
+import type { ValidationIssue } from "./validation";
+
+/**
+ * One box and week to create a section for in a batch run
+ * @property key - Identifies the item in the run, as `<boxId>:<week>`
+ * @property label - The box's name and the week, for display
+ * @property diets - The box's diets, shown as badges on its front page
+ */
+export interface BatchItem {
+  key: string;
+  boxId: string;
+  boxLabel: string;
+  templateId: string;
+  week: string;
+  label: string;
+  diets: DietTag[];
+}
+
+/**
+ * Why an item of a batch run failed: it was cancelled partway, the backend
+ * has no recipes for its box and week, or something else went wrong
+ */
+export type BatchItemError =
+  | { kind: "cancelled" }
+  | { kind: "not_found" }
+  | { kind: "failed"; cause: unknown };
+
+/**
+ * Tracks one item of a batch run
+ * @property pageCount - The number of pages created for the item, including
+ * pages of an item that failed partway
+ * @property skippedPhotos - The number of photos that couldn't be uploaded and were left out
+ * @property dietConflicts - The recipes that don't suit every diet of the box,
+ * see {@link findDietConflicts}. The item is still created with them.
+ */
+export interface BatchItemState extends BatchItem {
+  status: GenerationStatus;
+  pageCount: number;
+  skippedPhotos: number;
+  dietConflicts: ValidationIssue[];
+  error?: BatchItemError;
+}
+
+/**
+ * Everything a batch run has created so far. An item that fails doesn't stop
+ * the run, so every item ends up created or failed. Items the run didn't get to
+ * before it was cancelled stay pending. Runs are immutable; every change
+ * returns a new run.
+ */
+export interface BatchRun {
+  items: BatchItemState[];
+  cancelled: boolean;
+}
+
+/**
+ * The step a batch run is working on
+ * @property index - The index of the item (0-based)
+ * @property count - The number of items in the run
+ * @property step - The step within the item, once its data has been fetched
+ * @property plan - The size of the item, once its data has been fetched
+ */
+export interface BatchStep {
+  index: number;
+  count: number;
+  label: string;
+  step?: GenerationStep;
+  plan?: GenerationPlan;
+}
+
+/**
+ * Options for {@link createBatchRecipeBooks}
+ * @property servings - The number of servings to rescale every recipe to.
+ * Without it, the amounts the recipes are written with are kept.
+ * @property onUpdate - Called with the updated run each time an item starts, is created or fails
+ * @property onProgress - Called as the run moves on to each step
+ * @property signal - Cancels the run before the next page when aborted
+ */
+export interface BatchGenerationOptions {
+  servings?: number;
+  onUpdate?: (run: BatchRun) => void;
+  onProgress?: (step: BatchStep) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Formats a week for display, e.g. `Uge 43 (19. okt – 25. okt)`
+ * @param week - The week identifier (wwyy format)
+ * @returns The label, or the week identifier itself if it isn't valid
+ */
+function describeWeekValue(week: string): string {
+  const isoWeek = parseWeekValue(week);
+  return isoWeek ? formatWeekLabel(isoWeek) : week;
+}
+
+/**
+ * Lists the items of a batch run: every selected week of every selected box,
+ * grouped by box in the order the boxes are listed
+ * @param boxes - Every available box
+ * @param boxIds - The IDs of the selected boxes
+ * @param weeks - The selected weeks (wwyy format), in order
+ */
+export function planBatchItems(
+  boxes: Box[],
+  boxIds: string[],
+  weeks: string[],
+): BatchItem[] {
+  return boxes
+    .filter(({ id }) => boxIds.includes(id))
+    .flatMap((box) =>
+      weeks.map((week) => ({
+        key: `${box.id}:${week}`,
+        boxId: box.id,
+        boxLabel: box.label,
+        templateId: box.templateId,
+        week,
+        label: `${box.label}, ${describeWeekValue(week)}`,
+        diets: box.diets ?? [],
+      })),
+    );
+}
+
+/**
+ * Creates a run with nothing created yet
+ * @param items - The items to create sections for, in order
+ */
+export function createBatchRun(items: BatchItem[]): BatchRun {
+  return {
+    items: items.map((item) => ({
+      ...item,
+      status: "pending",
+      pageCount: 0,
+      skippedPhotos: 0,
+      dietConflicts: [],
+    })),
+    cancelled: false,
+  };
+}
+
+/**
+ * Returns a copy of the run with one item updated
+ * @param run - The run to update
+ * @param index - The index of the item (0-based)
+ * @param update - The item properties to change
+ */
+export function updateBatchItem(
+  run: BatchRun,
+  index: number,
+  update: Partial<BatchItemState>,
+): BatchRun {
+  return {
+    ...run,
+    items: run.items.map((item, i) =>
+      i === index ? { ...item, ...update } : item,
+    ),
+  };
+}
+
+/**
+ * Counts the pages created across every item of the run
+ */
+export function countBatchPages(run: BatchRun): number {
+  return run.items.reduce((count, { pageCount }) => count + pageCount, 0);
+}
+
+/**
+ * Works out how much of a batch run is done. Every item counts equally, since
+ * the size of an item isn't known until its data has been fetched.
+ * @param progress - The step the run is on
+ * @returns The share of the run that's done, between 0 and 1
+ */
+export function getBatchProgressFraction({
+  index,
+  count,
+  step,
+  plan,
+}: BatchStep): number {
+  const itemFraction = step && plan ? getProgressFraction(step, plan) : 0;
+  return Math.min(1, Math.max(0, (index + itemFraction) / Math.max(1, count)));
+}
+
+/**
+ * Counts the recipe pages a run has created, including those of a recipe that failed partway
+ */
+function countRecipePages(run: GenerationRun): number {
+  return run.recipes.reduce((count, { pageCount }) => count + pageCount, 0);
+}
+
+/**
+ * Creates a section for every item: a divider page, the box's front page, its
+ * shopping list and its recipe pages. Each section is added as new pages after the current one.
+ * An item whose data can't be fetched or whose pages fail is marked as failed,
+ * and the run moves on to the next item.
+ * @param items - The boxes and weeks to create sections for, see {@link planBatchItems}
+ * @param options - Listeners for the run's progress, see {@link BatchGenerationOptions}
+ * @returns Promise that resolves with the finished run, or the run so far if it was cancelled
+ */
+export async function createBatchRecipeBooks(
+  items: BatchItem[],
+  { servings, onUpdate, onProgress, signal }: BatchGenerationOptions = {},
+): Promise<BatchRun> {
+  console.log(`Creating recipe books for ${items.length} box(es) and week(s)`);
+
+  let state = createBatchRun(items);
+  const update = (next: BatchRun) => {
+    state = next;
+    onUpdate?.(state);
+  };
+  update(state);
+
+  for (const [index, item] of items.entries()) {
+    const progress = { index, count: items.length, label: item.label };
+    let pageCount = 0;
+
+    try {
+      throwIfCancelled(signal);
+      console.log(
+        `Creating section ${index + 1}/${items.length}: ${item.label}`,
+      );
+      onProgress?.(progress);
+
+      const fetched = await fetchBoxData(item.boxId, item.week);
+      const dietConflicts = findDietConflicts(
+        {
+          id: item.boxId,
+          label: item.boxLabel,
+          templateId: item.templateId,
+          diets: item.diets,
+        },
+        fetched.data,
+      );
+      if (dietConflicts.length > 0) {
+        console.log(
+          `Recipes for ${item.label} don't suit the box's diets:`,
+          dietConflicts,
+        );
+        update(updateBatchItem(state, index, { dietConflicts }));
+      }
+      const data = servings
+        ? scaleBoxData(fetched.data, servings)
+        : fetched.data;
+      const plan = {
+        imageCount: data.recipes.reduce(
+          (count, { images }) =>
+            count + (images?.hero ? 1 : 0) + (images?.steps?.length ?? 0),
+          0,
+        ),
+        recipeCount: data.recipes.length,
+      };
+      const report = (step: GenerationStep) =>
+        onProgress?.({ ...progress, step, plan });
+
+      const { images, failedUrls } = await uploadRecipeImages(
+        data.recipes,
+        ({ completed, total }) => report({ kind: "images", completed, total }),
+      );
+      update(
+        updateBatchItem(state, index, { skippedPhotos: failedUrls.length }),
+      );
+
+      const template = getLayoutTemplate(item.templateId);
+      throwIfCancelled(signal);
+      report({ kind: "front_page" });
+      await createDividerPage(
+        item.boxLabel,
+        describeWeekValue(item.week),
+        template,
+      );
+      pageCount++;
+      update(updateBatchItem(state, index, { pageCount }));
+
+      throwIfCancelled(signal);
+      await createFrontPage(data, template, item.diets);
+      pageCount++;
+      update(updateBatchItem(state, index, { pageCount }));
+
+      await createShoppingListPages(data, template, {
+        onPageStart: (page, pages) =>
+          report({ kind: "shopping_list", page, pageCount: pages }),
+        onPageAdded: () => {
+          pageCount++;
+          update(updateBatchItem(state, index, { pageCount }));
+        },
+        signal,
+      });
+
+      const run = await createAllRecipePages(data.recipes, template, images, {
+        onProgress: report,
+        signal,
+      });
+      update(
+        updateBatchItem(state, index, {
+          status: "created",
+          pageCount: pageCount + countRecipePages(run),
+        }),
+      );
+    } catch (error) {
+      const run = error instanceof BookGenerationError ? error.run : null;
+      const cause = error instanceof BookGenerationError ? error.cause : error;
+      if (run) {
+        pageCount += countRecipePages(run);
+      }
+
+      if (cause instanceof GenerationCancelledError) {
+        console.log(`Cancelled during section ${index + 1}/${items.length}`);
+        update({
+          ...updateBatchItem(state, index, {
+            // Nothing was added for the item yet, so it can stay pending
+            status: pageCount > 0 ? "failed" : "pending",
+            pageCount,
+            error: pageCount > 0 ? { kind: "cancelled" } : undefined,
+          }),
+          cancelled: true,
+        });
+        return state;
+      }
+
+      console.error(`Failed to create section for ${item.label}:`, error);
+      update(
+        updateBatchItem(state, index, {
+          status: "failed",
+          pageCount,
+          error:
+            error instanceof ApiError && error.status === 404
+              ? { kind: "not_found" }
+              : { kind: "failed", cause },
+        }),
+      );
+    }
+  }
+
+  console.log(
+    `Finished batch run with ${countBatchPages(state)} page(s) created`,
+  );
+  return state;
+}
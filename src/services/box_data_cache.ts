@@ -0,0 +1,148 @@
+import type { BoxData } from "../types";
+import { validateBoxData } from "./validation";
+
+// Bump the version when the shape of BoxData changes, so old entries are ignored
+const KEY_PREFIX = "recipe-box-data:v2:";
+
+// Each entry is a full week of recipes, so keep only the most recent ones
+const MAX_ENTRIES = 20;
+
+/**
+ * Box data kept from an earlier fetch
+ * @property data - The box data, as parsed from the backend's response
+ * @property fetchedAt - When the data was fetched, in milliseconds since the epoch
+ */
+export interface CachedBoxData {
+  data: BoxData;
+  fetchedAt: number;
+}
+
+/**
+ * Returns the panel's local storage, or `undefined` if the panel isn't
+ * allowed to use it
+ */
+function getStorage(): Storage | undefined {
+  try {
+    return window.localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+function getCacheKey(boxId: string, week: string): string {
+  return `${KEY_PREFIX}${boxId}:${week}`;
+}
+
+/**
+ * Parses a stored entry, dropping it if it's unreadable or no longer matches
+ * the {@link BoxData} type
+ */
+function parseEntry(raw: string | null): CachedBoxData | undefined {
+  if (raw == null) {
+    return undefined;
+  }
+  try {
+    const entry = JSON.parse(raw);
+    if (
+      typeof entry?.fetchedAt !== "number" ||
+      validateBoxData(entry.data).length > 0
+    ) {
+      return undefined;
+    }
+    return entry as CachedBoxData;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the box data cached for a box and week
+ * @param boxId - The ID of the box
+ * @param week - The week identifier (wwyy format)
+ * @returns The cached data, or `undefined` if nothing usable is cached
+ */
+export function readCachedBoxData(
+  boxId: string,
+  week: string,
+): CachedBoxData | undefined {
+  const storage = getStorage();
+  if (!storage) {
+    return undefined;
+  }
+  const key = getCacheKey(boxId, week);
+  const entry = parseEntry(storage.getItem(key));
+  if (!entry) {
+    storage.removeItem(key);
+  }
+  return entry;
+}
+
+/**
+ * Caches box data for a box and week, evicting the oldest entries once there
+ * are too many. Failing to store the data isn't an error, since the cache is
+ * only a convenience.
+ * @param boxId - The ID of the box
+ * @param week - The week identifier (wwyy format)
+ * @param entry - The data to cache
+ */
+export function writeCachedBoxData(
+  boxId: string,
+  week: string,
+  entry: CachedBoxData,
+) {
+  const storage = getStorage();
+  if (!storage) {
+    return;
+  }
+
+  const key = getCacheKey(boxId, week);
+  try {
+    storage.setItem(key, JSON.stringify(entry));
+  } catch {
+    // Most likely the storage quota, which the eviction below frees up for next time
+  }
+
+  const entries: { key: string; fetchedAt: number }[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const entryKey = storage.key(i);
+    if (entryKey?.startsWith(KEY_PREFIX)) {
+      entries.push({
+        key: entryKey,
+        fetchedAt: parseEntry(storage.getItem(entryKey))?.fetchedAt ?? 0,
+      });
+    }
+  }
+  entries
+    .sort((a, b) => b.fetchedAt - a.fetchedAt)
+    .slice(MAX_ENTRIES)
+    .forEach((stale) => storage.removeItem(stale.key));
+}
+
+/**
+ * How long ago data was fetched, in the largest whole unit, e.g. 5 minutes
+ */
+export interface TimeSinceUpdate {
+  unit: "minute" | "hour" | "day";
+  count: number;
+}
+
+/**
+ * Works out how long ago data was fetched. Less than a minute ago, including
+ * times in the future, is 0 minutes.
+ * @param fetchedAt - When the data was fetched, in milliseconds since the epoch
+ * @param now - The current time, in milliseconds since the epoch
+ */
+export function getTimeSinceUpdate(
+  fetchedAt: number,
+  now: number,
+): TimeSinceUpdate {
+  const minutes = Math.floor(Math.max(0, now - fetchedAt) / 60_000);
+  if (minutes < 60) {
+    return { unit: "minute", count: minutes };
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return { unit: "hour", count: hours };
+  }
+  return { unit: "day", count: Math.floor(hours / 24) };
+}
@@ -0,0 +1,185 @@
+/* eslint-disable no-console */
+import { CanvaError } from "@canva/error";
+
+/**
+ * Reports how far the queue has come
+ * @property completed - The number of calls that have finished, successfully or not
+ * @property total - The number of calls queued so far
+ * @property retrying - Set while a rate-limited call waits to be retried
+ */
+export interface DesignQueueProgress {
+  completed: number;
+  total: number;
+  retrying?: {
+    attempt: number;
+    delayMs: number;
+  };
+}
+
+/**
+ * Options for a {@link DesignCallQueue}
+ * @property concurrency - The maximum number of calls in flight at once. Calls
+ * that add pages or elements must run one at a time to keep them in order.
+ * @property maxRetries - How many times a rate-limited call is retried before giving up
+ * @property baseDelayMs - The delay before the first retry, doubled for each retry after it
+ * @property maxDelayMs - The longest delay between retries
+ * @property sleep - Waits for a number of milliseconds, replaceable in tests
+ * @property random - Returns a number in [0, 1) for jitter, replaceable in tests
+ */
+export interface DesignQueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+type ProgressListener = (progress: DesignQueueProgress) => void;
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Checks whether an error means Canva is rate limiting the app
+ */
+export function isRateLimited(error: unknown): boolean {
+  return error instanceof CanvaError && error.code === "rate_limited";
+}
+
+/**
+ * Runs calls to the Canva design APIs through a queue, retrying calls that are
+ * rate limited with exponential backoff and jitter
+ */
+export class DesignCallQueue {
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  private readonly waiting: (() => void)[] = [];
+  private readonly listeners = new Set<ProgressListener>();
+  private active = 0;
+  private completed = 0;
+  private total = 0;
+
+  constructor({
+    concurrency = 1,
+    maxRetries = 5,
+    baseDelayMs = 250,
+    maxDelayMs = 8000,
+    sleep = wait,
+    random = Math.random,
+  }: DesignQueueOptions = {}) {
+    if (concurrency < 1) {
+      throw new Error("Concurrency must be at least 1");
+    }
+    this.concurrency = concurrency;
+    this.maxRetries = maxRetries;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+    this.sleep = sleep;
+    this.random = random;
+  }
+
+  /**
+   * Listens for progress of the queue
+   * @param listener - Called each time a call finishes or waits to be retried
+   * @returns A function that stops listening
+   */
+  onProgress(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queues a call and runs it once a slot is free
+   * @param task - The call to run, e.g. `() => addPage(...)`
+   * @param label - Describes the call in logs
+   * @returns Promise that resolves with the call's result
+   * @throws The call's error if it fails for another reason than rate limiting,
+   * or keeps being rate limited after every retry
+   */
+  async run<T>(task: () => Promise<T>, label = "design call"): Promise<T> {
+    this.total++;
+    await this.acquire();
+    try {
+      return await this.runWithRetries(task, label);
+    } finally {
+      this.completed++;
+      this.emit();
+      this.release();
+    }
+  }
+
+  /**
+   * Works out how long to wait before a retry: the delay doubles with each
+   * attempt, and half of it is random so that callers don't retry in lockstep
+   * @param attempt - The retry about to be made (1-based)
+   */
+  getRetryDelay(attempt: number): number {
+    const delay = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(delay / 2 + this.random() * (delay / 2));
+  }
+
+  private async runWithRetries<T>(
+    task: () => Promise<T>,
+    label: string,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (!isRateLimited(error) || attempt > this.maxRetries) {
+          throw error;
+        }
+        const delayMs = this.getRetryDelay(attempt);
+        console.log(
+          `Rate limited on ${label}, retry ${attempt}/${this.maxRetries} in ${delayMs}ms`,
+        );
+        this.emit({ attempt, delayMs });
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by release, so active stays the same
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private emit(retrying?: DesignQueueProgress["retrying"]) {
+    const progress: DesignQueueProgress = {
+      completed: this.completed,
+      total: this.total,
+      ...(retrying && { retrying }),
+    };
+    this.listeners.forEach((listener) => listener(progress));
+  }
+}
+
+/**
+ * The queue shared by everything that edits the design, so that every call
+ * counts towards the same rate limit
+ */
+export const designCallQueue = new DesignCallQueue();
@@ -0,0 +1,48 @@
+import type { DietTag } from "../types";
+
+/**
+ * Every diet tag the backend can send, in the order badges are shown
+ */
+export const DIET_TAGS: DietTag[] = [
+  "vegetar",
+  "vegansk",
+  "glutenfri",
+  "laktosefri",
+];
+
+const DIET_LABELS: Record<DietTag, string> = {
+  vegetar: "Vegetar",
+  vegansk: "Vegansk",
+  glutenfri: "Glutenfri",
+  laktosefri: "Laktosefri",
+};
+
+/**
+ * Diets that another diet implies: vegan recipes have no meat and no dairy
+ */
+const IMPLIED_DIETS: Partial<Record<DietTag, DietTag[]>> = {
+  vegansk: ["vegetar", "laktosefri"],
+};
+
+/**
+ * Checks whether something tagged with some diets suits another diet, either
+ * because it's tagged with it or because one of its tags implies it
+ * @param diets - The diets it's tagged with
+ * @param diet - The diet to check
+ */
+export function meetsDiet(diets: DietTag[], diet: DietTag): boolean {
+  return diets.some(
+    (tag) => tag === diet || (IMPLIED_DIETS[tag] ?? []).includes(diet),
+  );
+}
+
+/**
+ * Returns the labels for a set of diet tags, as shown on badges, in the order
+ * of {@link DIET_TAGS}
+ * @param diets - The diet tags to label
+ */
+export function getDietLabels(diets: DietTag[]): string[] {
+  return DIET_TAGS.filter((tag) => diets.includes(tag)).map(
+    (tag) => DIET_LABELS[tag],
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * The step a recipe book run is working on
+ */
+export type GenerationStep =
+  | { kind: "images"; completed: number; total: number }
+  | { kind: "front_page" }
+  | { kind: "shopping_list"; page: number; pageCount: number }
+  | {
+      kind: "recipe";
+      index: number;
+      count: number;
+      title: string;
+      page: number;
+      pageCount: number;
+    };
+
+/**
+ * What's known about a run up front, used to weigh its steps
+ * @property imageCount - The number of photos to upload
+ * @property recipeCount - The number of recipes in the book
+ */
+export interface GenerationPlan {
+  imageCount: number;
+  recipeCount: number;
+}
+
+/**
+ * How far a run has come
+ * @property fraction - The share of the run that's done, between 0 and 1
+ * @property elapsedMs - The time since the run started
+ * @property remainingMs - The estimated time left, once there's enough progress to estimate from
+ */
+export interface ProgressEstimate {
+  fraction: number;
+  elapsedMs: number;
+  remainingMs?: number;
+}
+
+// Estimates made from very little progress swing wildly, so none is shown until then
+const MIN_FRACTION_FOR_ESTIMATE = 0.05;
+
+/**
+ * Works out how much of a run is done. Every photo, the front page, the
+ * shopping list and every recipe count as one unit of work each, since each
+ * takes a similar number of calls to Canva.
+ * @param step - The step the run is on
+ * @param plan - The size of the run
+ * @returns The share of the run that's done, between 0 and 1
+ */
+export function getProgressFraction(
+  step: GenerationStep,
+  { imageCount, recipeCount }: GenerationPlan,
+): number {
+  const total = imageCount + 2 + recipeCount;
+  let done = 0;
+  if (step.kind === "images") {
+    done = step.completed;
+  } else if (step.kind === "front_page") {
+    done = imageCount;
+  } else if (step.kind === "shopping_list") {
+    // Pages are counted from 1, so the page being created isn't done yet
+    done = imageCount + 1 + (step.page - 1) / Math.max(1, step.pageCount);
+  } else {
+    done =
+      imageCount +
+      2 +
+      step.index +
+      (step.page - 1) / Math.max(1, step.pageCount);
+  }
+  return Math.min(1, Math.max(0, done / total));
+}
+
+/**
+ * Estimates the time left in a run from the time spent so far
+ * @param fraction - The share of the run that's done, see {@link getProgressFraction}
+ * @param startedAt - When the run started, in milliseconds since the epoch
+ * @param now - The current time, in milliseconds since the epoch
+ */
+export function estimateProgress(
+  fraction: number,
+  startedAt: number,
+  now: number,
+): ProgressEstimate {
+  const elapsedMs = Math.max(0, now - startedAt);
+  if (fraction < MIN_FRACTION_FOR_ESTIMATE) {
+    return { fraction, elapsedMs };
+  }
+  const remainingMs = Math.round((elapsedMs / fraction) * (1 - fraction));
+  return { fraction, elapsedMs, remainingMs };
+}
+
+/**
+ * Formats a duration as minutes and seconds, e.g. `1:05`
+ * @param ms - The duration in milliseconds
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
@@ -0,0 +1,313 @@
+/* eslint-disable no-console */
+import { openDesign } from "@canva/design";
+import type { PageId } from "@canva/design";
+import type { DietTag, Recipe } from "../types";
+import type { GenerationStep } from "./generation_progress";
+
+/**
+ * Where a part of the book is in a generation run
+ */
+export type GenerationStatus = "pending" | "created" | "failed";
+
+/**
+ * Tracks the front page, which is added to the page that was open when the run started
+ * @property pageId - The page the front page elements were added to
+ * @property texts - The text of every element added so far, used to find them again for cleanup
+ */
+export interface FrontPageRunState {
+  status: GenerationStatus;
+  pageId?: PageId;
+  texts: string[];
+  error?: string;
+}
+
+/**
+ * Tracks the pages created for one recipe
+ * @property pageCount - The number of pages created for the recipe so far,
+ * including pages of a recipe that failed partway
+ * @property pageIds - The IDs of those pages, where Canva reported them
+ * @property nutritionTableAdded - Whether the nutrition table was added to the
+ * recipe's last page. It's added after the page, so it's tracked on its own.
+ */
+export interface RecipeRunState {
+  recipeId: string;
+  title: string;
+  status: GenerationStatus;
+  pageCount: number;
+  pageIds: PageId[];
+  nutritionTableAdded: boolean;
+  error?: string;
+}
+
+/**
+ * Tracks the pages created for the shopping list
+ * @property pageCount - The number of pages created so far, including pages
+ * of a list that failed partway
+ * @property pageIds - The IDs of those pages, where Canva reported them
+ */
+export interface ShoppingListRunState {
+  status: GenerationStatus;
+  pageCount: number;
+  pageIds: PageId[];
+  error?: string;
+}
+
+/**
+ * Everything a generation run has created so far, so that a failed run can be
+ * resumed or cleaned up. Runs are immutable; every change returns a new run.
+ */
+export interface GenerationRun {
+  frontPage: FrontPageRunState;
+  shoppingList: ShoppingListRunState;
+  recipes: RecipeRunState[];
+}
+
+/**
+ * The outcome of cleaning up a run
+ * @property removedElements - The number of front page elements that were removed
+ * @property clearedPages - The number of shopping list and recipe pages that
+ * were emptied. Apps can't delete pages, so these remain in the design as blank pages.
+ */
+export interface RollbackResult {
+  removedElements: number;
+  clearedPages: number;
+}
+
+/**
+ * Thrown when a run stops because part of the book couldn't be created
+ * @property run - The run so far, to resume or roll back
+ * @property cause - The error that stopped the run
+ */
+export class BookGenerationError extends Error {
+  constructor(
+    message: string,
+    readonly run: GenerationRun,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when the user cancels a run. The run stops before the next page, so
+ * everything created so far is kept and the run can be resumed.
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super("Generation was cancelled");
+  }
+}
+
+/**
+ * Stops a run if the user has cancelled it
+ * @param signal - The signal passed in {@link GenerationOptions}
+ * @throws GenerationCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new GenerationCancelledError();
+  }
+}
+
+/**
+ * Creates a run with nothing created yet
+ * @param recipes - The recipes the book will contain, in order
+ * @returns A run with every part of the book pending
+ */
+export function createGenerationRun(recipes: Recipe[]): GenerationRun {
+  return {
+    frontPage: { status: "pending", texts: [] },
+    shoppingList: { status: "pending", pageCount: 0, pageIds: [] },
+    recipes: recipes.map(({ id, title }) => ({
+      recipeId: id,
+      title,
+      status: "pending",
+      pageCount: 0,
+      pageIds: [],
+      nutritionTableAdded: false,
+    })),
+  };
+}
+
+/**
+ * Options for functions that create part of the book
+ * @property run - The run to continue. Parts it has already created are skipped,
+ * so passing a failed run resumes it from where it stopped.
+ * @property onUpdate - Called with the updated run each time part of the book is created or fails
+ * @property onProgress - Called as the run moves on to each step
+ * @property signal - Cancels the run before the next page when aborted
+ * @property diets - The box's diets, shown as badges on the front page
+ */
+export interface GenerationOptions {
+  run?: GenerationRun;
+  onUpdate?: (run: GenerationRun) => void;
+  onProgress?: (step: GenerationStep) => void;
+  signal?: AbortSignal;
+  diets?: DietTag[];
+}
+
+/**
+ * Returns a copy of the run with the front page updated
+ * @param run - The run to update
+ * @param update - The front page properties to change
+ */
+export function updateFrontPage(
+  run: GenerationRun,
+  update: Partial<FrontPageRunState>,
+): GenerationRun {
+  return { ...run, frontPage: { ...run.frontPage, ...update } };
+}
+
+/**
+ * Returns a copy of the run with the shopping list updated
+ * @param run - The run to update
+ * @param update - The shopping list properties to change
+ */
+export function updateShoppingList(
+  run: GenerationRun,
+  update: Partial<ShoppingListRunState>,
+): GenerationRun {
+  return { ...run, shoppingList: { ...run.shoppingList, ...update } };
+}
+
+/**
+ * Returns a copy of the run with one recipe updated
+ * @param run - The run to update
+ * @param index - The index of the recipe (0-based)
+ * @param update - The recipe properties to change
+ */
+export function updateRecipe(
+  run: GenerationRun,
+  index: number,
+  update: Partial<RecipeRunState>,
+): GenerationRun {
+  return {
+    ...run,
+    recipes: run.recipes.map((recipe, i) =>
+      i === index ? { ...recipe, ...update } : recipe,
+    ),
+  };
+}
+
+/**
+ * Counts the pages in the book so far, including the front page once it's complete
+ */
+export function countCreatedPages(run: GenerationRun): number {
+  return (
+    (run.frontPage.status === "created" ? 1 : 0) +
+    run.shoppingList.pageCount +
+    run.recipes.reduce((count, { pageCount }) => count + pageCount, 0)
+  );
+}
+
+/**
+ * Checks whether every part of the book has been created
+ */
+export function isRunComplete(run: GenerationRun): boolean {
+  return (
+    run.frontPage.status === "created" &&
+    run.shoppingList.status === "created" &&
+    run.recipes.every(({ status }) => status === "created")
+  );
+}
+
+/**
+ * Checks whether anything in the run failed, meaning it can be resumed or cleaned up
+ */
+export function hasFailures(run: GenerationRun): boolean {
+  return (
+    run.frontPage.status === "failed" ||
+    run.shoppingList.status === "failed" ||
+    run.recipes.some(({ status }) => status === "failed")
+  );
+}
+
+/**
+ * Checks whether the run has added anything to the design
+ */
+export function hasCreatedContent(run: GenerationRun): boolean {
+  return (
+    run.frontPage.texts.length > 0 ||
+    run.shoppingList.pageCount > 0 ||
+    run.recipes.some(({ pageCount }) => pageCount > 0)
+  );
+}
+
+/**
+ * Finds the page that's open in the editor
+ * @returns Promise that resolves with the page's ID, or `undefined` if the page type isn't supported
+ */
+export async function getCurrentPageId(): Promise<PageId | undefined> {
+  let pageId: PageId | undefined;
+  await openDesign({ type: "current_page" }, async ({ page }) => {
+    if (page.type === "absolute") {
+      pageId = page.id;
+    }
+  });
+  return pageId;
+}
+
+/**
+ * Removes everything a run added to the design: the front page elements are
+ * deleted, and every page created for the shopping list or a recipe is emptied
+ * @param run - The run to clean up
+ * @returns Promise that resolves with what was removed
+ */
+export async function rollbackGenerationRun(
+  run: GenerationRun,
+): Promise<RollbackResult> {
+  const createdPageIds = new Set([
+    ...run.shoppingList.pageIds,
+    ...run.recipes.flatMap(({ pageIds }) => pageIds),
+  ]);
+  const result: RollbackResult = { removedElements: 0, clearedPages: 0 };
+  console.log(
+    `Rolling back run: ${run.frontPage.texts.length} front page elements, ${createdPageIds.size} created pages`,
+  );
+
+  await openDesign({ type: "all_pages" }, async (session) => {
+    for (const pageRef of session.pageRefs.toArray()) {
+      if (pageRef.type !== "absolute" || pageRef.locked) {
+        continue;
+      }
+
+      await session.helpers.openPage(pageRef, async ({ page }) => {
+        if (page.type !== "absolute") {
+          return;
+        }
+
+        if (createdPageIds.has(page.id)) {
+          // The run created the whole page, so everything on it goes
+          page.elements.toArray().forEach((element) => {
+            if (!element.locked) {
+              page.elements.delete(element);
+            }
+          });
+          result.clearedPages++;
+        } else if (page.id === run.frontPage.pageId) {
+          // The page may hold the user's own elements too, so only remove
+          // text elements that match what the run added, once each
+          const texts = [...run.frontPage.texts];
+          page.elements.toArray().forEach((element) => {
+            if (element.type !== "text" || element.locked) {
+              return;
+            }
+            const index = texts.indexOf(element.text.readPlaintext().trim());
+            if (index !== -1) {
+              texts.splice(index, 1);
+              page.elements.delete(element);
+              result.removedElements++;
+            }
+          });
+        }
+      });
+    }
+
+    await session.sync();
+  });
+
+  console.log(
+    `Rollback removed ${result.removedElements} elements and emptied ${result.clearedPages} pages`,
+  );
+  return result;
+}
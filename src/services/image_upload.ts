@@ -0,0 +1,171 @@
+/* eslint-disable no-console */
+import { upload } from "@canva/asset";
+import type { ImageMimeType, ImageRef } from "@canva/asset";
+import type { Recipe } from "../types";
+
+/**
+ * The uploaded photos for a single recipe
+ * @property steps - The step photos in step order. A photo that failed to
+ * upload leaves its step empty, so the later photos keep their steps.
+ */
+export interface RecipeImageRefs {
+  hero?: ImageRef;
+  steps: (ImageRef | undefined)[];
+}
+
+/**
+ * Reports how far an upload run has come
+ * @property completed - The number of images that have finished, successfully or not
+ * @property total - The number of images in the run
+ * @property url - The URL of the image that just finished
+ */
+export interface ImageUploadProgress {
+  completed: number;
+  total: number;
+  url: string;
+}
+
+/**
+ * The outcome of uploading the photos for a set of recipes
+ * @property images - The uploaded photos, in the same order as the recipes
+ * @property failedUrls - URLs that couldn't be uploaded and were left out
+ */
+export interface RecipeImageUploadResult {
+  images: RecipeImageRefs[];
+  failedUrls: string[];
+}
+
+const MIME_TYPES: Record<string, ImageMimeType> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  svg: "image/svg+xml",
+};
+
+// Uploads keyed by the hash of their URL, so a photo used by several recipes
+// or several runs is only uploaded once per session
+const uploadCache = new Map<string, Promise<ImageRef>>();
+
+/**
+ * Hashes a URL into a short, stable cache key (cyrb53)
+ * @param url - The URL to hash
+ * @returns The hash as a hex string
+ */
+export function hashUrl(url: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < url.length; i++) {
+    const char = url.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Works out the MIME type of an image from its URL's file extension
+ * @param url - The URL of the image
+ * @returns The MIME type, or `undefined` if the extension isn't a supported image type
+ */
+export function getImageMimeType(url: string): ImageMimeType | undefined {
+  const { pathname } = new URL(url);
+  const extension = pathname.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[extension];
+}
+
+/**
+ * Uploads an image to the user's media library, reusing an earlier upload of the same URL
+ * @param url - The URL of the image
+ * @param name - A human-readable name for the image in the media library
+ * @returns Promise that resolves with the image reference once the upload has finished
+ */
+export function uploadImage(url: string, name: string): Promise<ImageRef> {
+  const key = hashUrl(url);
+  const cached = uploadCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = (async () => {
+    const mimeType = getImageMimeType(url);
+    if (!mimeType) {
+      throw new Error(`Unsupported image type: ${url}`);
+    }
+
+    const image = await upload({
+      type: "image",
+      name,
+      mimeType,
+      url,
+      thumbnailUrl: url,
+      aiDisclosure: "none",
+    });
+    await image.whenUploaded();
+    return image.ref;
+  })();
+
+  // Don't cache failures, so the next run tries again
+  pending.catch(() => uploadCache.delete(key));
+  uploadCache.set(key, pending);
+  return pending;
+}
+
+/**
+ * Uploads the hero and step photos of every recipe. Photos that fail to upload
+ * are left out rather than failing the run, so the book can still be created.
+ * @param recipes - The recipes whose photos to upload
+ * @param onProgress - Called each time an image finishes
+ * @returns Promise that resolves with the uploaded photos per recipe
+ */
+export async function uploadRecipeImages(
+  recipes: Recipe[],
+  onProgress?: (progress: ImageUploadProgress) => void,
+): Promise<RecipeImageUploadResult> {
+  const total = recipes.reduce(
+    (count, { images }) =>
+      count + (images?.hero ? 1 : 0) + (images?.steps?.length ?? 0),
+    0,
+  );
+  console.log(`Uploading ${total} recipe images`);
+
+  let completed = 0;
+  const failedUrls: string[] = [];
+
+  const tryUpload = async (url: string, name: string) => {
+    try {
+      return await uploadImage(url, name);
+    } catch (error) {
+      console.error(`Failed to upload image ${url}:`, error);
+      failedUrls.push(url);
+      return undefined;
+    } finally {
+      completed++;
+      onProgress?.({ completed, total, url });
+    }
+  };
+
+  const images = await Promise.all(
+    recipes.map(async ({ title, images: urls }) => {
+      const [hero, ...steps] = await Promise.all([
+        urls?.hero ? tryUpload(urls.hero, title) : undefined,
+        ...(urls?.steps ?? []).map((url, i) =>
+          tryUpload(url, `${title} - Step ${i + 1}`),
+        ),
+      ]);
+      return { hero, steps };
+    }),
+  );
+
+  console.log(
+    `Uploaded ${total - failedUrls.length} of ${total} recipe images`,
+  );
+  return { images, failedUrls };
+}
@@ -0,0 +1,224 @@
+import type { BoxData, Ingredient, Recipe } from "../types";
+
+/**
+ * The number of servings a recipe is written for when the backend doesn't say
+ */
+export const DEFAULT_SERVINGS = 2;
+
+/**
+ * Units that are recognised after an amount, e.g. `2 spsk olivenolie`.
+ * Plurals and long forms map to the unit they're stored as.
+ */
+const UNIT_ALIASES: Record<string, string> = {
+  mg: "mg",
+  g: "g",
+  gr: "g",
+  kg: "kg",
+  ml: "ml",
+  cl: "cl",
+  dl: "dl",
+  l: "l",
+  tsk: "tsk",
+  spsk: "spsk",
+  stk: "stk",
+  fed: "fed",
+  bundt: "bundt",
+  dåse: "dåse",
+  dåser: "dåse",
+  pk: "pk",
+  pakke: "pk",
+  pakker: "pk",
+  skive: "skive",
+  skiver: "skive",
+  knivspids: "knivspids",
+  håndfuld: "håndfuld",
+};
+
+const FRACTION_GLYPHS: Record<string, number> = {
+  "¼": 1 / 4,
+  "⅓": 1 / 3,
+  "½": 1 / 2,
+  "⅔": 2 / 3,
+  "¾": 3 / 4,
+};
+
+// A unit only counts as one when it's a whole word, so `1 løg` isn't read as litres
+const UNIT_PATTERN = new RegExp(
+  `^(${Object.keys(UNIT_ALIASES).join("|")})\\.?(?=\\s|$)`,
+  "i",
+);
+
+/**
+ * Reads the amount at the start of an ingredient line. Understands whole and
+ * decimal numbers with a comma or a point, fractions like `1/2` and `1 1/2`,
+ * and fraction glyphs like `½` and `1½`.
+ * @param text - The ingredient line
+ * @returns The amount, if any, and the text after it
+ */
+function readAmount(text: string): { amount?: number; rest: string } {
+  const mixed = /^(?:(\d+)\s+)?(\d+)\/(\d+)(?!\d)/.exec(text);
+  if (mixed && Number(mixed[3]) > 0) {
+    return {
+      amount: Number(mixed[1] ?? 0) + Number(mixed[2]) / Number(mixed[3]),
+      rest: text.slice(mixed[0].length),
+    };
+  }
+
+  const glyphs = Object.keys(FRACTION_GLYPHS).join("");
+  const decimal = new RegExp(`^(\\d+(?:[.,]\\d+)?)?\\s*([${glyphs}])?`).exec(
+    text,
+  );
+  if (!decimal || (!decimal[1] && !decimal[2])) {
+    return { rest: text };
+  }
+  return {
+    amount:
+      Number((decimal[1] ?? "0").replace(",", ".")) +
+      (decimal[2] ? FRACTION_GLYPHS[decimal[2]] : 0),
+    rest: text.slice(decimal[0].length),
+  };
+}
+
+/**
+ * Splits notes off an ingredient name: a trailing parenthesis, and anything
+ * after the first comma, e.g. `løg, finthakket` or `kylling (ca. 1,2 kg)`
+ */
+function splitNote(text: string): Pick<Ingredient, "name" | "note"> {
+  const parenthesis = /^(.+?)\s*\(([^()]*)\)$/.exec(text);
+  const main = parenthesis ? parenthesis[1] : text;
+  const notes = parenthesis ? [parenthesis[2]] : [];
+  const comma = main.indexOf(",");
+  if (comma !== -1) {
+    notes.unshift(main.slice(comma + 1));
+  }
+  const name = comma === -1 ? main : main.slice(0, comma).trim();
+  const note = notes
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(", ");
+  return note ? { name, note } : { name };
+}
+
+/**
+ * Converts a legacy ingredient line, e.g. `2 spsk olivenolie` or
+ * `½ dl fløde`, into a structured ingredient. Lines without an amount, like
+ * `Salt og peber`, become an ingredient with only a name.
+ * @param text - The ingredient line
+ */
+export function parseIngredient(text: string): Ingredient {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  const { amount, rest } = readAmount(trimmed);
+  // Ranges like `2-3 fed hvidløg` can't be scaled, so they're kept as they are
+  if (amount === undefined || /^\s*[-–]/.test(rest)) {
+    return splitNote(trimmed);
+  }
+
+  const afterAmount = rest.trim();
+  const unit = UNIT_PATTERN.exec(afterAmount);
+  const name = unit ? afterAmount.slice(unit[0].length).trim() : afterAmount;
+  // An amount with nothing after it isn't an ingredient, so keep the line as a name
+  if (!name) {
+    return { name: trimmed };
+  }
+  return {
+    amount,
+    ...(unit && { unit: UNIT_ALIASES[unit[1].toLowerCase()] }),
+    ...splitNote(name),
+  };
+}
+
+/**
+ * Formats an amount the way Danish recipes write it: fractions as glyphs,
+ * e.g. `1½`, decimals with a comma, and larger amounts as whole numbers
+ * @param amount - The amount to format
+ */
+export function formatAmount(amount: number): string {
+  if (amount >= 10) {
+    return String(Math.round(amount));
+  }
+  const whole = Math.floor(amount);
+  const fraction = amount - whole;
+  if (fraction < 0.01) {
+    return String(whole);
+  }
+  if (fraction > 0.99) {
+    return String(whole + 1);
+  }
+  const glyph = Object.entries(FRACTION_GLYPHS).find(
+    ([, value]) => Math.abs(value - fraction) < 0.01,
+  )?.[0];
+  if (glyph) {
+    return whole > 0 ? `${whole}${glyph}` : glyph;
+  }
+  return String(Math.round(amount * 10) / 10).replace(".", ",");
+}
+
+/**
+ * Formats an ingredient as a line for a recipe page, e.g. `2 spsk olivenolie`
+ * @param ingredient - The ingredient to format
+ */
+export function formatIngredient({
+  amount,
+  unit,
+  name,
+  note,
+}: Ingredient): string {
+  const parts = [
+    amount === undefined ? undefined : formatAmount(amount),
+    unit,
+    name,
+  ].filter(Boolean);
+  return note ? `${parts.join(" ")}, ${note}` : parts.join(" ");
+}
+
+/**
+ * Returns the number of servings a recipe is written for
+ */
+export function getRecipeServings(recipe: Recipe): number {
+  return recipe.servings ?? DEFAULT_SERVINGS;
+}
+
+/**
+ * Multiplies an ingredient's amount. Ingredients without an amount, like
+ * `Salt og peber`, are left as they are.
+ * @param ingredient - The ingredient to scale
+ * @param factor - The factor to multiply the amount by
+ */
+export function scaleIngredient(
+  ingredient: Ingredient,
+  factor: number,
+): Ingredient {
+  return ingredient.amount === undefined
+    ? ingredient
+    : { ...ingredient, amount: ingredient.amount * factor };
+}
+
+/**
+ * Rescales every quantity in a recipe to a number of servings
+ * @param recipe - The recipe to scale
+ * @param servings - The number of servings to scale to
+ * @returns A copy of the recipe written for the given number of servings
+ */
+export function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  const factor = servings / getRecipeServings(recipe);
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ingredient) =>
+      scaleIngredient(ingredient, factor),
+    ),
+  };
+}
+
+/**
+ * Rescales every recipe in a box to a number of servings
+ * @param boxData - The box data to scale
+ * @param servings - The number of servings to scale to
+ * @returns A copy of the box data with every recipe scaled, see {@link scaleRecipe}
+ */
+export function scaleBoxData(boxData: BoxData, servings: number): BoxData {
+  return {
+    ...boxData,
+    recipes: boxData.recipes.map((recipe) => scaleRecipe(recipe, servings)),
+  };
+}
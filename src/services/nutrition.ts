@@ -0,0 +1,132 @@
+import type { TableElement } from "@canva/design";
+import type { Allergen, Nutrition } from "../types";
+import { TableWrapper } from "../../utils/table_wrapper";
+
+/**
+ * How each allergen is shown in the allergen row: an icon and its Danish name
+ */
+const ALLERGEN_LABELS: Record<Allergen, { icon: string; label: string }> = {
+  gluten: { icon: "🌾", label: "Gluten" },
+  krebsdyr: { icon: "🦐", label: "Krebsdyr" },
+  æg: { icon: "🥚", label: "Æg" },
+  fisk: { icon: "🐟", label: "Fisk" },
+  jordnødder: { icon: "🥜", label: "Jordnødder" },
+  soja: { icon: "🫘", label: "Soja" },
+  mælk: { icon: "🥛", label: "Mælk" },
+  nødder: { icon: "🌰", label: "Nødder" },
+  selleri: { icon: "🥬", label: "Selleri" },
+  sennep: { icon: "🌼", label: "Sennep" },
+  sesam: { icon: "🌱", label: "Sesam" },
+  svovldioxid: { icon: "🍷", label: "Svovldioxid" },
+  lupin: { icon: "🌸", label: "Lupin" },
+  bløddyr: { icon: "🦪", label: "Bløddyr" },
+};
+
+/**
+ * Formats a recipe's allergens as a row of icons with their names, e.g.
+ * `🌾 Gluten   🥛 Mælk`
+ * @param allergens - The allergens the recipe contains
+ */
+export function formatAllergens(allergens: Allergen[]): string {
+  if (allergens.length === 0) {
+    return "ingen";
+  }
+  return allergens
+    .map((allergen) => {
+      const { icon, label } = ALLERGEN_LABELS[allergen];
+      return `${icon} ${label}`;
+    })
+    .join("   ");
+}
+
+/**
+ * Formats a nutritional value with a Danish decimal comma, e.g. `12,5`
+ */
+function formatNutritionValue(value: number): string {
+  return String(Math.round(value * 10) / 10).replace(".", ",");
+}
+
+const TITLE_BACKGROUND = "#D5E8D4";
+const HEADER_BACKGROUND = "#EEF5ED";
+
+/**
+ * The value rows of the nutrition table. Each value is multiplied by the
+ * column's factor, so the same rows serve both per serving and per 100 g.
+ */
+const NUTRITION_ROWS: {
+  label: string;
+  format: (nutrition: Nutrition, factor: number) => string;
+}[] = [
+  {
+    label: "Energi",
+    format: ({ energyKj, energyKcal }, factor) =>
+      `${formatNutritionValue(energyKj * factor)} kJ / ${formatNutritionValue(energyKcal * factor)} kcal`,
+  },
+  {
+    label: "Protein",
+    format: ({ protein }, factor) =>
+      `${formatNutritionValue(protein * factor)} g`,
+  },
+  {
+    label: "Fedt",
+    format: ({ fat }, factor) => `${formatNutritionValue(fat * factor)} g`,
+  },
+  {
+    label: "Kulhydrat",
+    format: ({ carbohydrates }, factor) =>
+      `${formatNutritionValue(carbohydrates * factor)} g`,
+  },
+];
+
+/**
+ * Creates the nutrition table for a recipe page: a title merged across the
+ * table, a shaded header row, and a row each for energy, protein, fat and
+ * carbohydrates. Values are shown per serving, and per 100 g when the
+ * serving's weight is known. The table is built with
+ * {@link TableWrapper.create}, which keeps it within Canva's cell limit.
+ * @param nutrition - The recipe's nutritional values per serving
+ * @returns A table element, see {@link TableWrapper}
+ * @throws TableValidationError if the table would have too many cells
+ */
+export function createNutritionTable(nutrition: Nutrition): TableElement {
+  const columns = [{ heading: "Pr. portion", factor: 1 }];
+  if (nutrition.servingWeight) {
+    columns.push({
+      heading: "Pr. 100 g",
+      factor: 100 / nutrition.servingWeight,
+    });
+  }
+  const columnCount = columns.length + 1;
+
+  // The title and header rows come before the values
+  const table = TableWrapper.create(NUTRITION_ROWS.length + 2, columnCount);
+  table.setCellDetails(1, 1, {
+    type: "string",
+    value: "Næringsindhold",
+    colSpan: columnCount,
+    attributes: { backgroundColor: TITLE_BACKGROUND },
+  });
+  table.setCellDetails(2, 1, {
+    type: "empty",
+    attributes: { backgroundColor: HEADER_BACKGROUND },
+  });
+  columns.forEach(({ heading }, i) =>
+    table.setCellDetails(2, i + 2, {
+      type: "string",
+      value: heading,
+      attributes: { backgroundColor: HEADER_BACKGROUND },
+    }),
+  );
+
+  NUTRITION_ROWS.forEach(({ label, format }, i) => {
+    const row = i + 3;
+    table.setCellDetails(row, 1, { type: "string", value: label });
+    columns.forEach(({ factor }, column) =>
+      table.setCellDetails(row, column + 2, {
+        type: "string",
+        value: format(nutrition, factor),
+      }),
+    );
+  });
+  return table.toElement();
+}
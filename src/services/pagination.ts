@@ -0,0 +1,297 @@
+import type {
+  LabelSlot,
+  RecipePageLayout,
+  RichtextSlot,
+  SlotBox,
+  TextSlot,
+} from "../templates";
+import type { MethodStep, Recipe } from "../types";
+import { formatIngredient } from "./ingredients";
+
+/**
+ * Text can't be measured until it's added to the design, so heights are
+ * estimated from the font size. These ratios suit the sans-serif fonts that
+ * Canva applies to new text elements, and err on the side of too tall.
+ */
+const AVERAGE_CHAR_WIDTH_RATIO = 0.5;
+const LINE_HEIGHT_RATIO = 1.4;
+
+/**
+ * A section of a recipe page: a heading followed by a list of items
+ */
+export type PageSection =
+  | {
+      kind: "ingredients";
+      heading: LabelSlot;
+      body: TextSlot;
+      /**
+       * The ingredient lines, formatted for the page
+       */
+      ingredients: string[];
+    }
+  | {
+      kind: "method";
+      heading: LabelSlot;
+      body: RichtextSlot;
+      steps: MethodStep[];
+      /**
+       * The number of the first step on the page, so numbering continues across pages
+       */
+      firstStepNumber: number;
+    };
+
+/**
+ * The content of a single page of a recipe
+ * @property continued - Whether this page continues a recipe from a previous page
+ */
+export interface RecipePagePlan {
+  continued: boolean;
+  sections: PageSection[];
+}
+
+/**
+ * Estimates the rendered height of text in a fixed-width text element
+ * @param text - The text, with paragraphs separated by newlines
+ * @param width - The width of the text element
+ * @param fontSize - The font size of the text
+ * @param lineHeightEm - The line height, relative to the font size
+ * @returns The estimated height in pixels
+ */
+export function estimateTextHeight(
+  text: string,
+  width: number,
+  fontSize: number,
+  lineHeightEm = LINE_HEIGHT_RATIO,
+): number {
+  const charsPerLine = Math.max(
+    1,
+    Math.floor(width / (fontSize * AVERAGE_CHAR_WIDTH_RATIO)),
+  );
+  const lineCount = text
+    .split("\n")
+    .reduce(
+      (count, paragraph) =>
+        count + Math.max(1, Math.ceil(paragraph.length / charsPerLine)),
+      0,
+    );
+  return lineCount * fontSize * lineHeightEm;
+}
+
+function measureIngredient(ingredient: string, slot: TextSlot): number {
+  return estimateTextHeight(`• ${ingredient}`, slot.width, slot.fontSize);
+}
+
+function measureStep(step: MethodStep, slot: RichtextSlot, isFirst: boolean) {
+  // Leave room for the step number in front of the text
+  const numbered = `00. ${step.text}`;
+  const text = step.header ? `${step.header}\n${numbered}` : numbered;
+  const lineHeightEm = slot.lineHeightEm ?? LINE_HEIGHT_RATIO;
+  // Steps are separated by a blank line
+  const gap = isFirst ? 0 : slot.fontSize * lineHeightEm;
+  return (
+    gap + estimateTextHeight(text, slot.width, slot.fontSize, lineHeightEm)
+  );
+}
+
+/**
+ * Takes as many items as fit in the available height, never splitting an item
+ * @param items - The items left to place
+ * @param availableHeight - The height available for the items
+ * @param measure - Returns the height of an item, given whether it comes first
+ * @param force - Take the first item even if it doesn't fit, so that an item
+ * taller than a whole page is still placed
+ * @returns The number of items that fit, and the height they take up
+ */
+function fitItems<T>(
+  items: T[],
+  availableHeight: number,
+  measure: (item: T, isFirst: boolean) => number,
+  force: boolean,
+): { count: number; height: number } {
+  let count = 0;
+  let height = 0;
+  for (const item of items) {
+    const itemHeight = measure(item, count === 0);
+    if (height + itemHeight > availableHeight && !(force && count === 0)) {
+      break;
+    }
+    count++;
+    height += itemHeight;
+  }
+  return { count, height };
+}
+
+function moveSlot<T extends TextSlot>(slot: T, top: number, height: number): T {
+  return { ...slot, top, height };
+}
+
+function overlapsHorizontally(a: SlotBox, b: SlotBox): boolean {
+  return a.left < b.left + b.width && b.left < a.left + a.width;
+}
+
+/**
+ * Splits a recipe across as many pages as it needs. The first page uses the
+ * template's slot positions. Ingredients and method steps that don't fit
+ * continue on extra pages, stacked from where the day label would be.
+ * Ingredients and steps are never split across pages. If the recipe has
+ * nutritional values, the last page keeps the nutrition slot free for the
+ * table.
+ *
+ * @param recipe - The recipe to lay out
+ * @param layout - The recipe page layout, already fitted to the design's page
+ * size, see {@link resolveLayoutTemplate}
+ * @returns One plan per page, in order
+ */
+export function planRecipePages(
+  recipe: Recipe,
+  layout: RecipePageLayout,
+): RecipePagePlan[] {
+  // Continuation pages fill down to where the template's method ends
+  const contentBottom = layout.method.top + layout.method.height;
+
+  // Spacing between a heading and its list, and between sections. Layouts that
+  // put the method beside the ingredients have no section gap to copy, so the
+  // heading offset is used instead.
+  const headingOffset = layout.ingredients.top - layout.ingredientsHeading.top;
+  const verticalGap =
+    layout.methodHeading.top -
+    (layout.ingredients.top + layout.ingredients.height);
+  const sectionGap = verticalGap >= 0 ? verticalGap : headingOffset;
+
+  const measureIngredients = (item: string) =>
+    measureIngredient(item, layout.ingredients);
+  const measureSteps = (step: MethodStep, isFirst: boolean) =>
+    measureStep(step, layout.method, isFirst);
+
+  /**
+   * Plans one page with whatever is left of the recipe
+   * @param reserveNutrition - Whether to keep the nutrition slot free, as
+   * sections in its column end a gap above it
+   */
+  const planPage = (
+    ingredients: string[],
+    steps: MethodStep[],
+    continued: boolean,
+    reserveNutrition: boolean,
+  ) => {
+    const bottomFor = (body: SlotBox) =>
+      reserveNutrition && overlapsHorizontally(body, layout.nutrition)
+        ? Math.min(contentBottom, layout.nutrition.top - sectionGap)
+        : contentBottom;
+    const page: RecipePagePlan = { continued, sections: [] };
+
+    if (!continued) {
+      // The first page follows the template
+      const ingredientsFit = fitItems(
+        ingredients,
+        Math.min(
+          layout.ingredients.height,
+          bottomFor(layout.ingredients) - layout.ingredients.top,
+        ),
+        measureIngredients,
+        false,
+      );
+      if (ingredientsFit.count > 0) {
+        page.sections.push({
+          kind: "ingredients",
+          heading: layout.ingredientsHeading,
+          body: layout.ingredients,
+          ingredients: ingredients.slice(0, ingredientsFit.count),
+        });
+        ingredients = ingredients.slice(ingredientsFit.count);
+      }
+      // The method only starts once every ingredient has been listed
+      if (ingredients.length === 0) {
+        const methodFit = fitItems(
+          steps,
+          bottomFor(layout.method) - layout.method.top,
+          measureSteps,
+          false,
+        );
+        if (methodFit.count > 0) {
+          page.sections.push({
+            kind: "method",
+            heading: layout.methodHeading,
+            body: { ...layout.method, height: methodFit.height },
+            steps: steps.slice(0, methodFit.count),
+            firstStepNumber: 1,
+          });
+          steps = steps.slice(methodFit.count);
+        }
+      }
+      return { page, ingredients, steps };
+    }
+
+    // Continuation pages stack whatever is left
+    let cursor = layout.day.top;
+
+    if (ingredients.length > 0) {
+      const bodyTop = cursor + headingOffset;
+      const fit = fitItems(
+        ingredients,
+        bottomFor(layout.ingredients) - bodyTop,
+        measureIngredients,
+        true,
+      );
+      page.sections.push({
+        kind: "ingredients",
+        heading: moveSlot(
+          layout.ingredientsHeading,
+          cursor,
+          layout.ingredientsHeading.height,
+        ),
+        body: moveSlot(layout.ingredients, bodyTop, fit.height),
+        ingredients: ingredients.slice(0, fit.count),
+      });
+      ingredients = ingredients.slice(fit.count);
+      cursor = bodyTop + fit.height + sectionGap;
+    }
+
+    if (ingredients.length === 0 && steps.length > 0) {
+      const bodyTop = cursor + headingOffset;
+      const fit = fitItems(
+        steps,
+        bottomFor(layout.method) - bodyTop,
+        measureSteps,
+        page.sections.length === 0,
+      );
+      if (fit.count > 0) {
+        page.sections.push({
+          kind: "method",
+          heading: moveSlot(
+            layout.methodHeading,
+            cursor,
+            layout.methodHeading.height,
+          ),
+          body: moveSlot(layout.method, bodyTop, fit.height),
+          steps: steps.slice(0, fit.count),
+          firstStepNumber: recipe.method.length - steps.length + 1,
+        });
+        steps = steps.slice(fit.count);
+      }
+    }
+
+    return { page, ingredients, steps };
+  };
+
+  const pages: RecipePagePlan[] = [];
+  let ingredients = recipe.ingredients.map(formatIngredient);
+  let steps = recipe.method;
+  do {
+    const continued = pages.length > 0;
+    let next = planPage(ingredients, steps, continued, false);
+    // The page that would finish the recipe is planned again around the
+    // nutrition table, which may push its last items onto another page
+    if (
+      recipe.nutrition &&
+      next.ingredients.length === 0 &&
+      next.steps.length === 0
+    ) {
+      next = planPage(ingredients, steps, continued, true);
+    }
+    pages.push(next.page);
+    ({ ingredients, steps } = next);
+  } while (ingredients.length > 0 || steps.length > 0);
+
+  return pages;
+}
@@ -1,19 +1,40 @@
 /* eslint-disable no-console */
-import { addPage, addElementAtPoint } from "@canva/design";
-import type { BoxData, Recipe } from "../types";
-import type { TextElementAtPoint, ImageElementAtPoint } from "@canva/design";
+import { addPage, addElementAtPoint, getDefaultPageDimensions } from "@canva/design";
+import type { BoxData, DietTag, Nutrition, Recipe } from "../types";
+import type { TextElementAtPoint, ImageElementAtPoint, RichtextElementAtPoint, PageId, TableElement } from "@canva/design";
 import type { ImageRef } from "@canva/asset";
+import type { RecipeImageRefs } from "./image_upload";
+import { matchPagePreset, resolveLayoutTemplate } from "../templates";
+import type { BadgeRowSlot, ImageSlot, LabelSlot, LayoutTemplate, RichtextSlot, SlotBox, TextSlot } from "../templates";
+import { planRecipePages } from "./pagination";
+import { formatIngredient } from "./ingredients";
+import { createNutritionTable, formatAllergens } from "./nutrition";
+import { getDietLabels } from "./diets";
+import type { PageSection } from "./pagination";
+import { buildShoppingList, formatShoppingListMarkdown, planShoppingListPages } from "./shopping_list";
+import { escapeMarkdown, markdownToRichtext } from "../../utils/richtext";
+import { BookGenerationError, GenerationCancelledError, createGenerationRun, getCurrentPageId, throwIfCancelled, updateFrontPage, updateRecipe, updateShoppingList } from "./generation_run";
+import type { GenerationOptions, GenerationRun } from "./generation_run";
+import { designCallQueue } from "./design_queue";
+import { mergePlaceholderReports, replacePlaceholdersWithFormatting, scanPlaceholders } from "../../utils/text_replacement";
+import { replaceImagePlaceholders } from "../../utils/image_replacement";
+import type { PlaceholderReport, PlaceholderScan } from "../../utils/text_replacement";
+import { lintPlaceholders } from "../../utils/placeholder_lint";
+import type { PlaceholderLintReport, TemplateField } from "../../utils/placeholder_lint";
+import type { TemplateValue } from "../../utils/template";
 
 /**
  * Creates placeholder replacement mappings for the frontpage
  * @param boxData - The box data containing frontpage information
- * @returns Object mapping placeholder names to replacement values
+ * @returns Object mapping placeholder names to replacement values. The
+ * `List` values are for loops and filters, e.g. `{{frontpageIngredientList|bullet}}`.
  */
-export function createFrontpageReplacements(boxData: BoxData): Record<string, string> {
+export function createFrontpageReplacements(boxData: BoxData): Record<string, TemplateValue> {
   console.log("Creating frontpage replacements for:", boxData.frontpage);
   const replacements = {
     frontpageTitle: boxData.frontpage.title,
     frontpageIngredients: boxData.frontpage.ingredients.join('\n• '),
+    frontpageIngredientList: boxData.frontpage.ingredients,
   };
   console.log("Frontpage replacements created:", replacements);
   return replacements;
@@ -23,15 +44,18 @@ export function createFrontpageReplacements(boxData: BoxData): Record<string, st
  * Creates placeholder replacement mappings for a specific recipe
  * @param recipe - The recipe data
  * @param index - The index of the recipe (0-based)
- * @returns Object mapping placeholder names to replacement values
+ * @returns Object mapping placeholder names to replacement values. The
+ * `List` values are for loops and filters, e.g. `{{#each recipeIngredientList_1}}`.
  */
-export function createRecipeReplacements(recipe: Recipe, index: number): Record<string, string> {
+export function createRecipeReplacements(recipe: Recipe, index: number): Record<string, TemplateValue> {
   const recipeNumber = index + 1;
   console.log(`Creating recipe replacements for recipe ${recipeNumber}:`, recipe);
+  const ingredients = recipe.ingredients.map(formatIngredient);
   const replacements = {
     [`recipeTitle_${recipeNumber}`]: recipe.title,
     [`recipeDay_${recipeNumber}`]: recipe.day.toString(),
-    [`recipeIngredients_${recipeNumber}`]: recipe.ingredients.join('\n• '),
+    [`recipeIngredients_${recipeNumber}`]: ingredients.join('\n• '),
+    [`recipeIngredientList_${recipeNumber}`]: ingredients,
   };
   console.log(`Recipe ${recipeNumber} replacements created:`, replacements);
   return replacements;
@@ -59,23 +83,26 @@ export function createMethodReplacements(recipe: Recipe, index: number): Record<
 }
 
 /**
- * Formats method steps with proper spacing and formatting
+ * Formats method steps as markdown, with bold headers and numbered steps.
+ * See {@link markdownToRichtext} for turning the result into formatted text.
  * @param method - Array of method steps
- * @returns Formatted method text
+ * @param firstStepNumber - The number of the first step, so numbering continues across pages
+ * @returns Formatted method markdown
  */
-export function formatMethodSteps(method: Recipe['method']): string {
+export function formatMethodSteps(method: Recipe['method'], firstStepNumber = 1): string {
   const steps: string[] = [];
   
-  method.forEach((step) => {
+  method.forEach((step, i) => {
     const stepParts: string[] = [];
     
     // Add header if it exists
     if (step.header && step.header.trim()) {
-      stepParts.push(`**${step.header}**`);
+      stepParts.push(`**${escapeMarkdown(step.header.trim())}**`);
     }
     
-    // Add content
-    stepParts.push(step.text);
+    // Add content. The number is plain text rather than a list marker, because
+    // list numbering would restart on every continuation page.
+    stepParts.push(`**${firstStepNumber + i}.** ${escapeMarkdown(step.text)}`);
     
     // Join header and content for this step
     steps.push(stepParts.join('\n'));
@@ -92,7 +119,7 @@ export function formatMethodSteps(method: Recipe['method']): string {
  * @returns Object containing both simple and formatted replacements
  */
 export function createRecipePageReplacements(recipe: Recipe, index: number): {
-  simple: Record<string, string>;
+  simple: Record<string, TemplateValue>;
   formatted: Record<string, { headers: string[]; content: string[] }>;
 } {
   return {
@@ -107,11 +134,11 @@ export function createRecipePageReplacements(recipe: Recipe, index: number): {
  * @returns Object containing both simple and formatted replacements for all recipes
  */
 export function createAllRecipeReplacements(recipes: Recipe[]): {
-  simple: Record<string, string>;
+  simple: Record<string, TemplateValue>;
   formatted: Record<string, { headers: string[]; content: string[] }>;
 } {
   console.log("Creating all recipe replacements for recipes:", recipes);
-  const allSimple: Record<string, string> = {};
+  const allSimple: Record<string, TemplateValue> = {};
   const allFormatted: Record<string, { headers: string[]; content: string[] }> = {};
 
   recipes.forEach((recipe, index) => {
@@ -130,243 +157,537 @@ export function createAllRecipeReplacements(recipes: Recipe[]): {
 }
 
 /**
- * Creates a new page with recipe content including images
+ * Lists the image placeholder names for a recipe's photos: `recipeImage_N` for
+ * the hero photo and `recipeStepImage_N_M` for each step photo
+ * @param recipe - The recipe data
+ * @param index - The index of the recipe (0-based)
+ * @returns The placeholder names, for the photos the recipe has
+ */
+function listImagePlaceholders(recipe: Recipe, index: number): { hero?: string; steps: string[] } {
+  const recipeNumber = index + 1;
+  return {
+    hero: recipe.images?.hero ? `recipeImage_${recipeNumber}` : undefined,
+    steps: (recipe.images?.steps ?? []).map((_, i) => `recipeStepImage_${recipeNumber}_${i + 1}`),
+  };
+}
+
+/**
+ * Creates image placeholder mappings for the uploaded photos of all recipes
+ * @param recipes - Array of recipe data
+ * @param images - The uploaded photos, in the same order as the recipes
+ * @returns Object mapping image placeholder names to uploaded photos
+ */
+export function createImageReplacements(recipes: Recipe[], images: RecipeImageRefs[]): Record<string, ImageRef> {
+  const replacements: Record<string, ImageRef> = {};
+  recipes.forEach((recipe, index) => {
+    const { hero, steps } = listImagePlaceholders(recipe, index);
+    const refs = images[index];
+    if (hero && refs?.hero) {
+      replacements[hero] = refs.hero;
+    }
+    // Step photos that failed to upload leave their placeholders unfilled
+    refs?.steps.forEach((ref, i) => {
+      if (ref && steps[i]) {
+        replacements[steps[i]] = ref;
+      }
+    });
+  });
+  return replacements;
+}
+
+/**
+ * Fills the `{{placeholder}}` tokens on every page of a template design with a
+ * box's data. Image frames tagged with `{{recipeImage_N}}` are filled with the
+ * recipe photos first, so their tags aren't mistaken for text placeholders.
+ * @param boxData - The box data containing frontpage information and recipes
+ * @param images - Optional uploaded photos, in the same order as the recipes
+ * @returns Promise that resolves with a report of which placeholders were filled, missing or left unmatched
+ */
+export async function fillRecipeTemplate(boxData: BoxData, images?: RecipeImageRefs[]): Promise<PlaceholderReport> {
+  console.log("Filling template with box data:", boxData.frontpage.title);
+  const imageReport = images
+    ? await replaceImagePlaceholders(createImageReplacements(boxData.recipes, images))
+    : undefined;
+  const { simple, formatted } = createAllRecipeReplacements(boxData.recipes);
+  const textReport = await replacePlaceholdersWithFormatting(
+    { ...createFrontpageReplacements(boxData), ...simple },
+    formatted
+  );
+  return imageReport ? mergePlaceholderReports(imageReport, textReport) : textReport;
+}
+
+/**
+ * The result of checking a template design against a box's data
+ */
+export type TemplateCheckReport = PlaceholderLintReport & Omit<PlaceholderScan, "occurrences">;
+
+/**
+ * Lists every data field there's data for in a box, see {@link fillRecipeTemplate}.
+ * The text and list forms of the same ingredients, e.g. `recipeIngredients_1`
+ * and `recipeIngredientList_1`, are one field.
+ * @param boxData - The box data containing frontpage information and recipes
+ * @returns The data fields, each with its placeholder names
+ */
+export function listTemplateFields(boxData: BoxData): TemplateField[] {
+  const { simple, formatted } = createAllRecipeReplacements(boxData.recipes);
+  const names = Object.keys({ ...createFrontpageReplacements(boxData), ...simple, ...formatted });
+  const images = boxData.recipes.flatMap((recipe, index) => {
+    const { hero, steps } = listImagePlaceholders(recipe, index);
+    return hero ? [hero, ...steps] : steps;
+  });
+  return [
+    ...names
+      .filter((name) => !name.includes('IngredientList'))
+      .map((name) => (name.includes('Ingredients') ? [name, name.replace('Ingredients', 'IngredientList')] : name)),
+    ...images,
+  ];
+}
+
+/**
+ * Lists the photo placeholder names a box's recipes could use, whether or not
+ * each recipe has that photo: a hero photo and one per step. Frames for
+ * photos a recipe doesn't have are left as they are when filling.
+ * @param boxData - The box data containing the recipes
+ * @returns The photo placeholder names
+ */
+function listPossibleImagePlaceholders(boxData: BoxData): string[] {
+  return boxData.recipes.flatMap((recipe, index) => {
+    const recipeNumber = index + 1;
+    const stepCount = Math.max(recipe.method.length, recipe.images?.steps?.length ?? 0);
+    return [
+      `recipeImage_${recipeNumber}`,
+      ...Array.from({ length: stepCount }, (_, i) => `recipeStepImage_${recipeNumber}_${i + 1}`),
+    ];
+  });
+}
+
+/**
+ * Checks the `{{placeholder}}` tokens on every page of a template design
+ * against a box's data, without changing the design
+ * @param boxData - The box data containing frontpage information and recipes
+ * @returns Promise that resolves with the unknown, unused and duplicated placeholders and gaps in recipe numbers
+ */
+export async function checkRecipeTemplate(boxData: BoxData): Promise<TemplateCheckReport> {
+  console.log("Checking template against box data:", boxData.frontpage.title);
+  const { occurrences, errors, skippedPages } = await scanPlaceholders();
+  return {
+    ...lintPlaceholders(occurrences, listTemplateFields(boxData), listPossibleImagePlaceholders(boxData)),
+    errors,
+    skippedPages,
+  };
+}
+
+/**
+ * Creates a text element that fills a layout slot
+ * @param slot - The slot to place the text in
+ * @param text - The text content
+ * @returns A text element positioned and styled by the slot
+ */
+function createTextElement(slot: TextSlot, text: string): TextElementAtPoint {
+  // Text elements size themselves to their content, so the slot height is only used for layout
+  const { height, ...box } = slot;
+  return {
+    type: 'text',
+    children: [text],
+    ...box
+  };
+}
+
+/**
+ * Creates a richtext element for a layout slot
+ * @param slot - The richtext slot to place the text in
+ * @param markdown - The text content, see {@link markdownToRichtext}
+ * @returns A richtext element positioned and styled by the slot
+ */
+function createRichtextElement(slot: RichtextSlot, markdown: string): RichtextElementAtPoint {
+  const { top, left, width, height, ...style } = slot;
+  return {
+    type: 'richtext',
+    range: markdownToRichtext(markdown, style),
+    top,
+    left,
+    width
+  };
+}
+
+/**
+ * Creates a text element for a label slot, filling in `{day}` and similar tokens
+ * @param slot - The label slot containing the static copy
+ * @param values - Values for the tokens in the label text
+ * @returns A text element positioned and styled by the slot
+ */
+function createLabelElement(
+  slot: LabelSlot,
+  values: Record<string, string | number> = {}
+): TextElementAtPoint {
+  const { text, ...textSlot } = slot;
+  const label = text.replace(/\{(\w+)\}/g, (token, key) =>
+    key in values ? String(values[key]) : token
+  );
+  return createTextElement(textSlot, label);
+}
+
+/**
+ * Creates a badge for each diet, side by side and centered in the slot
+ * @param slot - The badge row slot
+ * @param diets - The diets to show, see {@link getDietLabels}
+ * @returns A text element per badge, or none if there are no diets
+ */
+function createBadgeElements(slot: BadgeRowSlot, diets: DietTag[]): TextElementAtPoint[] {
+  const { badgeWidth, gap, ...textSlot } = slot;
+  const labels = getDietLabels(diets);
+  const rowWidth = labels.length * badgeWidth + (labels.length - 1) * gap;
+  const left = slot.left + Math.max(0, Math.round((slot.width - rowWidth) / 2));
+  return labels.map((label, i) =>
+    createTextElement({ ...textSlot, left: left + i * (badgeWidth + gap), width: badgeWidth }, label)
+  );
+}
+
+/**
+ * Creates an image element that fills a layout slot
+ * @param slot - The slot to place the image in
+ * @param ref - The image reference
+ * @param altText - Description of the image for screen readers
+ * @returns An image element positioned by the slot
+ */
+function createImageElement(
+  slot: ImageSlot,
+  ref: ImageRef,
+  altText: string
+): ImageElementAtPoint {
+  return {
+    type: 'image',
+    ref,
+    altText: { text: altText, decorative: false },
+    ...slot
+  };
+}
+
+/**
+ * Creates the nutrition table, placed at the top left of a layout slot
+ * @param slot - The slot to place the table in
+ * @param nutrition - The recipe's nutritional values per serving
+ * @returns A table element positioned by the slot, see {@link createNutritionTable}
+ */
+function createNutritionTableElement(
+  slot: SlotBox,
+  nutrition: Nutrition
+): TableElement & Omit<SlotBox, 'height'> {
+  const { top, left, width } = slot;
+  return { ...createNutritionTable(nutrition), top, left, width };
+}
+
+/**
+ * Fits a layout template to the pages of the current design
+ * @param template - The layout template for the box
+ * @returns The template with slot coordinates for the design's page size, see {@link resolveLayoutTemplate}
+ */
+async function resolvePageLayout(template: LayoutTemplate): Promise<LayoutTemplate> {
+  const dimensions = await getDefaultPageDimensions();
+  if (!dimensions) {
+    console.log("Design has no fixed page size, using the template's page size");
+    return template;
+  }
+  const preset = matchPagePreset(dimensions);
+  console.log(`Fitting layout to ${dimensions.width}x${dimensions.height} pages (${preset?.name ?? 'custom size'})`);
+  return resolveLayoutTemplate(template, dimensions);
+}
+
+/**
+ * Creates the elements for one section of a recipe page
+ * @param section - The planned section, see {@link planRecipePages}
+ * @returns The section's heading and body elements
+ */
+function createSectionElements(section: PageSection): (TextElementAtPoint | RichtextElementAtPoint)[] {
+  const body = section.kind === 'ingredients'
+    ? createTextElement(section.body, section.ingredients.join('\n• '))
+    : createRichtextElement(section.body, formatMethodSteps(section.steps, section.firstStepNumber));
+  return [
+    createLabelElement(section.heading),
+    body
+  ];
+}
+
+/**
+ * Options for {@link createRecipePage}
+ * @property firstPage - The number of the recipe's pages to skip, to finish a recipe that failed partway
+ * @property onPageStart - Called before each page is added, with its number (1-based) and the recipe's page count
+ * @property onPageAdded - Called after each page is added, with the page's ID if Canva reports one
+ * @property nutritionTableAdded - Whether an earlier attempt already added the recipe's nutrition table
+ * @property onNutritionTableAdded - Called after the nutrition table is added to the recipe's last page
+ * @property signal - Stops before the next page when aborted
+ */
+export interface RecipePageOptions {
+  firstPage?: number;
+  onPageStart?: (page: number, pageCount: number) => void;
+  onPageAdded?: (pageId: PageId | undefined) => void;
+  nutritionTableAdded?: boolean;
+  onNutritionTableAdded?: () => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for {@link populateCurrentPageWithFrontPage}
+ * @property firstElement - The number of elements to skip, to finish a front page that failed partway
+ * @property onElementAdded - Called after each element is added, with the element's text
+ * @property signal - Stops before the next element when aborted
+ * @property diets - The box's diets, shown as badges
+ */
+export interface FrontPageOptions {
+  firstElement?: number;
+  onElementAdded?: (text: string) => void;
+  signal?: AbortSignal;
+  diets?: DietTag[];
+}
+
+/**
+ * Creates the pages for a recipe, including images. Recipes that don't fit on
+ * one page continue on extra pages, see {@link planRecipePages}.
  * @param recipe - The recipe data to populate the page with
  * @param index - The index of the recipe (0-based)
- * @param imageRefs - Optional array of image references to include
- * @returns Promise that resolves when the page is created
+ * @param template - The layout template that positions the page's elements, already fitted to the design's page size
+ * @param images - Optional uploaded hero and step photos, see {@link uploadRecipeImages}
+ * @param options - Where to resume and listeners for each page, see {@link RecipePageOptions}
+ * @returns Promise that resolves with the number of pages created
+ * @throws GenerationCancelledError if the signal is aborted before a page
  */
 export async function createRecipePage(
   recipe: Recipe, 
   index: number, 
-  imageRefs?: ImageRef[]
-): Promise<void> {
+  template: LayoutTemplate,
+  images?: RecipeImageRefs,
+  {
+    firstPage = 0,
+    onPageStart,
+    onPageAdded,
+    nutritionTableAdded = false,
+    onNutritionTableAdded,
+    signal
+  }: RecipePageOptions = {}
+): Promise<number> {
   const recipeNumber = index + 1;
+  const layout = template.recipePage;
   console.log(`Creating page for recipe ${recipeNumber}:`, recipe.title);
 
-  const elements: (TextElementAtPoint | ImageElementAtPoint)[] = [
-    // Recipe title
-    {
-      type: 'text',
-      children: [recipe.title],
-      top: 50,
-      left: 100,
-      width: 500,
-      fontSize: 32,
-      fontWeight: 'bold',
-      textAlign: 'center'
-    },
-    // Day indicator
-    {
-      type: 'text',
-      children: [`Day ${recipe.day}`],
-      top: 100,
-      left: 100,
-      width: 500,
-      fontSize: 18,
-      fontWeight: 'medium',
-      textAlign: 'center',
-      color: '#666666'
-    }
-  ];
+  const plans = planRecipePages(recipe, layout);
+  if (plans.length > 1) {
+    console.log(`Recipe ${recipeNumber} doesn't fit on one page, splitting it across ${plans.length} pages`);
+  }
 
-  // Add main recipe image if available
-  if (imageRefs && imageRefs.length > 0) {
-    elements.push({
-      type: 'image',
-      ref: imageRefs[0], // Use first image as main recipe image
-      altText: { text: `${recipe.title} - Main Image`, decorative: false },
-      top: 130,
-      left: 200,
-      width: 300,
-      height: 200
-    });
+  if (firstPage > 0) {
+    console.log(`Resuming recipe ${recipeNumber} at page ${firstPage + 1}/${plans.length}`);
   }
 
-  // Add ingredients section
-  elements.push(
-    {
-      type: 'text',
-      children: ['Ingredients:'],
-      top: 350,
-      left: 100,
-      width: 500,
-      fontSize: 20,
-      fontWeight: 'semibold',
-      color: '#333333'
-    },
-    {
-      type: 'text',
-      children: [recipe.ingredients.join('\n• ')],
-      top: 380,
-      left: 120,
-      width: 460,
-      fontSize: 16,
-      textAlign: 'start'
+  for (const [pageIndex, plan] of plans.entries()) {
+    if (pageIndex < firstPage) {
+      continue;
     }
-  );
+    throwIfCancelled(signal);
+    onPageStart?.(pageIndex + 1, plans.length);
+    const elements: (TextElementAtPoint | RichtextElementAtPoint | ImageElementAtPoint)[] = [];
+    const title = plan.continued
+      ? createLabelElement(layout.continuedTitle, { title: recipe.title })
+      : createTextElement(layout.title, recipe.title);
+    elements.push(title);
 
-  // Add method section
-  elements.push(
-    {
-      type: 'text',
-      children: ['Method:'],
-      top: 550,
-      left: 100,
-      width: 500,
-      fontSize: 20,
-      fontWeight: 'semibold',
-      color: '#333333'
-    },
-    {
-      type: 'text',
-      children: [formatMethodSteps(recipe.method)],
-      top: 580,
-      left: 120,
-      width: 460,
-      fontSize: 16,
-      textAlign: 'start'
-    }
-  );
+    if (!plan.continued) {
+      elements.push(createLabelElement(layout.day, { day: recipe.day }));
+      elements.push(...createBadgeElements(layout.diets, recipe.diets ?? []));
+
+      // Add main recipe image if available
+      if (images?.hero) {
+        elements.push(
+          createImageElement(layout.heroImage, images.hero, `${recipe.title} - Main Image`)
+        );
+      }
 
-  // Add additional images if available (smaller, positioned differently)
-  if (imageRefs && imageRefs.length > 1) {
-    for (let i = 1; i < Math.min(imageRefs.length, 3); i++) {
-      elements.push({
-        type: 'image',
-        ref: imageRefs[i],
-        altText: { text: `${recipe.title} - Image ${i + 1}`, decorative: false },
-        top: 130 + (i * 70), // Stack additional images vertically
-        left: 50,
-        width: 120,
-        height: 80
+      // Add step photos if available, one per step image slot. Steps whose
+      // photo failed to upload leave their slot empty.
+      layout.stepImages.forEach((slot, i) => {
+        const ref = images?.steps[i];
+        if (ref) {
+          elements.push(
+            createImageElement(slot, ref, `${recipe.title} - Step ${i + 1}`)
+          );
+        }
       });
     }
-  }
 
-  try {
-    await addPage({
-      title: recipe.title,
-      elements
+    // Add the ingredients and method sections planned for this page
+    plan.sections.forEach((section) => {
+      elements.push(...createSectionElements(section));
     });
-    console.log(`Successfully created page for recipe ${recipeNumber}: ${recipe.title}`);
-  } catch (error) {
-    console.error(`Failed to create page for recipe ${recipeNumber} (${recipe.title}):`, error);
-    // Log more details about the error
-    if (error instanceof Error) {
-      console.error(`Error message: ${error.message}`);
-      console.error(`Error stack: ${error.stack}`);
+
+    if (!plan.continued && recipe.allergens) {
+      elements.push(createLabelElement(layout.allergens, { allergens: formatAllergens(recipe.allergens) }));
+    }
+
+    try {
+      const page = await designCallQueue.run(
+        () => addPage({ title: title.children[0], elements }),
+        `page ${pageIndex + 1} of recipe ${recipeNumber}`
+      );
+      onPageAdded?.(page.type === 'absolute' ? page.id : undefined);
+      console.log(`Successfully created page ${pageIndex + 1}/${plans.length} for recipe ${recipeNumber}: ${recipe.title}`);
+    } catch (error) {
+      console.error(`Failed to create page for recipe ${recipeNumber} (${recipe.title}):`, error);
+      // Log more details about the error
+      if (error instanceof Error) {
+        console.error(`Error message: ${error.message}`);
+        console.error(`Error stack: ${error.stack}`);
+      }
+      throw error;
+    }
+  }
+
+  // Pages can't be created with a table, so the nutrition table is added to
+  // the recipe's last page once it's the current page. A recipe whose table
+  // failed resumes here, as its last page is still the current page.
+  if (recipe.nutrition && !nutritionTableAdded) {
+    const table = createNutritionTableElement(layout.nutrition, recipe.nutrition);
+    try {
+      await designCallQueue.run(
+        () => addElementAtPoint(table),
+        `nutrition table of recipe ${recipeNumber}`
+      );
+      onNutritionTableAdded?.();
+    } catch (error) {
+      console.error(`Failed to add the nutrition table of recipe ${recipeNumber} (${recipe.title}):`, error);
+      throw error;
     }
-    throw error;
   }
+
+  return plans.length - firstPage;
 }
 
 /**
- * Creates pages for all recipes in a box
+ * Creates pages for all recipes in a box. The run stops at the first recipe
+ * that fails, so the book stays in order when it's resumed.
  * @param recipes - Array of recipe data
- * @param imageRefs - Optional array of image references for all recipes
- * @returns Promise that resolves when all pages are created
+ * @param template - The layout template that positions each page's elements
+ * @param images - Optional uploaded photos, in the same order as the recipes
+ * @param options - The run to continue and a listener for its progress, see {@link GenerationOptions}
+ * @returns Promise that resolves with the finished run
+ * @throws BookGenerationError with the run so far if a recipe fails
  */
 export async function createAllRecipePages(
   recipes: Recipe[], 
-  imageRefs?: ImageRef[]
-): Promise<void> {
+  template: LayoutTemplate,
+  images?: RecipeImageRefs[],
+  { run = createGenerationRun(recipes), onUpdate, onProgress, signal }: GenerationOptions = {}
+): Promise<GenerationRun> {
   console.log(`Creating pages for ${recipes.length} recipes`);
   
-  let successCount = 0;
-  let failCount = 0;
+  const layout = await resolvePageLayout(template);
+  let state = run;
+  const update = (next: GenerationRun) => {
+    state = next;
+    onUpdate?.(state);
+  };
   
   for (let i = 0; i < recipes.length; i++) {
+    const recipeState = state.recipes[i];
+    if (recipeState.status === 'created') {
+      console.log(`Skipping recipe ${i + 1}/${recipes.length}, already created: ${recipes[i].title}`);
+      continue;
+    }
+
     try {
       console.log(`Creating page ${i + 1}/${recipes.length} for recipe: ${recipes[i].title}`);
+      update(updateRecipe(state, i, { status: 'pending', error: undefined }));
       
-      // Get images for this specific recipe (if imageRefs provided)
-      const recipeImages = imageRefs ? [imageRefs[i]] : undefined;
-      
-      await createRecipePage(recipes[i], i, recipeImages);
-      successCount++;
+      await createRecipePage(recipes[i], i, layout, images?.[i], {
+        firstPage: recipeState.pageCount,
+        onPageStart: (page, pageCount) => onProgress?.({
+          kind: 'recipe',
+          index: i,
+          count: recipes.length,
+          title: recipes[i].title,
+          page,
+          pageCount
+        }),
+        onPageAdded: (pageId) => {
+          const { pageCount, pageIds } = state.recipes[i];
+          update(updateRecipe(state, i, {
+            pageCount: pageCount + 1,
+            pageIds: pageId ? [...pageIds, pageId] : pageIds
+          }));
+        },
+        nutritionTableAdded: recipeState.nutritionTableAdded,
+        onNutritionTableAdded: () => {
+          update(updateRecipe(state, i, { nutritionTableAdded: true }));
+        },
+        signal
+      });
+      update(updateRecipe(state, i, { status: 'created' }));
       console.log(`Successfully created page ${i + 1}/${recipes.length}`);
-      
-      // Add a longer delay to prevent API rate limiting
-      if (i < recipes.length - 1) { // Don't delay after the last recipe
-        console.log("Waiting before creating next page...");
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
     } catch (error) {
-      failCount++;
+      if (error instanceof GenerationCancelledError) {
+        console.log(`Cancelled before recipe ${i + 1}/${recipes.length} was finished`);
+        throw new BookGenerationError(error.message, state, error);
+      }
       console.error(`Failed to create page ${i + 1}/${recipes.length} for recipe "${recipes[i].title}":`, error);
-      // Continue with other recipes even if one fails
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      update(updateRecipe(state, i, { status: 'failed', error: message }));
+      // Stop here, so that resuming the run keeps the recipes in order
+      throw new BookGenerationError(`Failed to create pages for recipe ${i + 1} of ${recipes.length} ("${recipes[i].title}")`, state, error);
     }
   }
   
-  console.log(`Completed creating pages: ${successCount} successful, ${failCount} failed out of ${recipes.length} recipes`);
-  
-  if (failCount > 0) {
-    throw new Error(`Failed to create ${failCount} out of ${recipes.length} recipe pages`);
-  }
+  console.log(`Completed creating pages for ${recipes.length} recipes`);
+  return state;
+}
+
+/**
+ * Creates the elements that make up the front page
+ * @param boxData - The box data containing frontpage information
+ * @param template - The layout template that positions the elements
+ * @param diets - The box's diets, shown as badges
+ * @returns The front page's text elements
+ */
+function createFrontPageElements(
+  boxData: BoxData,
+  template: LayoutTemplate,
+  diets: DietTag[] = []
+): TextElementAtPoint[] {
+  const layout = template.frontPage;
+  return [
+    createTextElement(layout.title, boxData.frontpage.title),
+    createLabelElement(layout.subtitle),
+    createLabelElement(layout.ingredientsHeading),
+    createTextElement(layout.ingredients, boxData.frontpage.ingredients.join('\n• ')),
+    // Badges come last, so resuming a front page skips the same elements
+    ...createBadgeElements(layout.diets, diets)
+  ];
 }
 
 /**
  * Populates the current page with front page content
  * @param boxData - The box data containing frontpage information
+ * @param template - The layout template that positions the page's elements
+ * @param options - Where to resume and a listener for each element, see {@link FrontPageOptions}
  * @returns Promise that resolves when the current page is populated
+ * @throws GenerationCancelledError if the signal is aborted before an element
  */
-export async function populateCurrentPageWithFrontPage(boxData: BoxData): Promise<void> {
+export async function populateCurrentPageWithFrontPage(
+  boxData: BoxData,
+  template: LayoutTemplate,
+  { firstElement = 0, onElementAdded, signal, diets }: FrontPageOptions = {}
+): Promise<void> {
   console.log("Populating current page with front page content:", boxData.frontpage.title);
 
-  const elements: TextElementAtPoint[] = [
-    // Main title
-    {
-      type: 'text',
-      children: [boxData.frontpage.title],
-      top: 100,
-      left: 100,
-      width: 500,
-      fontSize: 36,
-      fontWeight: 'bold',
-      textAlign: 'center',
-      color: '#2C3E50'
-    },
-    // Subtitle
-    {
-      type: 'text',
-      children: ['Recipe Box Contents'],
-      top: 160,
-      left: 100,
-      width: 500,
-      fontSize: 20,
-      fontWeight: 'medium',
-      textAlign: 'center',
-      color: '#7F8C8D'
-    },
-    // Ingredients list
-    {
-      type: 'text',
-      children: ['Box Ingredients:'],
-      top: 220,
-      left: 100,
-      width: 500,
-      fontSize: 18,
-      fontWeight: 'semibold',
-      color: '#34495E'
-    },
-    {
-      type: 'text',
-      children: [boxData.frontpage.ingredients.join('\n• ')],
-      top: 250,
-      left: 120,
-      width: 460,
-      fontSize: 16,
-      textAlign: 'start'
-    }
-  ];
+  const layout = await resolvePageLayout(template);
+  const elements = createFrontPageElements(boxData, layout, diets).slice(firstElement);
 
   try {
-    // Add each element to the current page
-    for (const element of elements) {
-      await addElementAtPoint(element);
-      // Small delay between elements to prevent API rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
+    // Add each element to the current page, in order so they stack as laid out
+    for (const [i, element] of elements.entries()) {
+      throwIfCancelled(signal);
+      await designCallQueue.run(
+        () => addElementAtPoint(element),
+        `front page element ${firstElement + i + 1}`
+      );
+      onElementAdded?.(element.children[0].trim());
     }
     console.log("Successfully populated current page with front page content");
   } catch (error) {
@@ -378,63 +699,25 @@ export async function populateCurrentPageWithFrontPage(boxData: BoxData): Promis
 /**
  * Creates a front page with box information
  * @param boxData - The box data containing frontpage information
+ * @param template - The layout template that positions the page's elements
+ * @param diets - The box's diets, shown as badges
  * @returns Promise that resolves when the front page is created
  */
-export async function createFrontPage(boxData: BoxData): Promise<void> {
+export async function createFrontPage(
+  boxData: BoxData,
+  template: LayoutTemplate,
+  diets: DietTag[] = []
+): Promise<void> {
   console.log("Creating front page for:", boxData.frontpage.title);
 
-  const elements: TextElementAtPoint[] = [
-    // Main title
-    {
-      type: 'text',
-      children: [boxData.frontpage.title],
-      top: 100,
-      left: 100,
-      width: 500,
-      fontSize: 36,
-      fontWeight: 'bold',
-      textAlign: 'center',
-      color: '#2C3E50'
-    },
-    // Subtitle
-    {
-      type: 'text',
-      children: ['Recipe Box Contents'],
-      top: 160,
-      left: 100,
-      width: 500,
-      fontSize: 20,
-      fontWeight: 'medium',
-      textAlign: 'center',
-      color: '#7F8C8D'
-    },
-    // Ingredients list
-    {
-      type: 'text',
-      children: ['Box Ingredients:'],
-      top: 220,
-      left: 100,
-      width: 500,
-      fontSize: 18,
-      fontWeight: 'semibold',
-      color: '#34495E'
-    },
-    {
-      type: 'text',
-      children: [boxData.frontpage.ingredients.join('\n• ')],
-      top: 250,
-      left: 120,
-      width: 460,
-      fontSize: 16,
-      textAlign: 'start'
-    }
-  ];
+  const layout = await resolvePageLayout(template);
+  const elements = createFrontPageElements(boxData, layout, diets);
 
   try {
-    await addPage({
-      title: `${boxData.frontpage.title} - Front Page`,
-      elements
-    });
+    await designCallQueue.run(
+      () => addPage({ title: `${boxData.frontpage.title} - Front Page`, elements }),
+      'front page'
+    );
     console.log("Successfully created front page");
   } catch (error) {
     console.error("Failed to create front page:", error);
@@ -443,39 +726,178 @@ export async function createFrontPage(boxData: BoxData): Promise<void> {
 }
 
 /**
- * Creates a complete recipe book with front page and all recipe pages
+ * Creates the shopping list pages: every ingredient of the week's recipes,
+ * merged and grouped by category, see {@link buildShoppingList}. Lists that
+ * don't fit on one page continue on extra pages.
+ * @param boxData - The box data, already scaled to the chosen servings
+ * @param template - The layout template that positions the page's elements
+ * @param options - Where to resume and listeners for each page, see {@link RecipePageOptions}
+ * @returns Promise that resolves with the number of pages created
+ * @throws GenerationCancelledError if the signal is aborted before a page
+ */
+export async function createShoppingListPages(
+  boxData: BoxData,
+  template: LayoutTemplate,
+  { firstPage = 0, onPageStart, onPageAdded, signal }: RecipePageOptions = {}
+): Promise<number> {
+  const layout = (await resolvePageLayout(template)).shoppingListPage;
+  const plans = planShoppingListPages(buildShoppingList(boxData), layout.list);
+  console.log(`Creating shopping list on ${plans.length} page(s)`);
+
+  for (const [pageIndex, sections] of plans.entries()) {
+    if (pageIndex < firstPage) {
+      continue;
+    }
+    throwIfCancelled(signal);
+    onPageStart?.(pageIndex + 1, plans.length);
+    const title = createLabelElement(pageIndex > 0 ? layout.continuedTitle : layout.title);
+    const elements = [
+      title,
+      createLabelElement(layout.legend),
+      createRichtextElement(layout.list, formatShoppingListMarkdown(sections))
+    ];
+
+    try {
+      const page = await designCallQueue.run(
+        () => addPage({ title: title.children[0], elements }),
+        `page ${pageIndex + 1} of the shopping list`
+      );
+      onPageAdded?.(page.type === 'absolute' ? page.id : undefined);
+      console.log(`Successfully created shopping list page ${pageIndex + 1}/${plans.length}`);
+    } catch (error) {
+      console.error("Failed to create shopping list page:", error);
+      throw error;
+    }
+  }
+
+  return plans.length - firstPage;
+}
+
+/**
+ * Creates the page that opens a box's section of a batch run
+ * @param title - The name of the box
+ * @param week - The week the section is for, as shown on the page
+ * @param template - The layout template that positions the page's elements
+ * @returns Promise that resolves when the divider page is created
+ */
+export async function createDividerPage(
+  title: string,
+  week: string,
+  template: LayoutTemplate
+): Promise<void> {
+  console.log(`Creating divider page for ${title}, ${week}`);
+
+  const layout = (await resolvePageLayout(template)).dividerPage;
+  const elements = [
+    createTextElement(layout.title, title),
+    createTextElement(layout.week, week)
+  ];
+
+  try {
+    await designCallQueue.run(
+      () => addPage({ title: `${title} - ${week}`, elements }),
+      'divider page'
+    );
+    console.log("Successfully created divider page");
+  } catch (error) {
+    console.error("Failed to create divider page:", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a complete recipe book with front page, shopping list and all recipe pages
  * @param boxData - The box data containing frontpage information
  * @param recipes - Array of recipe data
- * @param imageRefs - Optional array of image references for recipes
- * @returns Promise that resolves when all pages are created
+ * @param template - The layout template for the box, see {@link getLayoutTemplate}
+ * @param images - Optional uploaded photos, in the same order as the recipes
+ * @param options - The run to continue and a listener for its progress, see {@link GenerationOptions}
+ * @returns Promise that resolves with the finished run, see {@link countCreatedPages}
+ * @throws BookGenerationError with the run so far if part of the book fails,
+ * so it can be resumed or rolled back
  */
 export async function createCompleteRecipeBook(
   boxData: BoxData, 
   recipes: Recipe[], 
-  imageRefs?: ImageRef[]
-): Promise<void> {
+  template: LayoutTemplate,
+  images?: RecipeImageRefs[],
+  { run = createGenerationRun(recipes), onUpdate, onProgress, signal, diets }: GenerationOptions = {}
+): Promise<GenerationRun> {
   console.log(`Creating complete recipe book with ${recipes.length + 1} pages`);
-  console.log("Strategy: Populate current page with front page, then add recipe pages");
-  console.log(`Images provided: ${imageRefs ? imageRefs.length : 0}`);
+  console.log(`Using layout template "${template.name}" (${template.id})`);
+  console.log("Strategy: Populate current page with front page, then add shopping list and recipe pages");
+  console.log(`Images provided for ${images ? images.length : 0} recipes`);
   
-  try {
-    // Step 1: Populate the current (empty) page with front page content
-    console.log("Step 1: Populating current page with front page content...");
-    await populateCurrentPageWithFrontPage(boxData);
-    console.log("Current page populated successfully");
-    
-    // Add delay before creating recipe pages
-    console.log("Waiting before creating recipe pages...");
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Step 2: Create recipe pages (these will be added after the current page)
-    console.log("Step 2: Creating recipe pages...");
-    await createAllRecipePages(recipes, imageRefs);
-    console.log("Recipe pages created successfully");
-    
-    console.log("Successfully created complete recipe book");
-  } catch (error) {
-    console.error("Failed to create complete recipe book:", error);
-    throw error;
+  let state = run;
+  const update = (next: GenerationRun) => {
+    state = next;
+    onUpdate?.(state);
+  };
+
+  if (state.frontPage.status !== 'created') {
+    try {
+      // Step 1: Populate the current (empty) page with front page content
+      console.log("Step 1: Populating current page with front page content...");
+      // Remember which page the elements go on, so they can be found again for cleanup
+      const pageId = state.frontPage.pageId ?? await getCurrentPageId();
+      update(updateFrontPage(state, { status: 'pending', pageId, error: undefined }));
+      onProgress?.({ kind: 'front_page' });
+      await populateCurrentPageWithFrontPage(boxData, template, {
+        firstElement: state.frontPage.texts.length,
+        onElementAdded: (text) => {
+          update(updateFrontPage(state, { texts: [...state.frontPage.texts, text] }));
+        },
+        signal,
+        diets
+      });
+      update(updateFrontPage(state, { status: 'created' }));
+      console.log("Current page populated successfully");
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        console.log("Cancelled before the front page was finished");
+        throw new BookGenerationError(error.message, state, error);
+      }
+      console.error("Failed to create front page:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      update(updateFrontPage(state, { status: 'failed', error: message }));
+      throw new BookGenerationError("Failed to create the front page", state, error);
+    }
+  }
+  
+  if (state.shoppingList.status !== 'created') {
+    try {
+      // Step 2: Add the shopping list after the front page
+      console.log("Step 2: Creating shopping list...");
+      update(updateShoppingList(state, { status: 'pending', error: undefined }));
+      await createShoppingListPages(boxData, template, {
+        firstPage: state.shoppingList.pageCount,
+        onPageStart: (page, pageCount) => onProgress?.({ kind: 'shopping_list', page, pageCount }),
+        onPageAdded: (pageId) => {
+          const { pageCount, pageIds } = state.shoppingList;
+          update(updateShoppingList(state, {
+            pageCount: pageCount + 1,
+            pageIds: pageId ? [...pageIds, pageId] : pageIds
+          }));
+        },
+        signal
+      });
+      update(updateShoppingList(state, { status: 'created' }));
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        console.log("Cancelled before the shopping list was finished");
+        throw new BookGenerationError(error.message, state, error);
+      }
+      console.error("Failed to create shopping list:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      update(updateShoppingList(state, { status: 'failed', error: message }));
+      throw new BookGenerationError("Failed to create the shopping list", state, error);
+    }
   }
+
+  // Step 3: Create recipe pages (these will be added after the shopping list)
+  console.log("Step 3: Creating recipe pages...");
+  state = await createAllRecipePages(recipes, template, images, { run: state, onUpdate, onProgress, signal });
+  
+  console.log("Successfully created complete recipe book");
+  return state;
 }
@@ -0,0 +1,377 @@
+import type { RichtextSlot } from "../templates";
+import type { BoxData, Ingredient, IngredientCategory } from "../types";
+import { escapeMarkdown } from "../../utils/richtext";
+import { formatAmount } from "./ingredients";
+import { estimateTextHeight } from "./pagination";
+
+/**
+ * An amount of an ingredient in one unit, e.g. `600 g`
+ */
+export interface ShoppingListQuantity {
+  amount: number;
+  unit?: string;
+}
+
+/**
+ * An ingredient merged across every recipe that uses it
+ * @property quantities - The total amount in each unit that can't be
+ * converted into another, e.g. `2 spsk` and `1 dl`. Empty when no recipe
+ * gives an amount, like `Salt og peber`.
+ * @property inBox - Whether the ingredient comes in the box, rather than
+ * being something the customer has at home
+ */
+export interface ShoppingListItem {
+  name: string;
+  category: IngredientCategory;
+  quantities: ShoppingListQuantity[];
+  inBox: boolean;
+}
+
+/**
+ * The items of one category, in the order they're listed
+ */
+export interface ShoppingListSection {
+  category: IngredientCategory;
+  heading: string;
+  items: ShoppingListItem[];
+}
+
+const CATEGORY_HEADINGS: Record<IngredientCategory, string> = {
+  grønt: "Grønt",
+  køl: "Køl",
+  kolonial: "Kolonial",
+};
+
+const CATEGORY_ORDER: IngredientCategory[] = ["grønt", "køl", "kolonial"];
+
+/**
+ * Words that place an ingredient in a category when the backend doesn't say.
+ * A word matches the start of any word in the name, so `kartofl` matches
+ * `søde kartofler`. Everything else is `kolonial`.
+ */
+const CATEGORY_KEYWORDS: [IngredientCategory, string[]][] = [
+  [
+    "køl",
+    [
+      "kylling",
+      "oksekød",
+      "svinekød",
+      "lammekød",
+      "hakket",
+      "laks",
+      "torsk",
+      "rejer",
+      "bacon",
+      "pølse",
+      "skinke",
+      "fløde",
+      "mælk",
+      "yoghurt",
+      "skyr",
+      "smør",
+      "ost",
+      "feta",
+      "parmesan",
+      "mozzarella",
+      "æg",
+      "tofu",
+      "creme fraiche",
+    ],
+  ],
+  [
+    "grønt",
+    [
+      "løg",
+      "hvidløg",
+      "rødløg",
+      "forårsløg",
+      "porre",
+      "gulerod",
+      "gulerødder",
+      "kartofl",
+      "broccoli",
+      "blomkål",
+      "kål",
+      "spinat",
+      "squash",
+      "salat",
+      "tomat",
+      "agurk",
+      "peberfrugt",
+      "selleri",
+      "svampe",
+      "champignon",
+      "citron",
+      "lime",
+      "ingefær",
+      "persille",
+      "basilikum",
+      "koriander",
+      "dild",
+      "purløg",
+      "æble",
+      "pære",
+    ],
+  ],
+];
+
+/**
+ * Things most kitchens have, which are listed as such when the front page
+ * doesn't say what's in the box
+ */
+const PANTRY_STAPLES = [
+  "salt",
+  "peber",
+  "salt og peber",
+  "olie",
+  "olivenolie",
+  "rapsolie",
+  "sukker",
+  "mel",
+  "hvedemel",
+  "eddike",
+  "vand",
+];
+
+/**
+ * Units that convert into each other, with their size in the smallest unit
+ */
+const UNIT_FAMILIES: Record<
+  string,
+  { family: "mass" | "volume"; size: number }
+> = {
+  mg: { family: "mass", size: 0.001 },
+  g: { family: "mass", size: 1 },
+  kg: { family: "mass", size: 1000 },
+  ml: { family: "volume", size: 1 },
+  cl: { family: "volume", size: 10 },
+  dl: { family: "volume", size: 100 },
+  l: { family: "volume", size: 1000 },
+};
+
+function normaliseName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function matchesWord(name: string, keyword: string): boolean {
+  return ` ${name}`.includes(` ${keyword}`);
+}
+
+/**
+ * Works out which category an ingredient belongs in, using its own category
+ * if the backend gave one
+ * @param ingredient - The ingredient to place
+ */
+export function getIngredientCategory(
+  ingredient: Ingredient,
+): IngredientCategory {
+  if (ingredient.category) {
+    return ingredient.category;
+  }
+  const name = normaliseName(ingredient.name);
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) =>
+    keywords.some((keyword) => matchesWord(name, keyword)),
+  );
+  return match ? match[0] : "kolonial";
+}
+
+/**
+ * Checks whether an ingredient comes in the box. The front page lists what's
+ * in the box; when it's empty, everything but the pantry staples is assumed
+ * to be.
+ * @param name - The normalised name of the ingredient
+ * @param boxIngredients - The normalised names from the front page
+ */
+function isInBox(name: string, boxIngredients: string[]): boolean {
+  if (boxIngredients.length === 0) {
+    return !PANTRY_STAPLES.includes(name);
+  }
+  return boxIngredients.some(
+    (boxIngredient) =>
+      matchesWord(name, boxIngredient) || matchesWord(boxIngredient, name),
+  );
+}
+
+/**
+ * Converts summed amounts into the unit they read best in, e.g. 1500 g as
+ * `1,5 kg` and 150 ml as `1,5 dl`
+ */
+function toDisplayQuantity(
+  family: "mass" | "volume",
+  amount: number,
+): ShoppingListQuantity {
+  if (family === "mass") {
+    return amount >= 1000
+      ? { amount: amount / 1000, unit: "kg" }
+      : { amount, unit: "g" };
+  }
+  if (amount >= 1000) {
+    return { amount: amount / 1000, unit: "l" };
+  }
+  return amount >= 50
+    ? { amount: amount / 100, unit: "dl" }
+    : { amount, unit: "ml" };
+}
+
+/**
+ * Merges the ingredients of every recipe into one list per category.
+ * Ingredients with the same name are listed once, with their amounts summed
+ * where the units allow it: grams and kilograms are added up, as are
+ * millilitres, decilitres and litres, while other units are only added to
+ * the same unit.
+ * @param boxData - The box data, already scaled to the chosen servings
+ * @returns The non-empty sections in the order grønt, køl, kolonial. Within a
+ * section, what's in the box comes first, then the pantry staples, each in
+ * alphabetical order.
+ */
+export function buildShoppingList(boxData: BoxData): ShoppingListSection[] {
+  const boxIngredients = boxData.frontpage.ingredients.map(normaliseName);
+  const merged = new Map<
+    string,
+    { item: ShoppingListItem; totals: Map<string, number> }
+  >();
+
+  boxData.recipes
+    .flatMap(({ ingredients }) => ingredients)
+    .forEach((ingredient) => {
+      const key = normaliseName(ingredient.name);
+      if (!key) {
+        return;
+      }
+      let entry = merged.get(key);
+      if (!entry) {
+        entry = {
+          item: {
+            name: ingredient.name.trim(),
+            category: getIngredientCategory(ingredient),
+            quantities: [],
+            inBox: isInBox(key, boxIngredients),
+          },
+          totals: new Map(),
+        };
+        merged.set(key, entry);
+      }
+      if (ingredient.amount === undefined) {
+        return;
+      }
+      const unit = ingredient.unit ?? "";
+      const convertible = UNIT_FAMILIES[unit];
+      const totalKey = convertible ? convertible.family : unit;
+      const amount = ingredient.amount * (convertible?.size ?? 1);
+      entry.totals.set(totalKey, (entry.totals.get(totalKey) ?? 0) + amount);
+    });
+
+  const items = [...merged.values()].map(({ item, totals }) => ({
+    ...item,
+    quantities: [...totals].map(([key, amount]) =>
+      key === "mass" || key === "volume"
+        ? toDisplayQuantity(key, amount)
+        : { amount, ...(key && { unit: key }) },
+    ),
+  }));
+
+  return CATEGORY_ORDER.map((category) => ({
+    category,
+    heading: CATEGORY_HEADINGS[category],
+    items: items
+      .filter((item) => item.category === category)
+      .sort(
+        (a, b) =>
+          Number(b.inBox) - Number(a.inBox) ||
+          a.name.localeCompare(b.name, "da"),
+      ),
+  })).filter(({ items }) => items.length > 0);
+}
+
+/**
+ * Formats an item as a line of the shopping list, e.g. `✓ 600 g kylling`.
+ * Amounts in units that can't be added up are joined, e.g. `2 spsk + 1 dl olivenolie`.
+ * @param item - The item to format
+ */
+export function formatShoppingListItem({
+  name,
+  quantities,
+  inBox,
+}: ShoppingListItem): string {
+  const amounts = quantities
+    .map(({ amount, unit }) =>
+      [formatAmount(amount), unit].filter(Boolean).join(" "),
+    )
+    .join(" + ");
+  return `${inBox ? "✓" : "○"} ${amounts ? `${amounts} ${name}` : name}`;
+}
+
+/**
+ * Formats sections as markdown for the shopping list's richtext slot, with
+ * a bold heading for each category
+ * @param sections - The sections to list, see {@link buildShoppingList}
+ */
+export function formatShoppingListMarkdown(
+  sections: ShoppingListSection[],
+): string {
+  return sections
+    .map(({ heading, items }) =>
+      [
+        `**${escapeMarkdown(heading)}**`,
+        ...items.map((item) => escapeMarkdown(formatShoppingListItem(item))),
+      ].join("\n"),
+    )
+    .join("\n\n");
+}
+
+/**
+ * Splits the shopping list across as many pages as it needs. A section that
+ * doesn't fit continues on the next page under its heading again, and a
+ * heading is never left at the bottom of a page without any items.
+ * @param sections - The sections to list, see {@link buildShoppingList}
+ * @param slot - The list's slot, already fitted to the design's page size
+ * @returns The sections for each page, in order
+ */
+export function planShoppingListPages(
+  sections: ShoppingListSection[],
+  slot: RichtextSlot,
+): ShoppingListSection[][] {
+  const lineHeight = slot.fontSize * (slot.lineHeightEm ?? 1.4);
+  const measure = (text: string) =>
+    estimateTextHeight(text, slot.width, slot.fontSize, slot.lineHeightEm);
+
+  const pages: ShoppingListSection[][] = [[]];
+  let used = 0;
+  for (const section of sections) {
+    let items = section.items;
+    while (items.length > 0) {
+      const page = pages[pages.length - 1];
+      // Sections after the first are separated by a blank line
+      const gap = page.length > 0 ? lineHeight : 0;
+      let height = used + gap + measure(section.heading);
+      let count = 0;
+      while (count < items.length) {
+        const itemHeight = measure(formatShoppingListItem(items[count]));
+        if (height + itemHeight > slot.height) {
+          break;
+        }
+        height += itemHeight;
+        count++;
+      }
+
+      if (count === 0) {
+        if (page.length > 0) {
+          pages.push([]);
+          used = 0;
+          continue;
+        }
+        // An item taller than a whole page is still placed, on a page of its own
+        height += measure(formatShoppingListItem(items[0]));
+        count = 1;
+      }
+      page.push({ ...section, items: items.slice(0, count) });
+      items = items.slice(count);
+      used = height;
+      if (items.length > 0) {
+        pages.push([]);
+        used = 0;
+      }
+    }
+  }
+  return pages.filter((page) => page.length > 0);
+}
@@ -0,0 +1,256 @@
+import type { Box, BoxData } from "../../types";
+import { ApiError, fetchBoxData } from "../api";
+import {
+  countBatchPages,
+  createBatchRecipeBooks,
+  getBatchProgressFraction,
+  planBatchItems,
+} from "../batch_generation";
+import type { BatchRun } from "../batch_generation";
+import {
+  BookGenerationError,
+  GenerationCancelledError,
+  createGenerationRun,
+} from "../generation_run";
+import { uploadRecipeImages } from "../image_upload";
+import {
+  createAllRecipePages,
+  createDividerPage,
+  createFrontPage,
+} from "../recipe_page_generator";
+
+// The real module reads the backend host from the build, so it can't be loaded here
+jest.mock("../api", () => ({
+  ApiError: class extends Error {
+    constructor(
+      readonly status: number,
+      message: string,
+    ) {
+      super(message);
+    }
+  },
+  fetchBoxData: jest.fn(),
+}));
+jest.mock("../image_upload");
+jest.mock("../recipe_page_generator");
+
+const BOXES: Box[] = [
+  { id: "aktiv-hverdag", label: "Aktiv hverdag", templateId: "DAG2yR3gT7I" },
+  { id: "vegetarkassen", label: "Vegetarkassen", templateId: "DAG2yR3gT7I" },
+  { id: "veganer-kassen", label: "Veganer kassen", templateId: "DAG2yR3gT7I" },
+];
+
+const BOX_DATA: BoxData = {
+  frontpage: { title: "Uge 43", ingredients: [] },
+  recipes: [
+    { id: "r1", day: 1, title: "Kylling i karry", ingredients: [], method: [] },
+    { id: "r2", day: 2, title: "Linsesuppe", ingredients: [], method: [] },
+  ],
+};
+
+describe("batch_generation", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    jest
+      .mocked(fetchBoxData)
+      .mockResolvedValue({ data: BOX_DATA, fetchedAt: 0 });
+    jest
+      .mocked(uploadRecipeImages)
+      .mockResolvedValue({ images: [], failedUrls: [] });
+    jest.mocked(createAllRecipePages).mockImplementation(async (recipes) => {
+      const run = createGenerationRun(recipes);
+      return {
+        ...run,
+        recipes: run.recipes.map((recipe) => ({
+          ...recipe,
+          status: "created",
+          pageCount: 1,
+        })),
+      };
+    });
+  });
+
+  describe("planBatchItems", () => {
+    it("should list every selected week of every selected box, in box order", () => {
+      const items = planBatchItems(
+        BOXES,
+        ["veganer-kassen", "aktiv-hverdag"],
+        ["4326", "4426"],
+      );
+
+      expect(items.map(({ key }) => key)).toEqual([
+        "aktiv-hverdag:4326",
+        "aktiv-hverdag:4426",
+        "veganer-kassen:4326",
+        "veganer-kassen:4426",
+      ]);
+      expect(items[0].label).toBe("Aktiv hverdag, Uge 43 (19. okt – 25. okt)");
+    });
+
+    it("should return no items without a box or a week", () => {
+      expect(planBatchItems(BOXES, [], ["4326"])).toEqual([]);
+      expect(planBatchItems(BOXES, ["aktiv-hverdag"], [])).toEqual([]);
+    });
+  });
+
+  describe("getBatchProgressFraction", () => {
+    it("should weigh every item equally", () => {
+      expect(getBatchProgressFraction({ index: 1, count: 4, label: "" })).toBe(
+        0.25,
+      );
+      expect(
+        getBatchProgressFraction({
+          index: 1,
+          count: 4,
+          label: "",
+          step: { kind: "front_page" },
+          plan: { imageCount: 0, recipeCount: 1 },
+        }),
+      ).toBe(0.25);
+    });
+  });
+
+  describe("createBatchRecipeBooks", () => {
+    const items = planBatchItems(
+      BOXES,
+      ["aktiv-hverdag", "vegetarkassen"],
+      ["4326"],
+    );
+
+    it("should create a divider, front page and recipe pages for every item", async () => {
+      const run = await createBatchRecipeBooks(items);
+
+      expect(createDividerPage).toHaveBeenCalledWith(
+        "Vegetarkassen",
+        "Uge 43 (19. okt – 25. okt)",
+        expect.anything(),
+      );
+      expect(createFrontPage).toHaveBeenCalledTimes(2);
+      expect(run.items.map(({ status }) => status)).toEqual([
+        "created",
+        "created",
+      ]);
+      expect(countBatchPages(run)).toBe(8);
+    });
+
+    it("should rescale the recipes to the chosen servings", async () => {
+      jest.mocked(fetchBoxData).mockResolvedValue({
+        data: {
+          ...BOX_DATA,
+          recipes: [
+            {
+              ...BOX_DATA.recipes[0],
+              servings: 2,
+              ingredients: [{ amount: 100, unit: "g", name: "kylling" }],
+            },
+          ],
+        },
+        fetchedAt: 0,
+      });
+
+      await createBatchRecipeBooks(items, { servings: 4 });
+
+      expect(
+        jest.mocked(createAllRecipePages).mock.calls[0][0][0].ingredients,
+      ).toEqual([{ amount: 200, unit: "g", name: "kylling" }]);
+    });
+
+    it("should list the recipes that don't suit a box's diets", async () => {
+      const [vegetarian] = planBatchItems(
+        [{ ...BOXES[1], diets: ["vegetar"] }],
+        ["vegetarkassen"],
+        ["4326"],
+      );
+      jest.mocked(fetchBoxData).mockResolvedValueOnce({
+        data: {
+          ...BOX_DATA,
+          recipes: [
+            { ...BOX_DATA.recipes[0], diets: [] },
+            { ...BOX_DATA.recipes[1], diets: ["vegansk"] },
+          ],
+        },
+        fetchedAt: 0,
+      });
+
+      const run = await createBatchRecipeBooks([vegetarian]);
+
+      expect(run.items[0]).toMatchObject({
+        status: "created",
+        dietConflicts: [
+          {
+            path: "recipes[0].diets",
+            message: 'expected "vegetar", like the box',
+          },
+        ],
+      });
+    });
+
+    it("should move on to the next item when one fails", async () => {
+      jest
+        .mocked(fetchBoxData)
+        .mockRejectedValueOnce(new ApiError(404, "Not found"));
+
+      const run = await createBatchRecipeBooks(items);
+
+      expect(run.items[0]).toMatchObject({
+        status: "failed",
+        pageCount: 0,
+        error: { kind: "not_found" },
+      });
+      expect(run.items[1].status).toBe("created");
+    });
+
+    it("should count the pages of an item that failed partway", async () => {
+      jest
+        .mocked(createAllRecipePages)
+        .mockImplementationOnce(async (recipes) => {
+          const run = createGenerationRun(recipes);
+          throw new BookGenerationError(
+            "Failed",
+            {
+              ...run,
+              recipes: [{ ...run.recipes[0], pageCount: 1 }, run.recipes[1]],
+            },
+            new Error("Canva is down"),
+          );
+        });
+
+      const run = await createBatchRecipeBooks(items);
+
+      expect(run.items[0]).toMatchObject({ status: "failed", pageCount: 3 });
+    });
+
+    it("should stop and leave the remaining items pending when cancelled", async () => {
+      const cancel = new AbortController();
+      const updates: BatchRun[] = [];
+      jest
+        .mocked(createAllRecipePages)
+        .mockImplementationOnce(async (recipes) => {
+          cancel.abort();
+          throw new BookGenerationError(
+            "Cancelled",
+            createGenerationRun(recipes),
+            new GenerationCancelledError(),
+          );
+        });
+
+      const run = await createBatchRecipeBooks(items, {
+        signal: cancel.signal,
+        onUpdate: (next) => updates.push(next),
+      });
+
+      expect(run.cancelled).toBe(true);
+      expect(run.items[0]).toMatchObject({
+        status: "failed",
+        pageCount: 2,
+        error: { kind: "cancelled" },
+      });
+      expect(run.items[1].status).toBe("pending");
+      expect(fetchBoxData).toHaveBeenCalledTimes(1);
+      expect(updates[updates.length - 1]).toBe(run);
+    });
+  });
+});
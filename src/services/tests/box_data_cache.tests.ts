@@ -0,0 +1,135 @@
+import type { BoxData } from "../../types";
+import {
+  getTimeSinceUpdate,
+  readCachedBoxData,
+  writeCachedBoxData,
+} from "../box_data_cache";
+
+const createBoxData = (title: string): BoxData => ({
+  frontpage: { title, ingredients: ["Salt"] },
+  recipes: [
+    {
+      id: "r1",
+      day: 1,
+      title: "Kylling i karry",
+      ingredients: [{ amount: 100, unit: "g", name: "kylling" }],
+      method: [{ text: "Steg kyllingen" }],
+    },
+  ],
+});
+
+describe("box_data_cache", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe("readCachedBoxData", () => {
+    it("should return what was written for the same box and week", () => {
+      const entry = { data: createBoxData("Uge 43"), fetchedAt: 1000 };
+      writeCachedBoxData("aktiv-hverdag", "4326", entry);
+
+      expect(readCachedBoxData("aktiv-hverdag", "4326")).toEqual(entry);
+      expect(readCachedBoxData("aktiv-hverdag", "4426")).toBeUndefined();
+      expect(readCachedBoxData("vegetarkassen", "4326")).toBeUndefined();
+    });
+
+    it("should drop entries that no longer match the box data type", () => {
+      const key = "recipe-box-data:v2:aktiv-hverdag:4326";
+      window.localStorage.setItem(
+        key,
+        JSON.stringify({ data: { recipes: "none" }, fetchedAt: 1000 }),
+      );
+
+      expect(readCachedBoxData("aktiv-hverdag", "4326")).toBeUndefined();
+      expect(window.localStorage.getItem(key)).toBeNull();
+    });
+
+    it("should drop entries that aren't JSON", () => {
+      window.localStorage.setItem(
+        "recipe-box-data:v2:aktiv-hverdag:4326",
+        "{not json",
+      );
+
+      expect(readCachedBoxData("aktiv-hverdag", "4326")).toBeUndefined();
+    });
+  });
+
+  describe("writeCachedBoxData", () => {
+    it("should replace the entry for the same box and week", () => {
+      writeCachedBoxData("aktiv-hverdag", "4326", {
+        data: createBoxData("Old"),
+        fetchedAt: 1000,
+      });
+      writeCachedBoxData("aktiv-hverdag", "4326", {
+        data: createBoxData("New"),
+        fetchedAt: 2000,
+      });
+
+      expect(
+        readCachedBoxData("aktiv-hverdag", "4326")?.data.frontpage.title,
+      ).toBe("New");
+    });
+
+    it("should evict the oldest entries once there are too many", () => {
+      for (let week = 1; week <= 21; week++) {
+        writeCachedBoxData(
+          "aktiv-hverdag",
+          String(week).padStart(2, "0") + "26",
+          {
+            data: createBoxData(`Uge ${week}`),
+            fetchedAt: week * 1000,
+          },
+        );
+      }
+
+      expect(readCachedBoxData("aktiv-hverdag", "0126")).toBeUndefined();
+      expect(readCachedBoxData("aktiv-hverdag", "0226")).toBeDefined();
+      expect(readCachedBoxData("aktiv-hverdag", "2126")).toBeDefined();
+    });
+
+    it("should leave other keys in storage alone", () => {
+      window.localStorage.setItem("other", "value");
+
+      writeCachedBoxData("aktiv-hverdag", "4326", {
+        data: createBoxData("Uge 43"),
+        fetchedAt: 1000,
+      });
+
+      expect(window.localStorage.getItem("other")).toBe("value");
+    });
+  });
+
+  describe("getTimeSinceUpdate", () => {
+    const NOW = 10 * 24 * 60 * 60_000;
+
+    it("should work out how long ago the data was fetched", () => {
+      expect(getTimeSinceUpdate(NOW - 30_000, NOW)).toEqual({
+        unit: "minute",
+        count: 0,
+      });
+      expect(getTimeSinceUpdate(NOW - 5 * 60_000, NOW)).toEqual({
+        unit: "minute",
+        count: 5,
+      });
+      expect(getTimeSinceUpdate(NOW - 3 * 60 * 60_000, NOW)).toEqual({
+        unit: "hour",
+        count: 3,
+      });
+      expect(getTimeSinceUpdate(NOW - 30 * 60 * 60_000, NOW)).toEqual({
+        unit: "day",
+        count: 1,
+      });
+      expect(getTimeSinceUpdate(NOW - 4 * 24 * 60 * 60_000, NOW)).toEqual({
+        unit: "day",
+        count: 4,
+      });
+    });
+
+    it("should treat times in the future as less than a minute ago", () => {
+      expect(getTimeSinceUpdate(NOW + 60_000, NOW)).toEqual({
+        unit: "minute",
+        count: 0,
+      });
+    });
+  });
+});
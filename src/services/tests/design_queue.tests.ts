@@ -0,0 +1,136 @@
+import { CanvaError } from "@canva/error";
+import { DesignCallQueue, isRateLimited } from "../design_queue";
+import type { DesignQueueProgress } from "../design_queue";
+
+const rateLimited = () =>
+  new CanvaError({ code: "rate_limited", message: "Too many requests" });
+
+describe("design_queue", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  describe("isRateLimited", () => {
+    it("should only match rate limit errors from Canva", () => {
+      expect(isRateLimited(rateLimited())).toBe(true);
+      expect(
+        isRateLimited(
+          new CanvaError({ code: "quota_exceeded", message: "Full" }),
+        ),
+      ).toBe(false);
+      expect(isRateLimited(new Error("rate_limited"))).toBe(false);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should double the delay for each attempt up to the maximum", () => {
+      const queue = new DesignCallQueue({
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+        random: () => 1,
+      });
+
+      expect(
+        [1, 2, 3, 4, 5].map((attempt) => queue.getRetryDelay(attempt)),
+      ).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it("should randomise the second half of the delay", () => {
+      const queue = new DesignCallQueue({ baseDelayMs: 100, random: () => 0 });
+
+      expect(queue.getRetryDelay(1)).toBe(50);
+    });
+  });
+
+  describe("run", () => {
+    it("should retry rate-limited calls after backing off", async () => {
+      const sleep = jest.fn(() => Promise.resolve());
+      const queue = new DesignCallQueue({
+        baseDelayMs: 100,
+        sleep,
+        random: () => 1,
+      });
+      const task = jest
+        .fn()
+        .mockRejectedValueOnce(rateLimited())
+        .mockRejectedValueOnce(rateLimited())
+        .mockResolvedValue("done");
+
+      await expect(queue.run(task)).resolves.toBe("done");
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it("should give up after the maximum number of retries", async () => {
+      const queue = new DesignCallQueue({
+        maxRetries: 2,
+        sleep: () => Promise.resolve(),
+      });
+      const task = jest.fn().mockRejectedValue(rateLimited());
+
+      await expect(queue.run(task)).rejects.toBeInstanceOf(CanvaError);
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry other errors", async () => {
+      const queue = new DesignCallQueue({ sleep: () => Promise.resolve() });
+      const task = jest.fn().mockRejectedValue(new Error("Invalid element"));
+
+      await expect(queue.run(task)).rejects.toThrow("Invalid element");
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("should never run more calls at once than the concurrency cap", async () => {
+      const queue = new DesignCallQueue({ concurrency: 2 });
+      let active = 0;
+      let maxActive = 0;
+      const task = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await Promise.resolve();
+        await Promise.resolve();
+        active--;
+      };
+
+      await Promise.all(Array.from({ length: 6 }, () => queue.run(task)));
+
+      expect(maxActive).toBe(2);
+    });
+
+    it("should run calls in the order they were queued", async () => {
+      const queue = new DesignCallQueue();
+      const order: number[] = [];
+
+      await Promise.all(
+        [1, 2, 3].map((n) =>
+          queue.run(async () => {
+            order.push(n);
+          }),
+        ),
+      );
+
+      expect(order).toEqual([1, 2, 3]);
+    });
+
+    it("should report progress and retries", async () => {
+      const queue = new DesignCallQueue({
+        baseDelayMs: 100,
+        sleep: () => Promise.resolve(),
+        random: () => 1,
+      });
+      const progress: DesignQueueProgress[] = [];
+      const stopListening = queue.onProgress((event) => progress.push(event));
+
+      await queue.run(
+        jest.fn().mockRejectedValueOnce(rateLimited()).mockResolvedValue(1),
+      );
+      stopListening();
+      await queue.run(() => Promise.resolve(2));
+
+      expect(progress).toEqual([
+        { completed: 0, total: 1, retrying: { attempt: 1, delayMs: 100 } },
+        { completed: 1, total: 1 },
+      ]);
+    });
+  });
+});
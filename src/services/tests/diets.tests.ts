@@ -0,0 +1,28 @@
+import { getDietLabels, meetsDiet } from "../diets";
+
+describe("diets", () => {
+  describe("meetsDiet", () => {
+    it("should accept a recipe tagged with the diet", () => {
+      expect(meetsDiet(["glutenfri"], "glutenfri")).toBe(true);
+    });
+
+    it("should treat a vegan recipe as vegetarian and lactose free", () => {
+      expect(meetsDiet(["vegansk"], "vegetar")).toBe(true);
+      expect(meetsDiet(["vegansk"], "laktosefri")).toBe(true);
+      expect(meetsDiet(["vegansk"], "glutenfri")).toBe(false);
+    });
+
+    it("should not treat a vegetarian recipe as vegan", () => {
+      expect(meetsDiet(["vegetar"], "vegansk")).toBe(false);
+    });
+  });
+
+  describe("getDietLabels", () => {
+    it("should list the labels in a fixed order without duplicates", () => {
+      expect(getDietLabels(["laktosefri", "vegetar", "vegetar"])).toEqual([
+        "Vegetar",
+        "Laktosefri",
+      ]);
+    });
+  });
+});
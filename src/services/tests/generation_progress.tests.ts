@@ -0,0 +1,78 @@
+import {
+  estimateProgress,
+  formatDuration,
+  getProgressFraction,
+} from "../generation_progress";
+
+describe("generation_progress", () => {
+  const plan = { imageCount: 3, recipeCount: 5 };
+
+  describe("getProgressFraction", () => {
+    it("should count photos, the front page, the shopping list and recipes as one unit each", () => {
+      expect(
+        getProgressFraction({ kind: "images", completed: 2, total: 3 }, plan),
+      ).toBe(0.2);
+      expect(getProgressFraction({ kind: "front_page" }, plan)).toBe(0.3);
+      expect(
+        getProgressFraction(
+          { kind: "shopping_list", page: 1, pageCount: 2 },
+          plan,
+        ),
+      ).toBe(0.4);
+      expect(
+        getProgressFraction(
+          {
+            kind: "recipe",
+            index: 0,
+            count: 5,
+            title: "Risotto",
+            page: 1,
+            pageCount: 1,
+          },
+          plan,
+        ),
+      ).toBe(0.5);
+    });
+
+    it("should count finished pages of a recipe that spans several pages", () => {
+      expect(
+        getProgressFraction(
+          {
+            kind: "recipe",
+            index: 2,
+            count: 5,
+            title: "Lasagne",
+            page: 2,
+            pageCount: 2,
+          },
+          plan,
+        ),
+      ).toBe(0.75);
+    });
+  });
+
+  describe("estimateProgress", () => {
+    it("should not estimate the time left from too little progress", () => {
+      expect(estimateProgress(0.01, 1000, 3000)).toEqual({
+        fraction: 0.01,
+        elapsedMs: 2000,
+      });
+    });
+
+    it("should extrapolate the time left from the time spent so far", () => {
+      expect(estimateProgress(0.25, 0, 10000)).toEqual({
+        fraction: 0.25,
+        elapsedMs: 10000,
+        remainingMs: 30000,
+      });
+    });
+  });
+
+  describe("formatDuration", () => {
+    it("should format minutes and zero-padded seconds", () => {
+      expect(formatDuration(0)).toBe("0:00");
+      expect(formatDuration(65_000)).toBe("1:05");
+      expect(formatDuration(600_400)).toBe("10:00");
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { openDesign } from "@canva/design";
+import type { DesignEditing, PageId } from "@canva/design";
+import type { Recipe } from "../../types";
+import {
+  GenerationCancelledError,
+  countCreatedPages,
+  createGenerationRun,
+  hasCreatedContent,
+  hasFailures,
+  isRunComplete,
+  rollbackGenerationRun,
+  throwIfCancelled,
+  updateFrontPage,
+  updateRecipe,
+  updateShoppingList,
+} from "../generation_run";
+
+const createRecipe = (id: string): Recipe => ({
+  id,
+  day: 1,
+  title: `Recipe ${id}`,
+  ingredients: [],
+  method: [],
+});
+
+type FakeElement = { type: string; locked: boolean; text?: string };
+
+/**
+ * A page whose element list records deletions, since the design SDK is mocked in tests
+ */
+const createPage = (id: string, elements: FakeElement[]) => {
+  const remaining = [...elements];
+  const page = {
+    type: "absolute",
+    id: id as PageId,
+    elements: {
+      toArray: () =>
+        remaining.map((element) => ({
+          ...element,
+          source: element,
+          text: { readPlaintext: () => element.text ?? "" },
+        })),
+      delete: (element: { source: FakeElement }) => {
+        remaining.splice(remaining.indexOf(element.source), 1);
+      },
+    },
+  };
+  return { page, remaining };
+};
+
+describe("generation_run", () => {
+  // This function has already been mocked in jest.setup.ts, this is just for type casting
+  const mockOpenDesign = jest.mocked(openDesign);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  describe("createGenerationRun", () => {
+    it("should start with every part of the book pending", () => {
+      const run = createGenerationRun([createRecipe("a"), createRecipe("b")]);
+
+      expect(run.frontPage).toEqual({ status: "pending", texts: [] });
+      expect(run.shoppingList).toEqual({
+        status: "pending",
+        pageCount: 0,
+        pageIds: [],
+      });
+      expect(
+        run.recipes.map(({ recipeId, status }) => [recipeId, status]),
+      ).toEqual([
+        ["a", "pending"],
+        ["b", "pending"],
+      ]);
+      expect(hasFailures(run)).toBe(false);
+      expect(hasCreatedContent(run)).toBe(false);
+    });
+  });
+
+  describe("updateRecipe", () => {
+    it("should return a new run without changing the original", () => {
+      const run = createGenerationRun([createRecipe("a"), createRecipe("b")]);
+
+      const updated = updateRecipe(run, 1, { status: "failed", pageCount: 1 });
+
+      expect(updated.recipes[1]).toMatchObject({
+        status: "failed",
+        pageCount: 1,
+      });
+      expect(updated.recipes[0]).toBe(run.recipes[0]);
+      expect(run.recipes[1].status).toBe("pending");
+      expect(hasFailures(updated)).toBe(true);
+      expect(hasCreatedContent(updated)).toBe(true);
+    });
+  });
+
+  describe("countCreatedPages", () => {
+    it("should count recipe and shopping list pages and the front page once it's complete", () => {
+      let run = createGenerationRun([createRecipe("a"), createRecipe("b")]);
+      run = updateShoppingList(run, { status: "created", pageCount: 2 });
+      run = updateRecipe(run, 0, { status: "created", pageCount: 2 });
+      run = updateRecipe(run, 1, { status: "failed", pageCount: 1 });
+
+      expect(countCreatedPages(run)).toBe(5);
+      expect(
+        countCreatedPages(updateFrontPage(run, { status: "created" })),
+      ).toBe(6);
+    });
+  });
+
+  describe("isRunComplete", () => {
+    it("should only be complete once every part of the book is created", () => {
+      let run = createGenerationRun([createRecipe("a")]);
+      run = updateRecipe(run, 0, { status: "created", pageCount: 1 });
+      run = updateFrontPage(run, { status: "created" });
+
+      expect(isRunComplete(run)).toBe(false);
+      expect(
+        isRunComplete(updateShoppingList(run, { status: "created" })),
+      ).toBe(true);
+    });
+  });
+
+  describe("throwIfCancelled", () => {
+    it("should throw once the signal is aborted", () => {
+      const controller = new AbortController();
+
+      expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+      controller.abort();
+      expect(() => throwIfCancelled(controller.signal)).toThrow(
+        GenerationCancelledError,
+      );
+    });
+  });
+
+  describe("rollbackGenerationRun", () => {
+    it("should empty created pages and remove only the front page elements the run added", async () => {
+      const frontPage = createPage("front", [
+        { type: "text", locked: false, text: "Uge 12" },
+        { type: "text", locked: false, text: "User's own note" },
+        { type: "rect", locked: false },
+      ]);
+      const recipePage = createPage("recipe-a", [
+        { type: "text", locked: false, text: "Recipe a" },
+        { type: "rect", locked: false },
+      ]);
+      const shoppingListPage = createPage("shopping-list", [
+        { type: "richtext", locked: false },
+      ]);
+      const otherPage = createPage("other", [
+        { type: "text", locked: false, text: "Uge 12" },
+      ]);
+      const pages = [frontPage, shoppingListPage, recipePage, otherPage];
+      const pageRefs = pages.map(() => ({ type: "absolute", locked: false }));
+      const sync = jest.fn();
+      mockOpenDesign.mockImplementation(async (_options, callback) => {
+        const session = {
+          pageRefs: { toArray: () => pageRefs },
+          helpers: {
+            openPage: async (pageRef, pageCallback) => {
+              const { page } = pages[pageRefs.indexOf(pageRef)];
+              await pageCallback({ page });
+            },
+          },
+          sync,
+        };
+        await callback(session as unknown as DesignEditing.AllPagesSession);
+      });
+
+      let run = createGenerationRun([createRecipe("a")]);
+      run = updateFrontPage(run, {
+        status: "created",
+        pageId: "front" as PageId,
+        texts: ["Uge 12"],
+      });
+      run = updateShoppingList(run, {
+        status: "created",
+        pageCount: 1,
+        pageIds: ["shopping-list" as PageId],
+      });
+      run = updateRecipe(run, 0, {
+        status: "failed",
+        pageCount: 1,
+        pageIds: ["recipe-a" as PageId],
+      });
+
+      const result = await rollbackGenerationRun(run);
+
+      expect(result).toEqual({ removedElements: 1, clearedPages: 2 });
+      expect(frontPage.remaining.map(({ text }) => text)).toEqual([
+        "User's own note",
+        undefined,
+      ]);
+      expect(shoppingListPage.remaining).toEqual([]);
+      expect(recipePage.remaining).toEqual([]);
+      expect(otherPage.remaining).toHaveLength(1);
+      expect(sync).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { upload } from "@canva/asset";
+import type { ImageRef } from "@canva/asset";
+import type { Recipe } from "../../types";
+import {
+  getImageMimeType,
+  hashUrl,
+  uploadImage,
+  uploadRecipeImages,
+} from "../image_upload";
+
+const createRecipe = (id: string, images: Recipe["images"]): Recipe => ({
+  id,
+  day: 1,
+  title: `Recipe ${id}`,
+  ingredients: [],
+  method: [],
+  images,
+});
+
+describe("image_upload", () => {
+  // This function has already been mocked in jest.setup.ts, this is just for type casting
+  const mockUpload = jest.mocked(upload);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    mockUpload.mockImplementation(async (options) => ({
+      ref: `ref:${options.url}` as ImageRef,
+      whenUploaded: () => Promise.resolve(),
+    }));
+  });
+
+  describe("hashUrl", () => {
+    it("should return the same hash for the same URL", () => {
+      expect(hashUrl("https://example.com/a.jpg")).toBe(
+        hashUrl("https://example.com/a.jpg"),
+      );
+    });
+
+    it("should return different hashes for different URLs", () => {
+      expect(hashUrl("https://example.com/a.jpg")).not.toBe(
+        hashUrl("https://example.com/b.jpg"),
+      );
+    });
+  });
+
+  describe("getImageMimeType", () => {
+    it("should map file extensions to MIME types", () => {
+      expect(getImageMimeType("https://example.com/dish.JPG")).toBe(
+        "image/jpeg",
+      );
+      expect(getImageMimeType("https://example.com/dish.png?w=800")).toBe(
+        "image/png",
+      );
+    });
+
+    it("should return undefined for unsupported extensions", () => {
+      expect(getImageMimeType("https://example.com/dish.gif")).toBeUndefined();
+      expect(getImageMimeType("https://example.com/dish")).toBeUndefined();
+    });
+  });
+
+  describe("uploadImage", () => {
+    it("should upload each URL only once", async () => {
+      const url = "https://example.com/upload-once.jpg";
+
+      const [first, second] = await Promise.all([
+        uploadImage(url, "Dish"),
+        uploadImage(url, "Dish"),
+      ]);
+
+      expect(first).toBe(second);
+      expect(mockUpload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry URLs that failed to upload", async () => {
+      const url = "https://example.com/retry.jpg";
+      mockUpload.mockRejectedValueOnce(new Error("network error"));
+
+      await expect(uploadImage(url, "Dish")).rejects.toThrow("network error");
+      await expect(uploadImage(url, "Dish")).resolves.toBe(`ref:${url}`);
+      expect(mockUpload).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject unsupported image types without uploading", async () => {
+      await expect(
+        uploadImage("https://example.com/animation.gif", "Dish"),
+      ).rejects.toThrow("Unsupported image type");
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("uploadRecipeImages", () => {
+    it("should return the photos of each recipe in order", async () => {
+      const recipes = [
+        createRecipe("1", {
+          hero: "https://example.com/order-1.jpg",
+          steps: [
+            "https://example.com/order-1a.jpg",
+            "https://example.com/order-1b.jpg",
+          ],
+        }),
+        createRecipe("2", undefined),
+        createRecipe("3", { steps: ["https://example.com/order-3a.png"] }),
+      ];
+
+      const { images, failedUrls } = await uploadRecipeImages(recipes);
+
+      expect(failedUrls).toEqual([]);
+      expect(images).toEqual([
+        {
+          hero: "ref:https://example.com/order-1.jpg",
+          steps: [
+            "ref:https://example.com/order-1a.jpg",
+            "ref:https://example.com/order-1b.jpg",
+          ],
+        },
+        { hero: undefined, steps: [] },
+        { hero: undefined, steps: ["ref:https://example.com/order-3a.png"] },
+      ]);
+    });
+
+    it("should report progress for every image", async () => {
+      const onProgress = jest.fn();
+      const recipes = [
+        createRecipe("1", {
+          hero: "https://example.com/progress-1.jpg",
+          steps: ["https://example.com/progress-1a.jpg"],
+        }),
+      ];
+
+      await uploadRecipeImages(recipes, onProgress);
+
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ completed: 2, total: 2 }),
+      );
+    });
+
+    it("should leave out photos that fail to upload", async () => {
+      const failing = "https://example.com/failing.jpg";
+      mockUpload.mockImplementation(async (options) => {
+        if (options.url === failing) {
+          throw new Error("network error");
+        }
+        return {
+          ref: `ref:${options.url}` as ImageRef,
+          whenUploaded: () => Promise.resolve(),
+        };
+      });
+
+      const { images, failedUrls } = await uploadRecipeImages([
+        createRecipe("1", {
+          hero: failing,
+          steps: ["https://example.com/not-failing.jpg"],
+        }),
+      ]);
+
+      expect(failedUrls).toEqual([failing]);
+      expect(images).toEqual([
+        {
+          hero: undefined,
+          steps: ["ref:https://example.com/not-failing.jpg"],
+        },
+      ]);
+    });
+
+    it("should keep the later step photos in their steps when one fails", async () => {
+      const failing = "https://example.com/step-1.jpg";
+      mockUpload.mockImplementation(async (options) => {
+        if (options.url === failing) {
+          throw new Error("network error");
+        }
+        return {
+          ref: `ref:${options.url}` as ImageRef,
+          whenUploaded: () => Promise.resolve(),
+        };
+      });
+
+      const { images } = await uploadRecipeImages([
+        createRecipe("1", {
+          steps: [failing, "https://example.com/step-2.jpg"],
+        }),
+      ]);
+
+      expect(images[0].steps).toEqual([
+        undefined,
+        "ref:https://example.com/step-2.jpg",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { BoxData, Recipe } from "../../types";
+import {
+  DEFAULT_SERVINGS,
+  formatAmount,
+  formatIngredient,
+  parseIngredient,
+  scaleBoxData,
+  scaleRecipe,
+} from "../ingredients";
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: "1",
+  day: 1,
+  title: "Kylling i karry",
+  ingredients: [
+    { amount: 300, unit: "g", name: "kylling" },
+    { amount: 0.5, unit: "dl", name: "fløde" },
+    { name: "Salt og peber" },
+  ],
+  method: [],
+  ...overrides,
+});
+
+describe("ingredients", () => {
+  describe("parseIngredient", () => {
+    it.each([
+      ["100g kylling", { amount: 100, unit: "g", name: "kylling" }],
+      ["2 spsk olivenolie", { amount: 2, unit: "spsk", name: "olivenolie" }],
+      ["½ dl fløde", { amount: 0.5, unit: "dl", name: "fløde" }],
+      ["1½ kg kartofler", { amount: 1.5, unit: "kg", name: "kartofler" }],
+      ["1 1/2 dl mælk", { amount: 1.5, unit: "dl", name: "mælk" }],
+      ["1/4 tsk chili", { amount: 0.25, unit: "tsk", name: "chili" }],
+      ["2,5 dl vand", { amount: 2.5, unit: "dl", name: "vand" }],
+      ["2 dåser tomater", { amount: 2, unit: "dåse", name: "tomater" }],
+      ["3 spsk. soja", { amount: 3, unit: "spsk", name: "soja" }],
+      ["1 løg", { amount: 1, name: "løg" }],
+      ["1 Broccoli", { amount: 1, name: "Broccoli" }],
+    ])("should parse %j", (text, ingredient) => {
+      expect(parseIngredient(text)).toEqual(ingredient);
+    });
+
+    it("should keep lines without an amount as a name", () => {
+      expect(parseIngredient(" Salt og  peber ")).toEqual({
+        name: "Salt og peber",
+      });
+    });
+
+    it("should split off notes after a comma or in parentheses", () => {
+      expect(parseIngredient("2 løg, finthakket")).toEqual({
+        amount: 2,
+        name: "løg",
+        note: "finthakket",
+      });
+      expect(parseIngredient("1 kylling (ca. 1,2 kg)")).toEqual({
+        amount: 1,
+        name: "kylling",
+        note: "ca. 1,2 kg",
+      });
+    });
+
+    it("should keep ranges and bare amounts as they are", () => {
+      expect(parseIngredient("2-3 fed hvidløg")).toEqual({
+        name: "2-3 fed hvidløg",
+      });
+      expect(parseIngredient("200 g")).toEqual({ name: "200 g" });
+    });
+  });
+
+  describe("formatAmount", () => {
+    it.each([
+      [2, "2"],
+      [0.5, "½"],
+      [1.5, "1½"],
+      [2 / 3, "⅔"],
+      [0.75, "¾"],
+      [1.2, "1,2"],
+      [0.999, "1"],
+      [93.75, "94"],
+    ])("should format %d as %s", (amount, text) => {
+      expect(formatAmount(amount)).toBe(text);
+    });
+  });
+
+  describe("formatIngredient", () => {
+    it("should format amount, unit, name and note", () => {
+      expect(
+        formatIngredient({
+          amount: 0.5,
+          unit: "dl",
+          name: "fløde",
+          note: "kan udelades",
+        }),
+      ).toBe("½ dl fløde, kan udelades");
+      expect(formatIngredient({ amount: 1, name: "løg" })).toBe("1 løg");
+      expect(formatIngredient({ name: "Salt og peber" })).toBe("Salt og peber");
+    });
+
+    it("should round-trip legacy lines", () => {
+      expect(formatIngredient(parseIngredient("2 spsk olivenolie"))).toBe(
+        "2 spsk olivenolie",
+      );
+      expect(formatIngredient(parseIngredient("½ dl fløde"))).toBe(
+        "½ dl fløde",
+      );
+    });
+  });
+
+  describe("scaleRecipe", () => {
+    it("should rescale every amount from the default servings", () => {
+      const scaled = scaleRecipe(createRecipe(), DEFAULT_SERVINGS * 2);
+
+      expect(scaled.servings).toBe(DEFAULT_SERVINGS * 2);
+      expect(scaled.ingredients).toEqual([
+        { amount: 600, unit: "g", name: "kylling" },
+        { amount: 1, unit: "dl", name: "fløde" },
+        { name: "Salt og peber" },
+      ]);
+    });
+
+    it("should rescale from the recipe's own servings", () => {
+      const scaled = scaleRecipe(createRecipe({ servings: 4 }), 3);
+
+      expect(scaled.ingredients.map(formatIngredient)).toEqual([
+        "225 g kylling",
+        "0,4 dl fløde",
+        "Salt og peber",
+      ]);
+    });
+  });
+
+  describe("scaleBoxData", () => {
+    it("should rescale every recipe and leave the front page alone", () => {
+      const boxData: BoxData = {
+        frontpage: { title: "Uge 43", ingredients: ["Kylling"] },
+        recipes: [createRecipe(), createRecipe({ id: "2", servings: 1 })],
+      };
+
+      const scaled = scaleBoxData(boxData, 4);
+
+      expect(scaled.frontpage).toBe(boxData.frontpage);
+      expect(scaled.recipes.map(({ ingredients }) => ingredients[0])).toEqual([
+        { amount: 600, unit: "g", name: "kylling" },
+        { amount: 1200, unit: "g", name: "kylling" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import type { TableElement } from "@canva/design";
+import { TableWrapper } from "../../../utils/table_wrapper";
+import { createNutritionTable, formatAllergens } from "../nutrition";
+
+describe("nutrition", () => {
+  describe("formatAllergens", () => {
+    it("should list each allergen with its icon, in order", () => {
+      expect(formatAllergens(["gluten", "mælk"])).toBe("🌾 Gluten   🥛 Mælk");
+    });
+
+    it("should say when a recipe has no allergens", () => {
+      expect(formatAllergens([])).toBe("ingen");
+    });
+  });
+
+  describe("createNutritionTable", () => {
+    const nutrition = {
+      energyKj: 2100,
+      energyKcal: 502,
+      protein: 31.25,
+      fat: 20,
+      carbohydrates: 45.5,
+    };
+    const readTable = (table: TableElement) =>
+      table.rows.map(({ cells }) =>
+        cells.map((cell) => (cell?.type === "string" ? cell.value : "")),
+      );
+
+    it("should list the values per serving and per 100 g", () => {
+      const table = createNutritionTable({ ...nutrition, servingWeight: 500 });
+
+      expect(readTable(table)).toEqual([
+        ["Næringsindhold", "", ""],
+        ["", "Pr. portion", "Pr. 100 g"],
+        ["Energi", "2100 kJ / 502 kcal", "420 kJ / 100,4 kcal"],
+        ["Protein", "31,3 g", "6,3 g"],
+        ["Fedt", "20 g", "4 g"],
+        ["Kulhydrat", "45,5 g", "9,1 g"],
+      ]);
+    });
+
+    it("should merge the title across the table and shade the header row", () => {
+      const table = createNutritionTable({ ...nutrition, servingWeight: 500 });
+
+      expect(table.rows[0].cells[0]).toMatchObject({ colSpan: 3 });
+      expect(
+        table.rows[1].cells.map((cell) => cell?.attributes?.backgroundColor),
+      ).toEqual(["#EEF5ED", "#EEF5ED", "#EEF5ED"]);
+      // Building a wrapper from the element checks spans and the cell limit
+      expect(() => TableWrapper.fromElement(table)).not.toThrow();
+    });
+
+    it("should leave out the per 100 g column without a serving weight", () => {
+      const table = createNutritionTable(nutrition);
+
+      expect(readTable(table).slice(0, 3)).toEqual([
+        ["Næringsindhold", ""],
+        ["", "Pr. portion"],
+        ["Energi", "2100 kJ / 502 kcal"],
+      ]);
+    });
+  });
+});
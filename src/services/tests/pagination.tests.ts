@@ -0,0 +1,191 @@
+import { scalePageLayout } from "../../templates";
+import { classicTemplate } from "../../templates/classic";
+import type { Recipe } from "../../types";
+import { estimateTextHeight, planRecipePages } from "../pagination";
+
+const layout = classicTemplate.recipePage;
+const pageHeight = classicTemplate.page.height;
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: "1",
+  day: 1,
+  title: "Kylling i karry",
+  ingredients: [
+    { amount: 100, unit: "g", name: "kylling" },
+    { amount: 1, name: "løg" },
+  ],
+  method: [
+    { header: "Inden du begynder", text: "Tænd ovnen til 180°C" },
+    { text: "Server med ris" },
+  ],
+  ...overrides,
+});
+
+const longStep = (n: number) => ({
+  header: `Trin ${n}`,
+  text: "Hæld 100g kylling i en skål og tilsæt 100g egg, 100g potato, 100g carrot og 100g broccoli. ".repeat(
+    3,
+  ),
+});
+
+describe("estimateTextHeight", () => {
+  it("should count one line per short paragraph", () => {
+    expect(estimateTextHeight("a\nb\nc", 500, 10)).toBeCloseTo(3 * 10 * 1.4);
+  });
+
+  it("should wrap long paragraphs", () => {
+    // 200px at 10px per character fits 20 characters per line
+    expect(estimateTextHeight("x".repeat(50), 200, 20)).toBeCloseTo(
+      3 * 20 * 1.4,
+    );
+  });
+
+  it("should count empty paragraphs as a line", () => {
+    expect(estimateTextHeight("a\n\nb", 500, 10)).toBeCloseTo(3 * 10 * 1.4);
+  });
+});
+
+describe("planRecipePages", () => {
+  it("should fit a short recipe on one page", () => {
+    const recipe = createRecipe();
+    const pages = planRecipePages(recipe, layout);
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0].continued).toBe(false);
+    expect(pages[0].sections).toEqual([
+      expect.objectContaining({
+        kind: "ingredients",
+        heading: layout.ingredientsHeading,
+        ingredients: ["100 g kylling", "1 løg"],
+      }),
+      expect.objectContaining({
+        kind: "method",
+        heading: layout.methodHeading,
+        steps: recipe.method,
+      }),
+    ]);
+  });
+
+  it("should continue long methods on extra pages without splitting steps", () => {
+    const method = Array.from({ length: 10 }, (_, i) => longStep(i + 1));
+    const pages = planRecipePages(createRecipe({ method }), layout);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.slice(1).every((page) => page.continued)).toBe(true);
+
+    const placedSteps = pages.flatMap((page) =>
+      page.sections.flatMap((section) =>
+        section.kind === "method" ? section.steps : [],
+      ),
+    );
+    expect(placedSteps).toEqual(method);
+  });
+
+  it("should continue step numbering on extra pages", () => {
+    const method = Array.from({ length: 10 }, (_, i) => longStep(i + 1));
+    const pages = planRecipePages(createRecipe({ method }), layout);
+
+    const methodSections = pages.flatMap((page) =>
+      page.sections.flatMap((section) =>
+        section.kind === "method" ? [section] : [],
+      ),
+    );
+    const expectedNumbers = methodSections.map(
+      (_, i) =>
+        1 +
+        methodSections
+          .slice(0, i)
+          .reduce((count, section) => count + section.steps.length, 0),
+    );
+    expect(methodSections.map((section) => section.firstStepNumber)).toEqual(
+      expectedNumbers,
+    );
+  });
+
+  it("should keep every section above the bottom margin", () => {
+    const method = Array.from({ length: 10 }, (_, i) => longStep(i + 1));
+    const bottomMargin =
+      pageHeight - (layout.method.top + layout.method.height);
+    const pages = planRecipePages(createRecipe({ method }), layout);
+
+    for (const page of pages) {
+      for (const section of page.sections) {
+        expect(section.body.top + section.body.height).toBeLessThanOrEqual(
+          pageHeight - bottomMargin,
+        );
+      }
+    }
+  });
+
+  it("should continue long ingredient lists before the method", () => {
+    const ingredients = Array.from({ length: 30 }, (_, i) => `Ingrediens ${i}`);
+    const pages = planRecipePages(
+      createRecipe({ ingredients: ingredients.map((name) => ({ name })) }),
+      layout,
+    );
+
+    expect(pages[0].sections.map((section) => section.kind)).toEqual([
+      "ingredients",
+    ]);
+    expect(pages[1].sections.map((section) => section.kind)).toEqual([
+      "ingredients",
+      "method",
+    ]);
+    expect(pages[1].sections[0].heading.top).toBe(layout.day.top);
+
+    const placedIngredients = pages.flatMap((page) =>
+      page.sections.flatMap((section) =>
+        section.kind === "ingredients" ? section.ingredients : [],
+      ),
+    );
+    expect(placedIngredients).toEqual(ingredients);
+  });
+
+  it("should fit more on taller pages", () => {
+    const method = Array.from({ length: 10 }, (_, i) => longStep(i + 1));
+    const recipe = createRecipe({ method });
+
+    const regular = planRecipePages(recipe, layout);
+    const tall = planRecipePages(
+      recipe,
+      scalePageLayout(classicTemplate, {
+        width: classicTemplate.page.width,
+        height: pageHeight * 2,
+      }).recipePage,
+    );
+
+    expect(tall.length).toBeLessThan(regular.length);
+  });
+
+  it("should keep the nutrition slot free on the last page", () => {
+    const method = [longStep(1), longStep(2)];
+    const nutrition = {
+      energyKj: 2100,
+      energyKcal: 500,
+      protein: 30,
+      fat: 20,
+      carbohydrates: 45,
+    };
+
+    const withoutTable = planRecipePages(createRecipe({ method }), layout);
+    const pages = planRecipePages(createRecipe({ method, nutrition }), layout);
+
+    expect(withoutTable).toHaveLength(1);
+    expect(pages).toHaveLength(2);
+    for (const section of pages[1].sections) {
+      expect(section.body.top + section.body.height).toBeLessThanOrEqual(
+        layout.nutrition.top,
+      );
+    }
+  });
+
+  it("should place a step taller than a page on its own page", () => {
+    const hugeStep = { text: "x ".repeat(5000) };
+    const pages = planRecipePages(createRecipe({ method: [hugeStep] }), layout);
+
+    expect(pages).toHaveLength(2);
+    expect(pages[1].sections).toEqual([
+      expect.objectContaining({ kind: "method", steps: [hugeStep] }),
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import type { ImageRef } from "@canva/asset";
+import { addElementAtPoint, addPage, createRichtextRange } from "@canva/design";
+import type { PageId, RichtextRange } from "@canva/design";
+import { classicTemplate } from "../../templates/classic";
+import type { Recipe } from "../../types";
+import { BookGenerationError } from "../generation_run";
+import {
+  createAllRecipePages,
+  createRecipePage,
+  listTemplateFields,
+} from "../recipe_page_generator";
+
+const layout = classicTemplate.recipePage;
+
+const longStep = (n: number) => ({
+  header: `Trin ${n}`,
+  text: "Hæld 100g kylling i en skål og tilsæt 100g egg, 100g potato, 100g carrot og 100g broccoli. ".repeat(
+    3,
+  ),
+});
+
+const createRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: "1",
+  day: 1,
+  title: "Kylling i karry",
+  ingredients: [{ amount: 100, unit: "g", name: "kylling" }],
+  // Two long steps fill the first page, so the table needs a second one
+  method: [longStep(1), longStep(2)],
+  nutrition: {
+    energyKj: 2100,
+    energyKcal: 500,
+    protein: 30,
+    fat: 20,
+    carbohydrates: 45,
+    servingWeight: 400,
+  },
+  ...overrides,
+});
+
+/**
+ * A richtext range that only keeps its text, since the design SDK is mocked in
+ * tests
+ */
+const createFakeRange = () => {
+  let text = "";
+  return {
+    readPlaintext: () => text,
+    appendText: (characters: string) => {
+      const bounds = { index: text.length, length: characters.length };
+      text += characters;
+      return { bounds };
+    },
+    formatParagraph: () => undefined,
+  } as unknown as RichtextRange;
+};
+
+describe("recipe_page_generator", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.mocked(createRichtextRange).mockImplementation(createFakeRange);
+    jest.mocked(addPage).mockResolvedValue({
+      type: "absolute",
+      id: "page" as PageId,
+    } as Awaited<ReturnType<typeof addPage>>);
+  });
+
+  describe("createRecipePage", () => {
+    it("should add the nutrition table to the last page, in its slot", async () => {
+      const pageCount = await createRecipePage(
+        createRecipe(),
+        0,
+        classicTemplate,
+      );
+
+      expect(pageCount).toBe(2);
+      const pageElements = jest
+        .mocked(addPage)
+        .mock.calls.flatMap(([options]) => options?.elements ?? []);
+      expect(pageElements.map(({ type }) => type)).not.toContain("table");
+
+      expect(addElementAtPoint).toHaveBeenCalledTimes(1);
+      expect(addElementAtPoint).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "table",
+          top: layout.nutrition.top,
+          left: layout.nutrition.left,
+          width: layout.nutrition.width,
+        }),
+      );
+      // The table is added once the last page is the current page
+      const [, lastPageOrder] = jest.mocked(addPage).mock.invocationCallOrder;
+      expect(
+        jest.mocked(addElementAtPoint).mock.invocationCallOrder[0],
+      ).toBeGreaterThan(lastPageOrder);
+    });
+
+    it("should leave the slot of a step photo that failed to upload empty", async () => {
+      await createRecipePage(
+        createRecipe({ nutrition: undefined }),
+        0,
+        classicTemplate,
+        { steps: [undefined, "step-2" as ImageRef] },
+      );
+
+      const images = jest
+        .mocked(addPage)
+        .mock.calls.flatMap(([options]) => options?.elements ?? [])
+        .filter((element) => element.type === "image");
+      expect(images).toEqual([
+        expect.objectContaining({
+          ref: "step-2",
+          altText: { text: "Kylling i karry - Step 2", decorative: false },
+          top: layout.stepImages[1].top,
+          left: layout.stepImages[1].left,
+        }),
+      ]);
+    });
+
+    it("should not add a table for recipes without nutritional values", async () => {
+      await createRecipePage(
+        createRecipe({ nutrition: undefined }),
+        0,
+        classicTemplate,
+      );
+
+      expect(addElementAtPoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createAllRecipePages", () => {
+    it("should add only the nutrition table when resuming a recipe whose table failed", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+      jest
+        .mocked(addElementAtPoint)
+        .mockRejectedValueOnce(new Error("Canva is down"));
+
+      const error = await createAllRecipePages(
+        [createRecipe()],
+        classicTemplate,
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(BookGenerationError);
+      const failedRun = (error as BookGenerationError).run;
+      expect(failedRun.recipes[0]).toMatchObject({
+        status: "failed",
+        pageCount: 2,
+        nutritionTableAdded: false,
+      });
+
+      const run = await createAllRecipePages(
+        [createRecipe()],
+        classicTemplate,
+        undefined,
+        { run: failedRun },
+      );
+
+      expect(addPage).toHaveBeenCalledTimes(2);
+      expect(addElementAtPoint).toHaveBeenCalledTimes(2);
+      expect(run.recipes[0]).toMatchObject({
+        status: "created",
+        pageCount: 2,
+        nutritionTableAdded: true,
+      });
+    });
+  });
+
+  describe("listTemplateFields", () => {
+    it("should list the text and list forms of the ingredients as one field", () => {
+      const fields = listTemplateFields({
+        frontpage: { title: "Uge 43", ingredients: ["kylling"] },
+        recipes: [createRecipe()],
+      });
+
+      expect(fields).toContainEqual([
+        "frontpageIngredients",
+        "frontpageIngredientList",
+      ]);
+      expect(fields).toContainEqual([
+        "recipeIngredients_1",
+        "recipeIngredientList_1",
+      ]);
+      expect(fields).not.toContain("recipeIngredientList_1");
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import type { RichtextSlot } from "../../templates";
+import type { BoxData, Recipe } from "../../types";
+import {
+  buildShoppingList,
+  formatShoppingListItem,
+  formatShoppingListMarkdown,
+  getIngredientCategory,
+  planShoppingListPages,
+} from "../shopping_list";
+import type { ShoppingListSection } from "../shopping_list";
+
+const createRecipe = (
+  id: string,
+  ingredients: Recipe["ingredients"],
+): Recipe => ({
+  id,
+  day: 1,
+  title: `Recipe ${id}`,
+  ingredients,
+  method: [],
+});
+
+const createBoxData = (
+  recipes: Recipe[],
+  boxIngredients: string[] = [],
+): BoxData => ({
+  frontpage: { title: "Uge 43", ingredients: boxIngredients },
+  recipes,
+});
+
+describe("shopping_list", () => {
+  describe("getIngredientCategory", () => {
+    it("should use the category from the backend when there is one", () => {
+      expect(
+        getIngredientCategory({ name: "tofu", category: "kolonial" }),
+      ).toBe("kolonial");
+    });
+
+    it.each([
+      ["søde kartofler", "grønt"],
+      ["Hvidløg", "grønt"],
+      ["kyllingebryst", "køl"],
+      ["hakket oksekød", "køl"],
+      ["kokosmælk", "kolonial"],
+      ["ris", "kolonial"],
+    ])("should place %s in %s", (name, category) => {
+      expect(getIngredientCategory({ name })).toBe(category);
+    });
+  });
+
+  describe("buildShoppingList", () => {
+    it("should sum amounts across recipes, converting between units", () => {
+      const sections = buildShoppingList(
+        createBoxData([
+          createRecipe("1", [
+            { amount: 600, unit: "g", name: "kartofler" },
+            { amount: 1, unit: "dl", name: "fløde" },
+            { amount: 2, unit: "spsk", name: "olivenolie" },
+          ]),
+          createRecipe("2", [
+            { amount: 0.5, unit: "kg", name: "Kartofler" },
+            { amount: 50, unit: "ml", name: "fløde" },
+            { amount: 1, unit: "dl", name: "olivenolie" },
+          ]),
+        ]),
+      );
+
+      expect(sections.flatMap(({ items }) => items)).toEqual([
+        {
+          name: "kartofler",
+          category: "grønt",
+          quantities: [{ amount: 1.1, unit: "kg" }],
+          inBox: true,
+        },
+        {
+          name: "fløde",
+          category: "køl",
+          quantities: [{ amount: 1.5, unit: "dl" }],
+          inBox: true,
+        },
+        {
+          name: "olivenolie",
+          category: "kolonial",
+          quantities: [
+            { amount: 2, unit: "spsk" },
+            { amount: 1, unit: "dl" },
+          ],
+          inBox: false,
+        },
+      ]);
+    });
+
+    it("should group by category and list what's in the box first", () => {
+      const sections = buildShoppingList(
+        createBoxData(
+          [
+            createRecipe("1", [
+              { amount: 1, name: "løg" },
+              { name: "Salt og peber" },
+              { amount: 200, unit: "g", name: "ris" },
+              { amount: 300, unit: "g", name: "kylling" },
+            ]),
+            createRecipe("2", [
+              { amount: 1, name: "løg" },
+              { amount: 2, name: "gulerødder" },
+            ]),
+          ],
+          ["Kylling", "Løg", "Gulerødder", "Ris"],
+        ),
+      );
+
+      expect(
+        sections.map(({ heading, items }) => [
+          heading,
+          items.map(formatShoppingListItem),
+        ]),
+      ).toEqual([
+        ["Grønt", ["✓ 2 gulerødder", "✓ 2 løg"]],
+        ["Køl", ["✓ 300 g kylling"]],
+        ["Kolonial", ["✓ 200 g ris", "○ Salt og peber"]],
+      ]);
+    });
+  });
+
+  describe("formatShoppingListMarkdown", () => {
+    it("should put each category under a bold heading", () => {
+      const sections = buildShoppingList(
+        createBoxData([
+          createRecipe("1", [
+            { amount: 1, name: "løg" },
+            { amount: 1, unit: "tsk", name: "salt" },
+          ]),
+        ]),
+      );
+
+      expect(formatShoppingListMarkdown(sections)).toBe(
+        "**Grønt**\n✓ 1 løg\n\n**Kolonial**\n○ 1 tsk salt",
+      );
+    });
+  });
+
+  describe("planShoppingListPages", () => {
+    // 20 characters per line and 20px per line, so every item takes one line
+    const slot: RichtextSlot = {
+      top: 0,
+      left: 0,
+      width: 200,
+      height: 100,
+      fontSize: 20,
+      lineHeightEm: 1,
+    };
+    const createSection = (
+      heading: string,
+      count: number,
+    ): ShoppingListSection => ({
+      category: "kolonial",
+      heading,
+      items: Array.from({ length: count }, (_, i) => ({
+        name: `vare ${i + 1}`,
+        category: "kolonial",
+        quantities: [],
+        inBox: true,
+      })),
+    });
+
+    it("should keep a list that fits on one page", () => {
+      const sections = [createSection("Grønt", 2)];
+
+      expect(planShoppingListPages(sections, slot)).toEqual([sections]);
+    });
+
+    it("should continue a section on the next page under its heading", () => {
+      const pages = planShoppingListPages([createSection("Grønt", 6)], slot);
+
+      expect(
+        pages.map((page) => page.map(({ items }) => items.length)),
+      ).toEqual([[4], [2]]);
+      expect(pages[1][0].heading).toBe("Grønt");
+    });
+
+    it("should not leave a heading without items at the bottom of a page", () => {
+      const pages = planShoppingListPages(
+        [createSection("Grønt", 2), createSection("Køl", 2)],
+        slot,
+      );
+
+      // The heading, 2 items and a blank line leave room for a heading only
+      expect(pages.map((page) => page.map(({ heading }) => heading))).toEqual([
+        ["Grønt"],
+        ["Køl"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import {
+  findDietConflicts,
+  findMissingRecipeInfo,
+  parseBoxData,
+  parseBoxes,
+  PayloadValidationError,
+  parseWeekAvailability,
+  validateBoxData,
+  validateBoxes,
+  validateWeekAvailability,
+} from "../validation";
+
+const validBoxData = () => ({
+  frontpage: {
+    title: "Aktiv hverdag",
+    ingredients: ["Kylling", "Egg"],
+  },
+  recipes: [
+    {
+      id: "1",
+      day: 1,
+      title: "Kylling i karry",
+      ingredients: ["100g kylling"],
+      method: [
+        { header: "Inden du begynder", text: "Tænd ovnen til 180°C" },
+        { text: "Server med ris" },
+      ],
+    },
+  ],
+});
+
+describe("validateBoxData", () => {
+  it("should accept a valid payload", () => {
+    expect(validateBoxData(validBoxData())).toEqual([]);
+  });
+
+  it("should reject a payload that isn't an object", () => {
+    expect(validateBoxData(null)).toEqual([
+      { path: "(root)", message: "expected an object, got null" },
+    ]);
+  });
+
+  it("should report the JSON path of nested violations", () => {
+    const data = validBoxData();
+    (data.recipes[0].method[1] as { text: unknown }).text = 42;
+    expect(validateBoxData(data)).toEqual([
+      {
+        path: "recipes[0].method[1].text",
+        message: "expected a string, got number",
+      },
+    ]);
+  });
+
+  it("should report a missing method array", () => {
+    const data = validBoxData();
+    delete (data.recipes[0] as { method?: unknown }).method;
+    expect(validateBoxData(data)).toEqual([
+      {
+        path: "recipes[0].method",
+        message: "expected an array, got undefined",
+      },
+    ]);
+  });
+
+  it("should report a string day", () => {
+    const data = validBoxData();
+    (data.recipes[0] as { day: unknown }).day = "1";
+    expect(validateBoxData(data)).toEqual([
+      {
+        path: "recipes[0].day",
+        message: 'expected an integer, got the string "1"',
+      },
+    ]);
+  });
+
+  it("should report image URLs that aren't https", () => {
+    const data = validBoxData();
+    Object.assign(data.recipes[0], {
+      images: {
+        hero: "https://example.com/hero.jpg",
+        steps: ["http://example.com/step.jpg"],
+      },
+    });
+    expect(validateBoxData(data)).toEqual([
+      {
+        path: "recipes[0].images.steps[0]",
+        message: "expected an https URL",
+      },
+    ]);
+  });
+
+  it("should report structured ingredients with bad amounts or no name", () => {
+    const data = validBoxData();
+    (data.recipes[0].ingredients as unknown[]) = [
+      { amount: 2, unit: "spsk", name: "olivenolie" },
+      { amount: "2", name: "løg" },
+      { amount: -1, name: "salt" },
+      { amount: 1 },
+    ];
+    Object.assign(data.recipes[0], { servings: 0 });
+    expect(validateBoxData(data)).toEqual([
+      { path: "recipes[0].servings", message: "expected at least 1 serving" },
+      {
+        path: "recipes[0].ingredients[1].amount",
+        message: 'expected a number, got the string "2"',
+      },
+      {
+        path: "recipes[0].ingredients[2].amount",
+        message: "expected an amount of 0 or more",
+      },
+      {
+        path: "recipes[0].ingredients[3].name",
+        message: "expected a string, got undefined",
+      },
+    ]);
+  });
+
+  it("should report unknown allergens and missing or negative nutritional values", () => {
+    const data = validBoxData();
+    Object.assign(data.recipes[0], {
+      allergens: ["gluten", "peanuts"],
+      nutrition: {
+        energyKj: 2100,
+        energyKcal: 500,
+        protein: -1,
+        fat: 20,
+        servingWeight: 0,
+      },
+    });
+    expect(validateBoxData(data)).toEqual([
+      {
+        path: "recipes[0].allergens[1]",
+        message:
+          'expected one of the 14 EU allergens, got the string "peanuts"',
+      },
+      {
+        path: "recipes[0].nutrition.protein",
+        message: "expected a value of 0 or more",
+      },
+      {
+        path: "recipes[0].nutrition.carbohydrates",
+        message: "expected a number, got undefined",
+      },
+      {
+        path: "recipes[0].nutrition.servingWeight",
+        message: "expected a weight above 0",
+      },
+    ]);
+  });
+
+  it("should reject unknown diet tags", () => {
+    const data = validBoxData();
+    (data.recipes[0] as { diets?: unknown }).diets = ["vegansk", "keto"];
+
+    expect(validateBoxData(data)).toEqual([
+      {
+        path: "recipes[0].diets[1]",
+        message:
+          'expected one of "vegetar", "vegansk", "glutenfri", "laktosefri", got the string "keto"',
+      },
+    ]);
+  });
+
+  it("should report every violation rather than the first one", () => {
+    const data = validBoxData();
+    (data.frontpage as { title: unknown }).title = "";
+    (data.frontpage.ingredients as unknown[]) = ["Kylling", 1, null];
+    (data.recipes[0] as { title: unknown }).title = undefined;
+
+    expect(validateBoxData(data).map((issue) => issue.path)).toEqual([
+      "frontpage.title",
+      "frontpage.ingredients[1]",
+      "frontpage.ingredients[2]",
+      "recipes[0].title",
+    ]);
+  });
+});
+
+describe("findMissingRecipeInfo", () => {
+  it("should flag recipes without allergens or nutritional values", () => {
+    const data = parseBoxData(validBoxData());
+    data.recipes.push({
+      ...data.recipes[0],
+      id: "2",
+      allergens: [],
+      nutrition: {
+        energyKj: 2100,
+        energyKcal: 500,
+        protein: 30,
+        fat: 20,
+        carbohydrates: 45,
+      },
+    });
+    expect(findMissingRecipeInfo(data)).toEqual([
+      { path: "recipes[0].allergens", message: "no allergens declared" },
+      { path: "recipes[0].nutrition", message: "no nutritional values" },
+    ]);
+  });
+});
+
+describe("findDietConflicts", () => {
+  const box = {
+    id: "veganer",
+    label: "Veganer kassen",
+    templateId: "VEG",
+    diets: ["vegansk" as const],
+  };
+
+  it("should flag recipes that don't suit the box's diets", () => {
+    const data = parseBoxData(validBoxData());
+    data.recipes[0].diets = ["vegetar"];
+
+    expect(findDietConflicts(box, data)).toEqual([
+      { path: "recipes[0].diets", message: 'expected "vegansk", like the box' },
+    ]);
+  });
+
+  it("should accept a stricter diet than the box's", () => {
+    const data = parseBoxData(validBoxData());
+    data.recipes[0].diets = ["vegansk"];
+
+    expect(
+      findDietConflicts({ ...box, diets: ["vegetar", "laktosefri"] }, data),
+    ).toEqual([]);
+  });
+});
+
+describe("validateBoxes", () => {
+  it("should accept a valid payload", () => {
+    expect(
+      validateBoxes([
+        { id: "aktiv-hverdag", label: "Aktiv hverdag", templateId: "DAG" },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should reject unknown diet tags on a box", () => {
+    expect(
+      validateBoxes([
+        {
+          id: "veganer",
+          label: "Veganer kassen",
+          templateId: "VEG",
+          diets: ["vegan"],
+        },
+      ]),
+    ).toEqual([
+      {
+        path: "[0].diets[0]",
+        message:
+          'expected one of "vegetar", "vegansk", "glutenfri", "laktosefri", got the string "vegan"',
+      },
+    ]);
+  });
+
+  it("should report boxes with missing fields", () => {
+    expect(validateBoxes([{ id: "aktiv-hverdag" }])).toEqual([
+      { path: "[0].label", message: "expected a string, got undefined" },
+      { path: "[0].templateId", message: "expected a string, got undefined" },
+    ]);
+  });
+});
+
+describe("validateWeekAvailability", () => {
+  it("should accept a valid payload", () => {
+    expect(
+      validateWeekAvailability([
+        { week: "0126", status: "published", recipeCount: 3 },
+        { week: "5326", status: "draft", recipeCount: 0 },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should report weeks that don't exist, unknown statuses and bad counts", () => {
+    expect(
+      validateWeekAvailability([
+        { week: "5325", status: "archived", recipeCount: -1 },
+        { week: "0126", status: "draft", recipeCount: 1.5 },
+      ]),
+    ).toEqual([
+      { path: "[0].week", message: "expected a week in wwyy format" },
+      {
+        path: "[0].status",
+        message: 'expected "published" or "draft", got the string "archived"',
+      },
+      { path: "[0].recipeCount", message: "expected a count of 0 or more" },
+      { path: "[1].recipeCount", message: "expected an integer, got number" },
+    ]);
+  });
+});
+
+describe("parseBoxData", () => {
+  it("should convert legacy ingredient lines to structured ingredients", () => {
+    const data = validBoxData();
+    expect(parseBoxData(data)).toEqual({
+      ...data,
+      recipes: [
+        {
+          ...data.recipes[0],
+          ingredients: [{ amount: 100, unit: "g", name: "kylling" }],
+        },
+      ],
+    });
+  });
+
+  it("should keep structured ingredients as they are", () => {
+    const data = validBoxData();
+    const ingredient = { amount: 2, unit: "spsk", name: "olivenolie" };
+    (data.recipes[0].ingredients as unknown[]) = [ingredient];
+    expect(parseBoxData(data).recipes[0].ingredients[0]).toBe(ingredient);
+  });
+
+  it("should throw a PayloadValidationError listing the issues", () => {
+    let error: unknown;
+    try {
+      parseBoxData({ frontpage: {}, recipes: [] });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(PayloadValidationError);
+    expect((error as PayloadValidationError).issues).toHaveLength(2);
+  });
+});
+
+describe("parseBoxes", () => {
+  it("should throw if the payload isn't an array", () => {
+    expect(() => parseBoxes({})).toThrow(PayloadValidationError);
+  });
+});
+
+describe("parseWeekAvailability", () => {
+  it("should throw if a week is invalid", () => {
+    expect(() =>
+      parseWeekAvailability([{ week: "week 1", status: "draft" }]),
+    ).toThrow(PayloadValidationError);
+  });
+});
@@ -0,0 +1,109 @@
+import type { WeekOption } from "../../types";
+import { fetchWeekAvailability } from "../api";
+import {
+  buildWeekOptions,
+  getNextDeliveryWeek,
+  loadWeekOptions,
+} from "../week_availability";
+
+// The real module reads the backend host from the build, so it can't be loaded here
+jest.mock("../api", () => ({ fetchWeekAvailability: jest.fn() }));
+
+// A Wednesday in week 43 of 2026
+const NOW = new Date(2026, 9, 21);
+
+const option = (value: string, disabled = false): WeekOption => ({
+  value,
+  label: value,
+  status: "published",
+  disabled,
+});
+
+describe("week_availability", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  describe("buildWeekOptions", () => {
+    it("should sort weeks across New Year and disable weeks without recipes", () => {
+      expect(
+        buildWeekOptions([
+          { week: "0127", status: "draft", recipeCount: 0 },
+          { week: "5326", status: "published", recipeCount: 4 },
+          { week: "5226", status: "published", recipeCount: 4 },
+        ]),
+      ).toEqual([
+        {
+          value: "5226",
+          label: "Uge 52 (21. dec – 27. dec)",
+          status: "published",
+          disabled: false,
+        },
+        {
+          value: "5326",
+          label: "Uge 53 (28. dec – 3. jan)",
+          status: "published",
+          disabled: false,
+        },
+        {
+          value: "0127",
+          label: "Uge 1 (4. jan – 10. jan)",
+          status: "draft",
+          disabled: true,
+        },
+      ]);
+    });
+  });
+
+  describe("getNextDeliveryWeek", () => {
+    it("should pick the first week with recipes after the current one", () => {
+      const weeks = [
+        option("4226"),
+        option("4326"),
+        option("4426", true),
+        option("4526"),
+      ];
+
+      expect(getNextDeliveryWeek(weeks, NOW)).toBe("4526");
+    });
+
+    it("should fall back to the latest week with recipes", () => {
+      const weeks = [option("4026"), option("4126"), option("4426", true)];
+
+      expect(getNextDeliveryWeek(weeks, NOW)).toBe("4126");
+    });
+
+    it("should return undefined if no week has recipes", () => {
+      expect(getNextDeliveryWeek([option("4426", true)], NOW)).toBeUndefined();
+    });
+  });
+
+  describe("loadWeekOptions", () => {
+    it("should use the weeks from the backend", async () => {
+      jest
+        .mocked(fetchWeekAvailability)
+        .mockResolvedValue([
+          { week: "4426", status: "published", recipeCount: 3 },
+        ]);
+
+      const options = await loadWeekOptions("aktiv-hverdag", NOW);
+
+      expect(fetchWeekAvailability).toHaveBeenCalledWith("aktiv-hverdag");
+      expect(options.source).toBe("backend");
+      expect(options.weeks.map(({ value }) => value)).toEqual(["4426"]);
+    });
+
+    it("should generate weeks if the backend can't be reached", async () => {
+      jest
+        .mocked(fetchWeekAvailability)
+        .mockRejectedValue(new Error("offline"));
+
+      const options = await loadWeekOptions("aktiv-hverdag", NOW);
+
+      expect(options.source).toBe("generated");
+      expect(options.weeks).toHaveLength(17);
+      expect(options.weeks[4].value).toBe("4326");
+    });
+  });
+});
@@ -0,0 +1,508 @@
+import type {
+  Allergen,
+  Box,
+  BoxData,
+  DietTag,
+  Ingredient,
+  IngredientCategory,
+  WeekAvailability,
+} from "../types";
+import { parseWeekValue } from "../../utils/iso_week";
+import { DIET_TAGS, meetsDiet } from "./diets";
+import { parseIngredient } from "./ingredients";
+
+/**
+ * A single problem found in a payload
+ * @property path - JSON path of the offending value, e.g. `recipes[2].method[4].text`
+ * @property message - Human-readable description of the problem
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a payload from the backend doesn't match the expected types
+ */
+export class PayloadValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: ValidationIssue[],
+  ) {
+    super(message);
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const INGREDIENT_CATEGORIES: IngredientCategory[] = [
+  "grønt",
+  "køl",
+  "kolonial",
+];
+
+const ALLERGENS: Allergen[] = [
+  "gluten",
+  "krebsdyr",
+  "æg",
+  "fisk",
+  "jordnødder",
+  "soja",
+  "mælk",
+  "nødder",
+  "selleri",
+  "sennep",
+  "sesam",
+  "svovldioxid",
+  "lupin",
+  "bløddyr",
+];
+
+const NUTRITION_FIELDS = [
+  "energyKj",
+  "energyKcal",
+  "protein",
+  "fat",
+  "carbohydrates",
+] as const;
+
+/**
+ * Collects issues while walking a payload
+ */
+class Validator {
+  readonly issues: ValidationIssue[] = [];
+
+  report(path: string, message: string) {
+    this.issues.push({ path: path || "(root)", message });
+  }
+
+  object(value: unknown, path: string): value is UnknownRecord {
+    if (typeof value !== "object" || value == null || Array.isArray(value)) {
+      this.report(path, `expected an object, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.report(path, `expected an array, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  string(value: unknown, path: string, { allowEmpty = false } = {}) {
+    if (typeof value !== "string") {
+      this.report(path, `expected a string, got ${describe(value)}`);
+      return false;
+    }
+    if (!allowEmpty && value.trim() === "") {
+      this.report(path, "expected a non-empty string");
+      return false;
+    }
+    return true;
+  }
+
+  integer(value: unknown, path: string) {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      this.report(path, `expected an integer, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  number(value: unknown, path: string) {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.report(path, `expected a number, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  url(value: unknown, path: string) {
+    if (!this.string(value, path)) {
+      return false;
+    }
+    if (!/^https:\/\/\S+$/.test(value as string)) {
+      this.report(path, "expected an https URL");
+      return false;
+    }
+    return true;
+  }
+
+  optionalString(value: unknown, path: string) {
+    return (
+      value === undefined || this.string(value, path, { allowEmpty: true })
+    );
+  }
+
+  stringArray(value: unknown, path: string) {
+    if (!this.array(value, path)) {
+      return false;
+    }
+    // Check every item rather than stopping at the first failure
+    const results = value.map((item, i) => this.string(item, `${path}[${i}]`));
+    return results.every(Boolean);
+  }
+}
+
+/**
+ * Describes a value's type for use in an issue message
+ */
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  if (value == null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (typeof value === "string") {
+    return `the string ${JSON.stringify(value)}`;
+  }
+  return typeof value;
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function validateMethodStep(v: Validator, step: unknown, path: string) {
+  if (!v.object(step, path)) {
+    return;
+  }
+  v.optionalString(step.header, joinPath(path, "header"));
+  v.string(step.text, joinPath(path, "text"));
+}
+
+/**
+ * Ingredients are either structured, or a legacy line like `100g kylling`
+ * that {@link parseBoxData} converts
+ */
+function validateIngredient(v: Validator, ingredient: unknown, path: string) {
+  if (typeof ingredient === "string") {
+    v.string(ingredient, path);
+    return;
+  }
+  if (!v.object(ingredient, path)) {
+    return;
+  }
+  const amountPath = joinPath(path, "amount");
+  if (
+    ingredient.amount !== undefined &&
+    v.number(ingredient.amount, amountPath) &&
+    (ingredient.amount as number) < 0
+  ) {
+    v.report(amountPath, "expected an amount of 0 or more");
+  }
+  v.optionalString(ingredient.unit, joinPath(path, "unit"));
+  v.string(ingredient.name, joinPath(path, "name"));
+  v.optionalString(ingredient.note, joinPath(path, "note"));
+  if (
+    ingredient.category !== undefined &&
+    !INGREDIENT_CATEGORIES.includes(ingredient.category as IngredientCategory)
+  ) {
+    v.report(
+      joinPath(path, "category"),
+      `expected one of ${INGREDIENT_CATEGORIES.map((category) => `"${category}"`).join(", ")}, got ${describe(ingredient.category)}`,
+    );
+  }
+}
+
+function validateRecipeImages(v: Validator, images: unknown, path: string) {
+  if (!v.object(images, path)) {
+    return;
+  }
+  if (images.hero !== undefined) {
+    v.url(images.hero, joinPath(path, "hero"));
+  }
+  const stepsPath = joinPath(path, "steps");
+  if (images.steps !== undefined && v.array(images.steps, stepsPath)) {
+    images.steps.forEach((url, i) => v.url(url, `${stepsPath}[${i}]`));
+  }
+}
+
+function validateAllergens(v: Validator, allergens: unknown, path: string) {
+  if (!v.array(allergens, path)) {
+    return;
+  }
+  allergens.forEach((allergen, i) => {
+    if (!ALLERGENS.includes(allergen as Allergen)) {
+      v.report(
+        `${path}[${i}]`,
+        `expected one of the 14 EU allergens, got ${describe(allergen)}`,
+      );
+    }
+  });
+}
+
+function validateNutrition(v: Validator, nutrition: unknown, path: string) {
+  if (!v.object(nutrition, path)) {
+    return;
+  }
+  NUTRITION_FIELDS.forEach((field) => {
+    const fieldPath = joinPath(path, field);
+    if (
+      v.number(nutrition[field], fieldPath) &&
+      (nutrition[field] as number) < 0
+    ) {
+      v.report(fieldPath, "expected a value of 0 or more");
+    }
+  });
+  const weightPath = joinPath(path, "servingWeight");
+  if (
+    nutrition.servingWeight !== undefined &&
+    v.number(nutrition.servingWeight, weightPath) &&
+    (nutrition.servingWeight as number) <= 0
+  ) {
+    v.report(weightPath, "expected a weight above 0");
+  }
+}
+
+function validateDiets(v: Validator, diets: unknown, path: string) {
+  if (!v.array(diets, path)) {
+    return;
+  }
+  diets.forEach((diet, i) => {
+    if (!DIET_TAGS.includes(diet as DietTag)) {
+      v.report(
+        `${path}[${i}]`,
+        `expected one of ${DIET_TAGS.map((tag) => `"${tag}"`).join(", ")}, got ${describe(diet)}`,
+      );
+    }
+  });
+}
+
+function validateRecipe(v: Validator, recipe: unknown, path: string) {
+  if (!v.object(recipe, path)) {
+    return;
+  }
+  v.string(recipe.id, joinPath(path, "id"));
+  v.integer(recipe.day, joinPath(path, "day"));
+  v.string(recipe.title, joinPath(path, "title"));
+
+  const servingsPath = joinPath(path, "servings");
+  if (
+    recipe.servings !== undefined &&
+    v.integer(recipe.servings, servingsPath) &&
+    (recipe.servings as number) < 1
+  ) {
+    v.report(servingsPath, "expected at least 1 serving");
+  }
+
+  const ingredientsPath = joinPath(path, "ingredients");
+  if (v.array(recipe.ingredients, ingredientsPath)) {
+    recipe.ingredients.forEach((ingredient, i) =>
+      validateIngredient(v, ingredient, `${ingredientsPath}[${i}]`),
+    );
+  }
+
+  const methodPath = joinPath(path, "method");
+  if (v.array(recipe.method, methodPath)) {
+    recipe.method.forEach((step, i) =>
+      validateMethodStep(v, step, `${methodPath}[${i}]`),
+    );
+  }
+
+  if (recipe.images !== undefined) {
+    validateRecipeImages(v, recipe.images, joinPath(path, "images"));
+  }
+
+  if (recipe.allergens !== undefined) {
+    validateAllergens(v, recipe.allergens, joinPath(path, "allergens"));
+  }
+
+  if (recipe.nutrition !== undefined) {
+    validateNutrition(v, recipe.nutrition, joinPath(path, "nutrition"));
+  }
+  if (recipe.diets !== undefined) {
+    validateDiets(v, recipe.diets, joinPath(path, "diets"));
+  }
+}
+
+/**
+ * Checks a payload against the {@link BoxData} type
+ * @param value - The parsed JSON payload
+ * @returns Every violation found, or an empty array if the payload is valid
+ */
+export function validateBoxData(value: unknown): ValidationIssue[] {
+  const v = new Validator();
+
+  if (!v.object(value, "")) {
+    return v.issues;
+  }
+
+  if (v.object(value.frontpage, "frontpage")) {
+    v.string(value.frontpage.title, "frontpage.title");
+    v.stringArray(value.frontpage.ingredients, "frontpage.ingredients");
+  }
+
+  if (v.array(value.recipes, "recipes")) {
+    value.recipes.forEach((recipe, i) =>
+      validateRecipe(v, recipe, `recipes[${i}]`),
+    );
+  }
+
+  return v.issues;
+}
+
+/**
+ * Finds recipes whose allergens or nutritional values haven't been declared.
+ * Older weeks don't have them, so this isn't a reason to reject the payload,
+ * but the book shouldn't be printed without them.
+ * @param boxData - The parsed box data
+ * @returns An issue for every missing value, or an empty array if nothing is missing
+ */
+export function findMissingRecipeInfo(boxData: BoxData): ValidationIssue[] {
+  const v = new Validator();
+  boxData.recipes.forEach((recipe, i) => {
+    if (recipe.allergens === undefined) {
+      v.report(`recipes[${i}].allergens`, "no allergens declared");
+    }
+    if (recipe.nutrition === undefined) {
+      v.report(`recipes[${i}].nutrition`, "no nutritional values");
+    }
+  });
+  return v.issues;
+}
+
+/**
+ * Finds recipes that don't suit every diet their box promises, e.g. a recipe
+ * in Veganer kassen that isn't tagged `vegansk`
+ * @param box - The box the recipes are for
+ * @param boxData - The parsed box data
+ * @returns An issue for every recipe and diet that doesn't match, or an empty
+ * array if every recipe suits the box
+ */
+export function findDietConflicts(
+  box: Box,
+  boxData: BoxData,
+): ValidationIssue[] {
+  const v = new Validator();
+  boxData.recipes.forEach((recipe, i) => {
+    (box.diets ?? []).forEach((diet) => {
+      if (!meetsDiet(recipe.diets ?? [], diet)) {
+        v.report(`recipes[${i}].diets`, `expected "${diet}", like the box`);
+      }
+    });
+  });
+  return v.issues;
+}
+
+/**
+ * Checks a payload against the {@link Box} array type
+ * @param value - The parsed JSON payload
+ * @returns Every violation found, or an empty array if the payload is valid
+ */
+export function validateBoxes(value: unknown): ValidationIssue[] {
+  const v = new Validator();
+
+  if (v.array(value, "")) {
+    value.forEach((box, i) => {
+      const path = `[${i}]`;
+      if (v.object(box, path)) {
+        v.string(box.id, `${path}.id`);
+        v.string(box.label, `${path}.label`);
+        v.string(box.templateId, `${path}.templateId`);
+        if (box.diets !== undefined) {
+          validateDiets(v, box.diets, `${path}.diets`);
+        }
+      }
+    });
+  }
+
+  return v.issues;
+}
+
+/**
+ * Checks a payload against the {@link WeekAvailability} array type
+ * @param value - The parsed JSON payload
+ * @returns Every violation found, or an empty array if the payload is valid
+ */
+export function validateWeekAvailability(value: unknown): ValidationIssue[] {
+  const v = new Validator();
+
+  if (v.array(value, "")) {
+    value.forEach((entry, i) => {
+      const path = `[${i}]`;
+      if (!v.object(entry, path)) {
+        return;
+      }
+      if (
+        v.string(entry.week, `${path}.week`) &&
+        !parseWeekValue(entry.week as string)
+      ) {
+        v.report(`${path}.week`, "expected a week in wwyy format");
+      }
+      if (entry.status !== "published" && entry.status !== "draft") {
+        v.report(
+          `${path}.status`,
+          `expected "published" or "draft", got ${describe(entry.status)}`,
+        );
+      }
+      if (
+        v.integer(entry.recipeCount, `${path}.recipeCount`) &&
+        (entry.recipeCount as number) < 0
+      ) {
+        v.report(`${path}.recipeCount`, "expected a count of 0 or more");
+      }
+    });
+  }
+
+  return v.issues;
+}
+
+/**
+ * Narrows a payload to {@link BoxData}. Legacy ingredient lines are converted
+ * to structured ingredients, see {@link parseIngredient}.
+ * @param value - The parsed JSON payload
+ * @throws PayloadValidationError listing every violation if the payload is invalid
+ */
+export function parseBoxData(value: unknown): BoxData {
+  const issues = validateBoxData(value);
+  if (issues.length > 0) {
+    throw new PayloadValidationError("Recipe data is invalid", issues);
+  }
+  const data = value as BoxData;
+  return {
+    ...data,
+    recipes: data.recipes.map((recipe) => ({
+      ...recipe,
+      ingredients: (recipe.ingredients as (Ingredient | string)[]).map(
+        (ingredient) =>
+          typeof ingredient === "string"
+            ? parseIngredient(ingredient)
+            : ingredient,
+      ),
+    })),
+  };
+}
+
+/**
+ * Narrows a payload to an array of {@link Box}
+ * @param value - The parsed JSON payload
+ * @throws PayloadValidationError listing every violation if the payload is invalid
+ */
+export function parseBoxes(value: unknown): Box[] {
+  const issues = validateBoxes(value);
+  if (issues.length > 0) {
+    throw new PayloadValidationError("Box list is invalid", issues);
+  }
+  return value as Box[];
+}
+
+/**
+ * Narrows a payload to an array of {@link WeekAvailability}
+ * @param value - The parsed JSON payload
+ * @throws PayloadValidationError listing every violation if the payload is invalid
+ */
+export function parseWeekAvailability(value: unknown): WeekAvailability[] {
+  const issues = validateWeekAvailability(value);
+  if (issues.length > 0) {
+    throw new PayloadValidationError("Week availability is invalid", issues);
+  }
+  return value as WeekAvailability[];
+}
@@ -0,0 +1,92 @@
+/* eslint-disable no-console */
+import type { WeekAvailability, WeekOption } from "../types";
+import {
+  addWeeks,
+  formatWeekLabel,
+  getIsoWeek,
+  parseWeekValue,
+} from "../../utils/iso_week";
+import type { IsoWeek } from "../../utils/iso_week";
+import { generateWeeks } from "../../utils/week_generator";
+import { fetchWeekAvailability } from "./api";
+
+/**
+ * The weeks to offer for a box
+ * @property weeks - The weeks, in order
+ * @property source - Where the weeks came from: the backend, or generated
+ * because the backend couldn't be reached
+ */
+export interface WeekOptions {
+  weeks: WeekOption[];
+  source: "backend" | "generated";
+}
+
+const compareWeeks = (a: IsoWeek, b: IsoWeek) =>
+  a.year - b.year || a.week - b.week;
+
+/**
+ * Turns the weeks a box has recipes in into options for the week picker.
+ * Weeks without recipes are kept, but disabled.
+ * @param availability - The weeks from the backend
+ * @returns The weeks in order, labelled with their dates
+ */
+export function buildWeekOptions(
+  availability: WeekAvailability[],
+): WeekOption[] {
+  return availability
+    .map((entry) => ({ entry, isoWeek: parseWeekValue(entry.week) }))
+    .filter(
+      (item): item is { entry: WeekAvailability; isoWeek: IsoWeek } =>
+        item.isoWeek !== undefined,
+    )
+    .sort((a, b) => compareWeeks(a.isoWeek, b.isoWeek))
+    .map(({ entry, isoWeek }) => ({
+      value: entry.week,
+      label: formatWeekLabel(isoWeek),
+      status: entry.status,
+      disabled: entry.recipeCount === 0,
+    }));
+}
+
+/**
+ * Picks the week to select by default: the next delivery week, which is the
+ * first week with recipes after the current one. Falls back to the latest
+ * week with recipes if they're all in the past.
+ * @param weeks - The weeks on offer
+ * @param now - The current date
+ * @returns The value of the week to select, or `undefined` if no week has recipes
+ */
+export function getNextDeliveryWeek(
+  weeks: WeekOption[],
+  now = new Date(),
+): string | undefined {
+  const nextWeek = addWeeks(getIsoWeek(now), 1);
+  const enabled = weeks.filter(({ disabled }) => !disabled);
+  const upcoming = enabled.find(({ value }) => {
+    const isoWeek = parseWeekValue(value);
+    return isoWeek && compareWeeks(isoWeek, nextWeek) >= 0;
+  });
+  return (upcoming ?? enabled[enabled.length - 1])?.value;
+}
+
+/**
+ * Loads the weeks a box has recipes in. If the backend can't be reached, the
+ * weeks around the current one are generated instead, so the app still works
+ * offline, though without knowing which weeks have recipes.
+ * @param boxId - The ID of the box
+ * @param now - The current date
+ */
+export async function loadWeekOptions(
+  boxId: string,
+  now = new Date(),
+): Promise<WeekOptions> {
+  try {
+    return {
+      weeks: buildWeekOptions(await fetchWeekAvailability(boxId)),
+      source: "backend",
+    };
+  } catch (error) {
+    console.log("Couldn't load week availability, generating weeks:", error);
+    return { weeks: generateWeeks(4, 12, now), source: "generated" };
+  }
+}
@@ -0,0 +1,478 @@
+import type { LayoutTemplate } from "./types";
+
+/**
+ * The original Aarstiderne recipe book layout: a centered title block, a hero
+ * photo, and the ingredients followed by the method in a single column.
+ * Square pages get two columns instead, since a single column would leave too
+ * little room for the method.
+ */
+export const classicTemplate: LayoutTemplate = {
+  id: "DAG2yR3gT7I",
+  name: "Classic",
+  page: {
+    width: 700,
+    height: 1000,
+  },
+  frontPage: {
+    title: {
+      top: 100,
+      left: 100,
+      width: 500,
+      height: 50,
+      fontSize: 36,
+      fontWeight: "bold",
+      textAlign: "center",
+      color: "#2C3E50",
+    },
+    subtitle: {
+      text: "Recipe Box Contents",
+      top: 160,
+      left: 100,
+      width: 500,
+      height: 30,
+      fontSize: 20,
+      fontWeight: "medium",
+      textAlign: "center",
+      color: "#7F8C8D",
+    },
+    ingredientsHeading: {
+      text: "Box Ingredients:",
+      top: 220,
+      left: 100,
+      width: 500,
+      height: 25,
+      fontSize: 18,
+      fontWeight: "semibold",
+      color: "#34495E",
+    },
+    ingredients: {
+      top: 250,
+      left: 120,
+      width: 460,
+      height: 700,
+      fontSize: 16,
+      textAlign: "start",
+    },
+    diets: {
+      top: 60,
+      left: 100,
+      width: 500,
+      height: 25,
+      badgeWidth: 110,
+      gap: 10,
+      fontSize: 14,
+      fontWeight: "bold",
+      textAlign: "center",
+      color: "#2E7D32",
+    },
+  },
+  shoppingListPage: {
+    title: {
+      text: "Indkøbsliste",
+      top: 100,
+      left: 100,
+      width: 500,
+      height: 50,
+      fontSize: 36,
+      fontWeight: "bold",
+      textAlign: "center",
+      color: "#2C3E50",
+    },
+    continuedTitle: {
+      text: "Indkøbsliste (fortsat)",
+      top: 100,
+      left: 100,
+      width: 500,
+      height: 50,
+      fontSize: 36,
+      fontWeight: "bold",
+      textAlign: "center",
+      color: "#2C3E50",
+    },
+    legend: {
+      text: "✓ er i kassen   ○ har du selv",
+      top: 160,
+      left: 100,
+      width: 500,
+      height: 25,
+      fontSize: 16,
+      fontWeight: "medium",
+      textAlign: "center",
+      color: "#7F8C8D",
+    },
+    list: {
+      top: 200,
+      left: 120,
+      width: 460,
+      height: 760,
+      fontSize: 16,
+      textAlign: "start",
+      lineHeightEm: 1.4,
+    },
+  },
+  dividerPage: {
+    title: {
+      top: 420,
+      left: 100,
+      width: 500,
+      height: 60,
+      fontSize: 44,
+      fontWeight: "bold",
+      textAlign: "center",
+      color: "#2C3E50",
+    },
+    week: {
+      top: 500,
+      left: 100,
+      width: 500,
+      height: 35,
+      fontSize: 24,
+      fontWeight: "medium",
+      textAlign: "center",
+      color: "#7F8C8D",
+    },
+  },
+  recipePage: {
+    title: {
+      top: 50,
+      left: 100,
+      width: 500,
+      height: 45,
+      fontSize: 32,
+      fontWeight: "bold",
+      textAlign: "center",
+    },
+    continuedTitle: {
+      text: "{title} (fortsat)",
+      top: 50,
+      left: 100,
+      width: 500,
+      height: 45,
+      fontSize: 32,
+      fontWeight: "bold",
+      textAlign: "center",
+    },
+    day: {
+      text: "Day {day}",
+      top: 100,
+      left: 100,
+      width: 500,
+      height: 25,
+      fontSize: 18,
+      fontWeight: "medium",
+      textAlign: "center",
+      color: "#666666",
+    },
+    heroImage: {
+      top: 130,
+      left: 200,
+      width: 300,
+      height: 200,
+    },
+    stepImages: [
+      { top: 200, left: 50, width: 120, height: 80 },
+      { top: 270, left: 50, width: 120, height: 80 },
+    ],
+    ingredientsHeading: {
+      text: "Ingredients:",
+      top: 350,
+      left: 100,
+      width: 500,
+      height: 25,
+      fontSize: 20,
+      fontWeight: "semibold",
+      color: "#333333",
+    },
+    ingredients: {
+      top: 380,
+      left: 120,
+      width: 460,
+      height: 160,
+      fontSize: 16,
+      textAlign: "start",
+    },
+    methodHeading: {
+      text: "Method:",
+      top: 550,
+      left: 100,
+      width: 500,
+      height: 25,
+      fontSize: 20,
+      fontWeight: "semibold",
+      color: "#333333",
+    },
+    method: {
+      top: 580,
+      left: 120,
+      width: 460,
+      height: 380,
+      fontSize: 16,
+      textAlign: "start",
+      lineHeightEm: 1.4,
+    },
+    allergens: {
+      text: "Allergener: {allergens}",
+      top: 965,
+      left: 100,
+      width: 500,
+      height: 25,
+      fontSize: 14,
+      fontWeight: "medium",
+      textAlign: "center",
+      color: "#666666",
+    },
+    nutrition: {
+      top: 780,
+      left: 120,
+      width: 460,
+      height: 180,
+    },
+    diets: {
+      top: 15,
+      left: 100,
+      width: 500,
+      height: 25,
+      badgeWidth: 110,
+      gap: 10,
+      fontSize: 13,
+      fontWeight: "bold",
+      textAlign: "center",
+      color: "#2E7D32",
+    },
+  },
+  variants: {
+    "square-social": {
+      page: {
+        width: 1080,
+        height: 1080,
+      },
+      frontPage: {
+        title: {
+          top: 120,
+          left: 140,
+          width: 800,
+          height: 70,
+          fontSize: 56,
+          fontWeight: "bold",
+          textAlign: "center",
+          color: "#2C3E50",
+        },
+        subtitle: {
+          text: "Recipe Box Contents",
+          top: 210,
+          left: 140,
+          width: 800,
+          height: 45,
+          fontSize: 30,
+          fontWeight: "medium",
+          textAlign: "center",
+          color: "#7F8C8D",
+        },
+        ingredientsHeading: {
+          text: "Box Ingredients:",
+          top: 300,
+          left: 140,
+          width: 800,
+          height: 40,
+          fontSize: 28,
+          fontWeight: "semibold",
+          color: "#34495E",
+        },
+        ingredients: {
+          top: 350,
+          left: 160,
+          width: 760,
+          height: 650,
+          fontSize: 24,
+          textAlign: "start",
+        },
+        diets: {
+          top: 65,
+          left: 140,
+          width: 800,
+          height: 40,
+          badgeWidth: 160,
+          gap: 12,
+          fontSize: 20,
+          fontWeight: "bold",
+          textAlign: "center",
+          color: "#2E7D32",
+        },
+      },
+      shoppingListPage: {
+        title: {
+          text: "Indkøbsliste",
+          top: 120,
+          left: 140,
+          width: 800,
+          height: 70,
+          fontSize: 56,
+          fontWeight: "bold",
+          textAlign: "center",
+          color: "#2C3E50",
+        },
+        continuedTitle: {
+          text: "Indkøbsliste (fortsat)",
+          top: 120,
+          left: 140,
+          width: 800,
+          height: 70,
+          fontSize: 56,
+          fontWeight: "bold",
+          textAlign: "center",
+          color: "#2C3E50",
+        },
+        legend: {
+          text: "✓ er i kassen   ○ har du selv",
+          top: 200,
+          left: 140,
+          width: 800,
+          height: 36,
+          fontSize: 24,
+          fontWeight: "medium",
+          textAlign: "center",
+          color: "#7F8C8D",
+        },
+        list: {
+          top: 260,
+          left: 160,
+          width: 760,
+          height: 780,
+          fontSize: 24,
+          textAlign: "start",
+          lineHeightEm: 1.4,
+        },
+      },
+      dividerPage: {
+        title: {
+          top: 440,
+          left: 140,
+          width: 800,
+          height: 90,
+          fontSize: 68,
+          fontWeight: "bold",
+          textAlign: "center",
+          color: "#2C3E50",
+        },
+        week: {
+          top: 550,
+          left: 140,
+          width: 800,
+          height: 50,
+          fontSize: 36,
+          fontWeight: "medium",
+          textAlign: "center",
+          color: "#7F8C8D",
+        },
+      },
+      recipePage: {
+        title: {
+          top: 60,
+          left: 80,
+          width: 920,
+          height: 65,
+          fontSize: 48,
+          fontWeight: "bold",
+          textAlign: "center",
+        },
+        continuedTitle: {
+          text: "{title} (fortsat)",
+          top: 60,
+          left: 80,
+          width: 920,
+          height: 65,
+          fontSize: 48,
+          fontWeight: "bold",
+          textAlign: "center",
+        },
+        day: {
+          text: "Day {day}",
+          top: 130,
+          left: 80,
+          width: 920,
+          height: 38,
+          fontSize: 26,
+          fontWeight: "medium",
+          textAlign: "center",
+          color: "#666666",
+        },
+        heroImage: {
+          top: 190,
+          left: 80,
+          width: 420,
+          height: 300,
+        },
+        stepImages: [
+          { top: 510, left: 80, width: 200, height: 130 },
+          { top: 510, left: 300, width: 200, height: 130 },
+        ],
+        ingredientsHeading: {
+          text: "Ingredients:",
+          top: 660,
+          left: 80,
+          width: 420,
+          height: 38,
+          fontSize: 28,
+          fontWeight: "semibold",
+          color: "#333333",
+        },
+        ingredients: {
+          top: 705,
+          left: 90,
+          width: 410,
+          height: 300,
+          fontSize: 22,
+          textAlign: "start",
+        },
+        methodHeading: {
+          text: "Method:",
+          top: 190,
+          left: 560,
+          width: 440,
+          height: 38,
+          fontSize: 28,
+          fontWeight: "semibold",
+          color: "#333333",
+        },
+        method: {
+          top: 235,
+          left: 570,
+          width: 430,
+          height: 780,
+          fontSize: 22,
+          textAlign: "start",
+          lineHeightEm: 1.4,
+        },
+        allergens: {
+          text: "Allergener: {allergens}",
+          top: 1030,
+          left: 80,
+          width: 920,
+          height: 30,
+          fontSize: 20,
+          fontWeight: "medium",
+          textAlign: "center",
+          color: "#666666",
+        },
+        nutrition: {
+          top: 815,
+          left: 570,
+          width: 430,
+          height: 200,
+        },
+        diets: {
+          top: 15,
+          left: 80,
+          width: 920,
+          height: 35,
+          badgeWidth: 160,
+          gap: 12,
+          fontSize: 18,
+          fontWeight: "bold",
+          textAlign: "center",
+          color: "#2E7D32",
+        },
+      },
+    },
+  },
+};
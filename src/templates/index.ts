@@ -0,0 +1,49 @@
+/* eslint-disable no-console */
+import { classicTemplate } from "./classic";
+import type { LayoutTemplate } from "./types";
+
+export type {
+  BadgeRowSlot,
+  DividerPageLayout,
+  FrontPageLayout,
+  ImageSlot,
+  LabelSlot,
+  LayoutTemplate,
+  PageLayout,
+  PagePresetId,
+  PageSize,
+  RecipePageLayout,
+  RichtextSlot,
+  ShoppingListPageLayout,
+  SlotBox,
+  TextSlot,
+} from "./types";
+export type { PagePreset } from "./presets";
+export { matchPagePreset, PAGE_PRESETS } from "./presets";
+export { resolveLayoutTemplate, scalePageLayout } from "./scaling";
+
+/**
+ * Every layout template, keyed by the `templateId` of the boxes that use it.
+ * To give a box its own look, add a template definition and register it here.
+ */
+export const LAYOUT_TEMPLATES: Record<string, LayoutTemplate> = {
+  [classicTemplate.id]: classicTemplate,
+};
+
+export const DEFAULT_LAYOUT_TEMPLATE = classicTemplate;
+
+/**
+ * Looks up the layout template for a box
+ * @param templateId - The box's `templateId`
+ * @returns The matching template, or the default template if none is registered
+ */
+export function getLayoutTemplate(templateId: string): LayoutTemplate {
+  const template = LAYOUT_TEMPLATES[templateId];
+  if (!template) {
+    console.warn(
+      `No layout template registered for "${templateId}", using "${DEFAULT_LAYOUT_TEMPLATE.name}"`,
+    );
+    return DEFAULT_LAYOUT_TEMPLATE;
+  }
+  return template;
+}
@@ -0,0 +1,58 @@
+import type { PagePresetId, PageSize } from "./types";
+
+/**
+ * A common page size that layouts can be designed for
+ */
+export interface PagePreset {
+  id: PagePresetId;
+  name: string;
+  page: PageSize;
+}
+
+/**
+ * Page sizes as Canva creates them for the matching design types, at 96 DPI
+ */
+export const PAGE_PRESETS: PagePreset[] = [
+  {
+    id: "a4-portrait",
+    name: "A4 portrait",
+    page: { width: 794, height: 1123 },
+  },
+  {
+    id: "a5-booklet",
+    name: "A5 booklet",
+    page: { width: 559, height: 794 },
+  },
+  {
+    id: "square-social",
+    name: "Square social post",
+    page: { width: 1080, height: 1080 },
+  },
+];
+
+// How far a page's aspect ratio may differ from a preset's and still match it
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+/**
+ * Finds the preset with the same shape as a page. When several presets have
+ * that shape, like A4 and A5, the one closest in size wins.
+ * @param page - The size of the page
+ * @returns The matching preset, or `undefined` if no preset has the page's shape
+ */
+export function matchPagePreset(page: PageSize): PagePreset | undefined {
+  const aspectRatio = page.width / page.height;
+  const candidates = PAGE_PRESETS.filter((preset) => {
+    const presetRatio = preset.page.width / preset.page.height;
+    return Math.abs(aspectRatio / presetRatio - 1) <= ASPECT_RATIO_TOLERANCE;
+  });
+
+  return candidates.reduce<PagePreset | undefined>(
+    (best, preset) =>
+      !best ||
+      Math.abs(preset.page.width - page.width) <
+        Math.abs(best.page.width - page.width)
+        ? preset
+        : best,
+    undefined,
+  );
+}
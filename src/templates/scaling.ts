@@ -0,0 +1,141 @@
+import { matchPagePreset } from "./presets";
+import type {
+  BadgeRowSlot,
+  DividerPageLayout,
+  FrontPageLayout,
+  ImageSlot,
+  LabelSlot,
+  LayoutTemplate,
+  PageLayout,
+  PageSize,
+  RecipePageLayout,
+  ShoppingListPageLayout,
+  TextSlot,
+} from "./types";
+
+type Scale = { x: number; y: number; font: number };
+
+function scaleBox<T extends ImageSlot>(slot: T, scale: Scale): T {
+  return {
+    ...slot,
+    top: Math.round(slot.top * scale.y),
+    left: Math.round(slot.left * scale.x),
+    width: Math.round(slot.width * scale.x),
+    height: Math.round(slot.height * scale.y),
+  };
+}
+
+function scaleText<T extends TextSlot>(slot: T, scale: Scale): T {
+  return {
+    ...scaleBox(slot, scale),
+    fontSize: Math.max(1, Math.round(slot.fontSize * scale.font)),
+  };
+}
+
+function scaleBadgeRow(slot: BadgeRowSlot, scale: Scale): BadgeRowSlot {
+  return {
+    ...scaleText(slot, scale),
+    badgeWidth: Math.round(slot.badgeWidth * scale.x),
+    gap: Math.round(slot.gap * scale.x),
+  };
+}
+
+function scaleFrontPage(
+  layout: FrontPageLayout,
+  scale: Scale,
+): FrontPageLayout {
+  return {
+    title: scaleText(layout.title, scale),
+    subtitle: scaleText<LabelSlot>(layout.subtitle, scale),
+    ingredientsHeading: scaleText<LabelSlot>(layout.ingredientsHeading, scale),
+    ingredients: scaleText(layout.ingredients, scale),
+    diets: scaleBadgeRow(layout.diets, scale),
+  };
+}
+
+function scaleShoppingListPage(
+  layout: ShoppingListPageLayout,
+  scale: Scale,
+): ShoppingListPageLayout {
+  return {
+    title: scaleText<LabelSlot>(layout.title, scale),
+    continuedTitle: scaleText<LabelSlot>(layout.continuedTitle, scale),
+    legend: scaleText<LabelSlot>(layout.legend, scale),
+    list: scaleText(layout.list, scale),
+  };
+}
+
+function scaleDividerPage(
+  layout: DividerPageLayout,
+  scale: Scale,
+): DividerPageLayout {
+  return {
+    title: scaleText(layout.title, scale),
+    week: scaleText(layout.week, scale),
+  };
+}
+
+function scaleRecipePage(
+  layout: RecipePageLayout,
+  scale: Scale,
+): RecipePageLayout {
+  return {
+    title: scaleText(layout.title, scale),
+    continuedTitle: scaleText<LabelSlot>(layout.continuedTitle, scale),
+    day: scaleText<LabelSlot>(layout.day, scale),
+    heroImage: scaleBox(layout.heroImage, scale),
+    stepImages: layout.stepImages.map((slot) => scaleBox(slot, scale)),
+    ingredientsHeading: scaleText<LabelSlot>(layout.ingredientsHeading, scale),
+    ingredients: scaleText(layout.ingredients, scale),
+    methodHeading: scaleText<LabelSlot>(layout.methodHeading, scale),
+    method: scaleText(layout.method, scale),
+    allergens: scaleText<LabelSlot>(layout.allergens, scale),
+    nutrition: scaleBox(layout.nutrition, scale),
+    diets: scaleBadgeRow(layout.diets, scale),
+  };
+}
+
+/**
+ * Scales every slot of a layout proportionally to a new page size
+ * @param layout - The layout to scale
+ * @param page - The page size to scale to
+ * @returns A copy of the layout with slot coordinates for the new page size
+ */
+export function scalePageLayout(
+  layout: PageLayout,
+  page: PageSize,
+): PageLayout {
+  const x = page.width / layout.page.width;
+  const y = page.height / layout.page.height;
+  // Use the smaller factor for text, so it doesn't outgrow its slot
+  const scale = { x, y, font: Math.min(x, y) };
+
+  return {
+    page: { width: page.width, height: page.height },
+    frontPage: scaleFrontPage(layout.frontPage, scale),
+    shoppingListPage: scaleShoppingListPage(layout.shoppingListPage, scale),
+    dividerPage: scaleDividerPage(layout.dividerPage, scale),
+    recipePage: scaleRecipePage(layout.recipePage, scale),
+  };
+}
+
+/**
+ * Fits a template to the design's pages. If the template has a variant for the
+ * preset that matches the page's shape, that variant is used instead of the
+ * base layout. The chosen layout is then scaled to the exact page size.
+ * @param template - The template for the box
+ * @param page - The size of the design's pages
+ * @returns A template whose slot coordinates match the design's pages
+ */
+export function resolveLayoutTemplate(
+  template: LayoutTemplate,
+  page: PageSize,
+): LayoutTemplate {
+  const preset = matchPagePreset(page);
+  const layout = (preset && template.variants?.[preset.id]) || template;
+
+  return {
+    ...template,
+    ...scalePageLayout(layout, page),
+  };
+}
@@ -0,0 +1,103 @@
+import { classicTemplate } from "../classic";
+import { matchPagePreset } from "../presets";
+import { resolveLayoutTemplate, scalePageLayout } from "../scaling";
+
+describe("matchPagePreset", () => {
+  it("should match exact preset sizes", () => {
+    expect(matchPagePreset({ width: 794, height: 1123 })?.id).toBe(
+      "a4-portrait",
+    );
+    expect(matchPagePreset({ width: 559, height: 794 })?.id).toBe("a5-booklet");
+    expect(matchPagePreset({ width: 1080, height: 1080 })?.id).toBe(
+      "square-social",
+    );
+  });
+
+  it("should match pages of the same shape by the closest size", () => {
+    expect(matchPagePreset({ width: 1587, height: 2245 })?.id).toBe(
+      "a4-portrait",
+    );
+    expect(matchPagePreset({ width: 420, height: 595 })?.id).toBe("a5-booklet");
+    expect(matchPagePreset({ width: 500, height: 500 })?.id).toBe(
+      "square-social",
+    );
+  });
+
+  it("should not match pages of another shape", () => {
+    expect(matchPagePreset({ width: 1920, height: 1080 })).toBeUndefined();
+  });
+});
+
+describe("scalePageLayout", () => {
+  it("should scale slots proportionally", () => {
+    const scaled = scalePageLayout(classicTemplate, {
+      width: classicTemplate.page.width * 2,
+      height: classicTemplate.page.height * 2,
+    });
+    const { title } = classicTemplate.recipePage;
+
+    expect(scaled.recipePage.title).toEqual({
+      ...title,
+      top: title.top * 2,
+      left: title.left * 2,
+      width: title.width * 2,
+      height: title.height * 2,
+      fontSize: title.fontSize * 2,
+    });
+  });
+
+  it("should scale fonts by the smaller factor", () => {
+    const scaled = scalePageLayout(classicTemplate, {
+      width: classicTemplate.page.width * 2,
+      height: classicTemplate.page.height,
+    });
+
+    expect(scaled.frontPage.title.fontSize).toBe(
+      classicTemplate.frontPage.title.fontSize,
+    );
+    expect(scaled.frontPage.title.width).toBe(
+      classicTemplate.frontPage.title.width * 2,
+    );
+  });
+
+  it("should keep label text", () => {
+    const scaled = scalePageLayout(classicTemplate, {
+      width: 350,
+      height: 500,
+    });
+
+    expect(scaled.recipePage.day.text).toBe(
+      classicTemplate.recipePage.day.text,
+    );
+  });
+});
+
+describe("resolveLayoutTemplate", () => {
+  it("should scale the base layout to the page", () => {
+    const page = { width: 794, height: 1123 };
+    const resolved = resolveLayoutTemplate(classicTemplate, page);
+
+    expect(resolved.id).toBe(classicTemplate.id);
+    expect(resolved.page).toEqual(page);
+    expect(resolved.recipePage.title.width).toBe(
+      Math.round((classicTemplate.recipePage.title.width * 794) / 700),
+    );
+  });
+
+  it("should use the variant for the matching preset", () => {
+    const square = classicTemplate.variants?.["square-social"];
+    if (!square) {
+      throw new Error("Classic template has no square variant");
+    }
+    const resolved = resolveLayoutTemplate(classicTemplate, square.page);
+
+    expect(resolved.recipePage).toEqual(square.recipePage);
+  });
+
+  it("should give the same result when resolved twice", () => {
+    const page = { width: 540, height: 540 };
+    const resolved = resolveLayoutTemplate(classicTemplate, page);
+
+    expect(resolveLayoutTemplate(resolved, page)).toEqual(resolved);
+  });
+});
@@ -0,0 +1,56 @@
+import type { SlotBox } from "..";
+import {
+  DEFAULT_LAYOUT_TEMPLATE,
+  getLayoutTemplate,
+  LAYOUT_TEMPLATES,
+} from "..";
+
+describe("getLayoutTemplate", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the template registered for the id", () => {
+    expect(getLayoutTemplate("DAG2yR3gT7I")).toBe(
+      LAYOUT_TEMPLATES["DAG2yR3gT7I"],
+    );
+  });
+
+  it("should fall back to the default template for unknown ids", () => {
+    expect(getLayoutTemplate("unknown")).toBe(DEFAULT_LAYOUT_TEMPLATE);
+  });
+});
+
+describe("LAYOUT_TEMPLATES", () => {
+  const templates = Object.entries(LAYOUT_TEMPLATES);
+
+  it.each(templates)("should register %s under its own id", (id, template) => {
+    expect(template.id).toBe(id);
+  });
+
+  it.each(templates)(
+    "should keep every slot of %s within the page",
+    (_, template) => {
+      const layouts = [template, ...Object.values(template.variants ?? {})];
+
+      for (const { page, frontPage, dividerPage, recipePage } of layouts) {
+        const slots: SlotBox[] = [
+          ...Object.values(frontPage),
+          ...Object.values(dividerPage),
+          ...Object.values(recipePage).flat(),
+        ];
+
+        for (const slot of slots) {
+          expect(slot.top).toBeGreaterThanOrEqual(0);
+          expect(slot.left).toBeGreaterThanOrEqual(0);
+          expect(slot.top + slot.height).toBeLessThanOrEqual(page.height);
+          expect(slot.left + slot.width).toBeLessThanOrEqual(page.width);
+        }
+      }
+    },
+  );
+});
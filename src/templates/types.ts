@@ -0,0 +1,150 @@
+import type { RichtextFormatting, TextAttributes } from "@canva/design";
+
+/**
+ * The position and size of an element on a page, in pixels
+ */
+export interface SlotBox {
+  top: number;
+  left: number;
+  width: number;
+  /**
+   * The vertical space reserved for the slot. Text elements grow with their
+   * content, so this is the space the layout may fill before content overflows.
+   */
+  height: number;
+}
+
+/**
+ * A slot that renders text with fixed typography
+ */
+export type TextSlot = SlotBox &
+  Required<Pick<TextAttributes, "fontSize">> &
+  Pick<TextAttributes, "fontWeight" | "fontStyle" | "textAlign" | "color">;
+
+/**
+ * A text slot that renders formatted text, such as bold headers
+ */
+export type RichtextSlot = TextSlot & Pick<RichtextFormatting, "lineHeightEm">;
+
+/**
+ * A text slot with static copy, such as a section heading.
+ * Tokens like `{day}` or `{title}` in the text are replaced with recipe values.
+ */
+export type LabelSlot = TextSlot & {
+  text: string;
+};
+
+/**
+ * A slot that renders an image, cropped to fill the box
+ */
+export type ImageSlot = SlotBox;
+
+/**
+ * A row of badges, such as diet labels. The slot is the whole row; each badge
+ * is a text element `badgeWidth` wide, with `gap` between badges, and the
+ * badges are centered in the row.
+ */
+export type BadgeRowSlot = TextSlot & {
+  badgeWidth: number;
+  gap: number;
+};
+
+export interface FrontPageLayout {
+  title: TextSlot;
+  subtitle: LabelSlot;
+  ingredientsHeading: LabelSlot;
+  ingredients: TextSlot;
+  /**
+   * Badges for the diets the box is suitable for
+   */
+  diets: BadgeRowSlot;
+}
+
+/**
+ * The shopping list for the week's recipes, which continues on extra pages if
+ * it doesn't fit on one
+ */
+export interface ShoppingListPageLayout {
+  title: LabelSlot;
+  /**
+   * Replaces the title on the pages that a long list continues onto
+   */
+  continuedTitle: LabelSlot;
+  legend: LabelSlot;
+  list: RichtextSlot;
+}
+
+/**
+ * The page that opens each box's section when several books are created in one run
+ */
+export interface DividerPageLayout {
+  title: TextSlot;
+  week: TextSlot;
+}
+
+export interface RecipePageLayout {
+  title: TextSlot;
+  /**
+   * Replaces the title on the pages that a long recipe continues onto
+   */
+  continuedTitle: LabelSlot;
+  day: LabelSlot;
+  heroImage: ImageSlot;
+  /**
+   * Slots for additional step photos, filled in order
+   */
+  stepImages: ImageSlot[];
+  ingredientsHeading: LabelSlot;
+  ingredients: TextSlot;
+  methodHeading: LabelSlot;
+  method: RichtextSlot;
+  /**
+   * The allergen row on the recipe's first page. `{allergens}` is replaced
+   * with the recipe's allergens.
+   */
+  allergens: LabelSlot;
+  /**
+   * Where the nutrition table goes on the recipe's last page. Sections in the
+   * same column end above it on that page.
+   */
+  nutrition: SlotBox;
+  /**
+   * Badges for the diets the recipe is suitable for, on its first page
+   */
+  diets: BadgeRowSlot;
+}
+
+export type PagePresetId = "a4-portrait" | "a5-booklet" | "square-social";
+
+/**
+ * The size of a page, in pixels
+ */
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * A complete set of slots for one page shape
+ * @property page - The page size that the slot coordinates were designed for
+ */
+export interface PageLayout {
+  page: PageSize;
+  frontPage: FrontPageLayout;
+  shoppingListPage: ShoppingListPageLayout;
+  dividerPage: DividerPageLayout;
+  recipePage: RecipePageLayout;
+}
+
+/**
+ * Describes how a recipe book is laid out for a box. The base layout is scaled
+ * to the design's page size. Pages whose shape is too different to scale well,
+ * like square social posts, can get a reflowed layout of their own.
+ * @property id - The `templateId` of the boxes that use this layout
+ * @property variants - Layouts that replace the base layout on pages matching a preset
+ */
+export interface LayoutTemplate extends PageLayout {
+  id: string;
+  name: string;
+  variants?: Partial<Record<PagePresetId, PageLayout>>;
+}
@@ -0,0 +1,167 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { TestAppI18nProvider } from "@canva/app-i18n-kit";
+import { TestAppUiProvider } from "@canva/app-ui-kit";
+import type { Box, BoxData } from "../types";
+import { App } from "../app";
+import { fetchBoxData, fetchBoxes } from "../services/api";
+import {
+  BookGenerationError,
+  createGenerationRun,
+} from "../services/generation_run";
+import { uploadRecipeImages } from "../services/image_upload";
+import { createCompleteRecipeBook } from "../services/recipe_page_generator";
+import { loadWeekOptions } from "../services/week_availability";
+
+// The real module reads the backend host from the build, so it can't be loaded here
+jest.mock("../services/api", () => ({
+  ApiError: class extends Error {},
+  fetchBoxes: jest.fn(),
+  fetchBoxData: jest.fn(),
+  getCachedBoxData: jest.fn(),
+}));
+jest.mock("../services/week_availability", () => ({
+  ...jest.requireActual("../services/week_availability"),
+  loadWeekOptions: jest.fn(),
+}));
+jest.mock("../services/image_upload", () => ({
+  uploadRecipeImages: jest.fn(),
+}));
+jest.mock("../services/recipe_page_generator", () => ({
+  checkRecipeTemplate: jest.fn(),
+  createCompleteRecipeBook: jest.fn(),
+  fillRecipeTemplate: jest.fn(),
+}));
+jest.mock("@canva/intents/design", () => ({ prepareDesignEditor: jest.fn() }));
+
+const VEGAN_BOX: Box = {
+  id: "veganer-kassen",
+  label: "Veganer kassen",
+  templateId: "DAG2yR3gT7I",
+  diets: ["vegansk"],
+};
+
+const BOX_DATA: BoxData = {
+  frontpage: { title: "Uge 43", ingredients: [] },
+  recipes: [
+    {
+      id: "r1",
+      day: 1,
+      title: "Ostetærte",
+      ingredients: [],
+      method: [],
+      diets: ["vegetar"],
+    },
+  ],
+};
+
+function renderInTestProvider(node: React.ReactNode) {
+  return render(
+    <TestAppI18nProvider>
+      <TestAppUiProvider>{node}</TestAppUiProvider>
+    </TestAppI18nProvider>,
+  );
+}
+
+/**
+ * Picks the box and fetches its recipes for the only week on offer
+ */
+async function loadRecipes() {
+  fireEvent.click(
+    await screen.findByRole("combobox", { name: /Choose a box/ }),
+  );
+  fireEvent.click(screen.getByRole("option", { name: "Veganer kassen" }));
+  await waitFor(() => expect(loadWeekOptions).toHaveBeenCalled());
+  fireEvent.click(screen.getByRole("button", { name: "Get Recipes" }));
+}
+
+describe("app", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    jest.mocked(fetchBoxes).mockResolvedValue([VEGAN_BOX]);
+    jest.mocked(loadWeekOptions).mockResolvedValue({
+      source: "backend",
+      weeks: [{ value: "4326", label: "Uge 43" }],
+    });
+    jest
+      .mocked(fetchBoxData)
+      .mockResolvedValue({ data: BOX_DATA, fetchedAt: 0 });
+  });
+
+  it("should warn when a box's recipes don't suit its diets", async () => {
+    renderInTestProvider(<App />);
+
+    await loadRecipes();
+
+    expect(
+      await screen.findByText("Some recipes don't suit the box's diets"),
+    ).toBeTruthy();
+  });
+
+  it("should show the step a book is on, with its page", async () => {
+    jest
+      .mocked(uploadRecipeImages)
+      .mockResolvedValue({ images: [], failedUrls: [] });
+    jest
+      .mocked(createCompleteRecipeBook)
+      .mockImplementation((_data, _recipes, _template, _images, options) => {
+        options?.onProgress?.({
+          kind: "recipe",
+          index: 1,
+          count: 6,
+          title: "Fiskefrikadeller",
+          page: 2,
+          pageCount: 3,
+        });
+        // The book is still being created when the test ends
+        return new Promise(() => undefined);
+      });
+    renderInTestProvider(<App />);
+
+    await loadRecipes();
+    fireEvent.click(
+      await screen.findByRole("button", {
+        name: "Create Complete Recipe Book",
+      }),
+    );
+
+    expect(
+      await screen.findByText(
+        "Creating recipe 2 of 6: Fiskefrikadeller, page 2 of 3",
+      ),
+    ).toBeTruthy();
+  });
+
+  it("should show the status of each part of a book that failed", async () => {
+    jest
+      .mocked(uploadRecipeImages)
+      .mockResolvedValue({ images: [], failedUrls: [] });
+    const run = createGenerationRun(BOX_DATA.recipes);
+    jest.mocked(createCompleteRecipeBook).mockRejectedValue(
+      new BookGenerationError(
+        "Failed",
+        {
+          ...run,
+          frontPage: { ...run.frontPage, status: "created" },
+          recipes: [{ ...run.recipes[0], status: "failed" }],
+        },
+        new Error("Canva is down"),
+      ),
+    );
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    renderInTestProvider(<App />);
+
+    await loadRecipes();
+    fireEvent.click(
+      await screen.findByRole("button", {
+        name: "Create Complete Recipe Book",
+      }),
+    );
+
+    expect(await screen.findByText("Book status")).toBeTruthy();
+    expect(screen.getByText("Created")).toBeTruthy();
+    expect(screen.getByText("Pending")).toBeTruthy();
+    expect(screen.getByText("Failed")).toBeTruthy();
+  });
+});
@@ -1,7 +1,17 @@
+/**
+ * A diet that a box or recipe is suitable for
+ */
+export type DietTag = "vegetar" | "vegansk" | "glutenfri" | "laktosefri";
+
+/**
+ * @property diets - The diets every recipe in the box is suitable for, e.g.
+ * `vegansk` for Veganer kassen
+ */
 export interface Box {
   id: string;
   label: string;
   templateId: string;
+  diets?: DietTag[];
 }
 
 export interface MethodStep {
@@ -9,12 +19,91 @@ export interface MethodStep {
   text: string;
 }
 
+export interface RecipeImages {
+  hero?: string;
+  steps?: string[];
+}
+
+/**
+ * Where an ingredient is found in the shop, used to group the shopping list
+ */
+export type IngredientCategory = "grønt" | "køl" | "kolonial";
+
+/**
+ * An ingredient with its quantity, e.g. `2 spsk olivenolie, gerne ekstra jomfru`
+ * @property amount - The quantity, for the recipe's number of servings. Left
+ * out for ingredients without one, like `Salt og peber`.
+ * @property unit - The unit of the amount, e.g. `g`, `dl` or `spsk`. Left out
+ * for countable ingredients, like `1 løg`.
+ * @property note - Preparation or other details, e.g. `finthakket`
+ * @property category - Where the ingredient is found in the shop. Guessed from
+ * the name when left out.
+ */
+export interface Ingredient {
+  amount?: number;
+  unit?: string;
+  name: string;
+  note?: string;
+  category?: IngredientCategory;
+}
+
+/**
+ * The 14 allergens that EU food labelling requires to be declared
+ */
+export type Allergen =
+  | "gluten"
+  | "krebsdyr"
+  | "æg"
+  | "fisk"
+  | "jordnødder"
+  | "soja"
+  | "mælk"
+  | "nødder"
+  | "selleri"
+  | "sennep"
+  | "sesam"
+  | "svovldioxid"
+  | "lupin"
+  | "bløddyr";
+
+/**
+ * Nutritional values for one serving
+ * @property energyKj - Energy in kilojoules
+ * @property energyKcal - Energy in kilocalories
+ * @property protein - Protein in grams
+ * @property fat - Fat in grams
+ * @property carbohydrates - Carbohydrates in grams
+ * @property servingWeight - The weight of one serving in grams, used to work
+ * out the values per 100 g
+ */
+export interface Nutrition {
+  energyKj: number;
+  energyKcal: number;
+  protein: number;
+  fat: number;
+  carbohydrates: number;
+  servingWeight?: number;
+}
+
+/**
+ * @property servings - The number of servings the ingredient amounts are for,
+ * see {@link DEFAULT_SERVINGS} for when it's left out
+ * @property allergens - The allergens the recipe contains. An empty array
+ * means none; left out when the backend hasn't declared them.
+ * @property nutrition - Nutritional values per serving, if known
+ * @property diets - The diets the recipe is suitable for
+ */
 export interface Recipe {
   id: string;
   day: number;
   title: string;
-  ingredients: string[];
+  servings?: number;
+  ingredients: Ingredient[];
   method: MethodStep[];
+  images?: RecipeImages;
+  allergens?: Allergen[];
+  nutrition?: Nutrition;
+  diets?: DietTag[];
 }
 
 export interface BoxData {
@@ -25,7 +114,31 @@ export interface BoxData {
   recipes: Recipe[];
 }
 
+/**
+ * Whether a week's recipes are final, or still being worked on
+ */
+export type WeekStatus = "published" | "draft";
+
+/**
+ * Whether a box has recipes in a week, as reported by the backend
+ * @property week - The week identifier (wwyy format)
+ * @property status - Whether the week's recipes are published or still a draft
+ * @property recipeCount - The number of recipes in the box that week
+ */
+export interface WeekAvailability {
+  week: string;
+  status: WeekStatus;
+  recipeCount: number;
+}
+
+/**
+ * A week that can be picked in the panel
+ * @property status - The status of the week's recipes, if known
+ * @property disabled - Set for weeks without recipes
+ */
 export interface WeekOption {
   value: string;
   label: string;
+  status?: WeekStatus;
+  disabled?: boolean;
 }
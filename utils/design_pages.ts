@@ -0,0 +1,59 @@
+/* eslint-disable no-console */
+import { openDesign } from "@canva/design";
+import type { DesignEditing } from "@canva/design";
+
+/**
+ * An editable page of the design, as passed to {@link forEachEditablePage}
+ */
+export type EditablePage = Extract<DesignEditing.Page, { type: "absolute" }>;
+
+/**
+ * Calls back with every page of the design that can be edited, then saves the changes
+ * @param onPage - Called once per page, in order
+ * @param save - Whether to save changes, false if the design is only read
+ * @returns Promise that resolves with the indexes of pages that are locked, of a type that can't be edited, or that Canva didn't open
+ */
+export async function forEachEditablePage(
+  onPage: (pageIndex: number, page: EditablePage) => void,
+  save = true,
+): Promise<number[]> {
+  const skippedPages: number[] = [];
+
+  await openDesign({ type: "all_pages" }, async (session) => {
+    const pageRefs = session.pageRefs.toArray();
+    console.log("Design session started, processing", pageRefs.length, "pages");
+
+    for (const [pageIndex, pageRef] of pageRefs.entries()) {
+      if (pageRef.type !== "absolute" || pageRef.locked) {
+        console.log(
+          `Skipping page ${pageIndex + 1}, it's locked or not supported`,
+        );
+        skippedPages.push(pageIndex);
+        continue;
+      }
+
+      const response = await session.helpers.openPage(
+        pageRef,
+        async ({ page }) => {
+          if (page.type !== "absolute") {
+            skippedPages.push(pageIndex);
+            return;
+          }
+          onPage(pageIndex, page);
+        },
+      );
+      if (response.status === "skipped") {
+        console.log(`Skipping page ${pageIndex + 1}, ${response.reason}`);
+        skippedPages.push(pageIndex);
+      }
+    }
+
+    // Commit all changes
+    if (save) {
+      console.log("Committing design changes...");
+      await session.sync();
+    }
+  });
+
+  return skippedPages;
+}
@@ -0,0 +1,209 @@
+/* eslint-disable no-console */
+import type { ImageRef } from "@canva/asset";
+import type { DesignEditing } from "@canva/design";
+import { forEachEditablePage } from "./design_pages";
+import type { EditablePage } from "./design_pages";
+import type {
+  PagePlaceholderReport,
+  PlaceholderReport,
+  ReplacementSource,
+} from "./text_replacement";
+
+type FrameElement = DesignEditing.RectElement | DesignEditing.ShapeElement;
+
+// A text that is nothing but an image placeholder, e.g. `{{recipeImage_2}}`
+const IMAGE_TAG_PATTERN = /^\{\{\s*(\w*Image(?:_\d+)*)\s*\}\}$/;
+
+/**
+ * Reads the image placeholder a text tags, if the text is nothing but one
+ * @param text - The plaintext of a text element
+ * @returns The placeholder name, e.g. `recipeImage_2`
+ */
+export function readImageTag(text: string): string | undefined {
+  return IMAGE_TAG_PATTERN.exec(text.trim())?.[1];
+}
+
+function isFrame(
+  element: DesignEditing.AbsoluteElement | DesignEditing.GroupContentElement,
+): element is FrameElement {
+  return element.type === "rect" || element.type === "shape";
+}
+
+function contains(
+  frame: FrameElement,
+  { top, left, width, height }: FrameElement | DesignEditing.TextElement,
+) {
+  const centerX = left + width / 2;
+  const centerY = top + height / 2;
+  return (
+    centerX >= frame.left &&
+    centerX <= frame.left + frame.width &&
+    centerY >= frame.top &&
+    centerY <= frame.top + frame.height
+  );
+}
+
+/**
+ * Fills a rect, or every path of a shape whose fill can be changed, with an image
+ * @returns Whether anything was filled
+ */
+function fillFrame(frame: FrameElement, imageRef: ImageRef): boolean {
+  const image: DesignEditing.ImageFill = {
+    type: "image",
+    flipX: false,
+    flipY: false,
+    imageRef,
+  };
+  if (frame.type === "rect") {
+    frame.fill.mediaContainer.set(image);
+    return true;
+  }
+  let filled = false;
+  frame.paths.forEach((path) => {
+    if (path.fill.isMediaEditable) {
+      path.fill.mediaContainer.set(image);
+      filled = true;
+    }
+  });
+  return filled;
+}
+
+/**
+ * A tag found on a page, with the frame it marks
+ */
+interface ImageTag {
+  key: string;
+  frame: FrameElement | undefined;
+  // Removes the tag once its frame is filled
+  remove: () => void;
+}
+
+/**
+ * Finds the image tags on a page. A tag inside a group marks the first rect or
+ * shape in the group. A tag outside a group marks the topmost rect or shape
+ * under the middle of it.
+ */
+function findImageTags(page: EditablePage): ImageTag[] {
+  const tags: ImageTag[] = [];
+  const elements = page.elements.toArray();
+
+  elements.forEach((element, index) => {
+    if (element.locked) {
+      return;
+    }
+    if (element.type === "text") {
+      const key = readImageTag(element.text.readPlaintext());
+      if (!key) {
+        return;
+      }
+      // Elements later in the list are in front, so search back from the tag first
+      const below = elements.slice(0, index).reverse();
+      const above = elements.slice(index + 1);
+      const frame = [...below, ...above].find(
+        (candidate): candidate is FrameElement =>
+          isFrame(candidate) &&
+          !candidate.locked &&
+          contains(candidate, element),
+      );
+      tags.push({ key, frame, remove: () => page.elements.delete(element) });
+    } else if (element.type === "group") {
+      const contents = element.contents.toArray();
+      contents.forEach((content) => {
+        const key =
+          content.type === "text"
+            ? readImageTag(content.text.readPlaintext())
+            : undefined;
+        if (content.type !== "text" || !key) {
+          return;
+        }
+        // Group contents can't be removed, so the tag is emptied instead
+        const { text } = content;
+        tags.push({
+          key,
+          frame: contents.find(isFrame),
+          remove: () =>
+            text.replaceText(
+              { index: 0, length: text.readPlaintext().length },
+              "",
+            ),
+        });
+      });
+    }
+  });
+
+  return tags;
+}
+
+/**
+ * Replaces the fill of tagged image frames on every page of the design with
+ * uploaded images. A frame is tagged by a text that is nothing but an image
+ * placeholder, such as `{{recipeImage_2}}`, placed over the frame or grouped
+ * with it. The tag is removed once the frame is filled.
+ *
+ * Alt text would be a more natural way to tag frames, but the design editing
+ * API doesn't expose it for rects and shapes.
+ * @param images - Object mapping placeholder names to image references, or a function returning one per page
+ * @returns Promise that resolves with a report of the frames filled per page.
+ * Tags without a frame under them are reported in the page's errors.
+ */
+export async function replaceImagePlaceholders(
+  images: ReplacementSource<ImageRef>,
+): Promise<PlaceholderReport> {
+  const pages: PagePlaceholderReport[] = [];
+  const offeredPlaceholders = new Set<string>();
+
+  const skippedPages = await forEachEditablePage((pageIndex, page) => {
+    const values = typeof images === "function" ? images(pageIndex) : images;
+    Object.keys(values)
+      .filter((placeholder) => values[placeholder] !== undefined)
+      .forEach((placeholder) => offeredPlaceholders.add(placeholder));
+    const pageReport: PagePlaceholderReport = {
+      pageIndex,
+      filled: [],
+      unmatched: [],
+      replacements: 0,
+      errors: [],
+    };
+
+    for (const { key, frame, remove } of findImageTags(page)) {
+      const imageRef = values[key];
+      if (!imageRef) {
+        console.log(`No image for placeholder {{${key}}}`);
+        if (!pageReport.unmatched.includes(key)) {
+          pageReport.unmatched.push(key);
+        }
+        continue;
+      }
+      if (!frame || !fillFrame(frame, imageRef)) {
+        pageReport.errors.push(`No frame to fill for {{${key}}}`);
+        continue;
+      }
+      console.log(
+        `Filled the frame tagged {{${key}}} on page ${pageIndex + 1}`,
+      );
+      remove();
+      pageReport.replacements++;
+      if (!pageReport.filled.includes(key)) {
+        pageReport.filled.push(key);
+      }
+    }
+
+    if (
+      pageReport.filled.length > 0 ||
+      pageReport.unmatched.length > 0 ||
+      pageReport.errors.length > 0
+    ) {
+      pages.push(pageReport);
+    }
+  });
+
+  const filled = [...new Set(pages.flatMap((page) => page.filled))];
+  const unmatched = [...new Set(pages.flatMap((page) => page.unmatched))];
+  const missing = [...offeredPlaceholders].filter(
+    (placeholder) => !filled.includes(placeholder),
+  );
+  console.log(
+    `Image replacement completed: ${filled.length} filled, ${missing.length} missing, ${unmatched.length} unmatched`,
+  );
+  return { filled, missing, unmatched, pages, skippedPages };
+}
@@ -0,0 +1,133 @@
+/**
+ * A week as defined by ISO 8601: weeks start on Monday, and week 1 is the week
+ * with the year's first Thursday. Around New Year the week-year can differ from
+ * the calendar year, e.g. 29 December 2025 is in week 1 of 2026.
+ * @property week - The week number (1-53)
+ * @property year - The ISO week-year, e.g. 2026
+ */
+export interface IsoWeek {
+  week: number;
+  year: number;
+}
+
+/**
+ * The days of an ISO week, as local dates at midnight
+ * @property start - The Monday the week starts on
+ * @property end - The Sunday the week ends on
+ */
+export interface IsoWeekRange {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 86400000;
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "maj",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "okt",
+  "nov",
+  "dec",
+];
+
+// Calculations use UTC dates, so daylight saving time can't shift a day
+const toUtc = (date: Date) =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+const toLocal = (date: Date) =>
+  new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/**
+ * Gets the ISO week and week-year of a date
+ * @param date - The date, read in local time
+ */
+export function getIsoWeek(date: Date): IsoWeek {
+  const d = toUtc(date);
+  // The Thursday of the week decides which year the week belongs to
+  const dayNum = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+  const year = d.getUTCFullYear();
+  const yearStart = Date.UTC(year, 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return { week, year };
+}
+
+/**
+ * Gets the number of ISO weeks in a week-year: 53 for years that start on a
+ * Thursday, or leap years that start on a Wednesday, and 52 otherwise
+ * @param year - The ISO week-year
+ */
+export function getWeeksInYear(year: number): number {
+  // 28 December is always in the last week of its year
+  return getIsoWeek(new Date(year, 11, 28)).week;
+}
+
+/**
+ * Gets the Monday to Sunday date range of an ISO week
+ * @param isoWeek - The week
+ */
+export function getIsoWeekRange({ week, year }: IsoWeek): IsoWeekRange {
+  // 4 January is always in week 1
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const start = new Date(
+    jan4.getTime() + ((week - 1) * 7 - ((jan4.getUTCDay() || 7) - 1)) * DAY_MS,
+  );
+  const end = new Date(start.getTime() + 6 * DAY_MS);
+  return { start: toLocal(start), end: toLocal(end) };
+}
+
+/**
+ * Moves a number of weeks forward or back, across week-years
+ * @param isoWeek - The week to start from
+ * @param weeks - The number of weeks to move, negative to go back
+ */
+export function addWeeks(isoWeek: IsoWeek, weeks: number): IsoWeek {
+  const { start } = getIsoWeekRange(isoWeek);
+  return getIsoWeek(
+    toLocal(new Date(toUtc(start).getTime() + weeks * 7 * DAY_MS)),
+  );
+}
+
+/**
+ * Formats a week in the "wwyy" format the recipe API uses, e.g. `0126`
+ * @param isoWeek - The week
+ */
+export function formatWeekValue({ week, year }: IsoWeek): string {
+  return `${String(week).padStart(2, "0")}${String(year % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Parses a week in the "wwyy" format, see {@link formatWeekValue}
+ * @param value - The week, e.g. `0126`
+ * @returns The week, or `undefined` if the value isn't a week that exists
+ */
+export function parseWeekValue(value: string): IsoWeek | undefined {
+  const match = /^(\d{2})(\d{2})$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const week = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (week < 1 || week > getWeeksInYear(year)) {
+    return undefined;
+  }
+  return { week, year };
+}
+
+function formatDay(date: Date): string {
+  return `${date.getDate()}. ${MONTHS[date.getMonth()]}`;
+}
+
+/**
+ * Formats a week for display with its dates, e.g. "Uge 1 (29. dec – 4. jan)"
+ * @param isoWeek - The week
+ */
+export function formatWeekLabel(isoWeek: IsoWeek): string {
+  const { start, end } = getIsoWeekRange(isoWeek);
+  return `Uge ${isoWeek.week} (${formatDay(start)} – ${formatDay(end)})`;
+}
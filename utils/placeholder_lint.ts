@@ -0,0 +1,191 @@
+/**
+ * A placeholder found in a design
+ * @property key - The placeholder name, without braces or filters
+ * @property pageIndex - The index of the page it's on (0-based)
+ */
+export interface PlaceholderOccurrence {
+  key: string;
+  pageIndex: number;
+}
+
+/**
+ * A placeholder in the design there's no data for
+ * @property key - The placeholder name
+ * @property pages - The pages it's on (0-based)
+ * @property suggestion - A data field with a similar name, if it looks like a typo
+ */
+export interface UnknownPlaceholder {
+  key: string;
+  pages: number[];
+  suggestion?: string;
+}
+
+/**
+ * A placeholder used more than once in the design
+ * @property key - The placeholder name
+ * @property count - How many times it's used
+ * @property pages - The pages it's on (0-based)
+ */
+export interface DuplicatePlaceholder {
+  key: string;
+  count: number;
+  pages: number[];
+}
+
+/**
+ * Numbered placeholders, such as `recipeTitle_1`, that skip a number
+ * @property prefix - The placeholder name before the number, e.g. `recipeTitle`
+ * @property missing - The numbers that are skipped
+ */
+export interface PlaceholderIndexGap {
+  prefix: string;
+  missing: number[];
+}
+
+/**
+ * A data field a placeholder can use. A field with several names, such as the
+ * text and list forms of the same ingredients, is used when any of its names
+ * is, and is listed as unused under its first name.
+ */
+export type TemplateField = string | string[];
+
+/**
+ * The problems found when checking a template against the data for it
+ * @property unknown - Placeholders in the design there's no data for, e.g. typos
+ * @property unused - Data fields that no placeholder in the design uses. This
+ * is for information only, as a template doesn't have to show every field.
+ * @property duplicates - Placeholders used more than once in the design
+ * @property indexGaps - Numbered placeholders that skip a number
+ */
+export interface PlaceholderLintReport {
+  unknown: UnknownPlaceholder[];
+  unused: string[];
+  duplicates: DuplicatePlaceholder[];
+  indexGaps: PlaceholderIndexGap[];
+}
+
+// Names further apart than this aren't suggested as the intended field
+const MAX_TYPO_DISTANCE = 2;
+const INDEXED_PATTERN = /^(\w+?)_(\d+)$/;
+
+/**
+ * Counts the single-character edits needed to turn one text into another
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the field a mistyped placeholder was most likely meant to be
+ * @param key - The unknown placeholder name
+ * @param fields - The names there's data for
+ * @returns The closest field, if it's close enough to be a typo
+ */
+export function suggestField(
+  key: string,
+  fields: string[],
+): string | undefined {
+  let best: { field: string; distance: number } | undefined;
+  for (const field of fields) {
+    // Differences in case count as a single edit
+    const distance =
+      field.toLowerCase() === key.toLowerCase() ? 1 : editDistance(key, field);
+    if (distance <= MAX_TYPO_DISTANCE && (!best || distance < best.distance)) {
+      best = { field, distance };
+    }
+  }
+  return best?.field;
+}
+
+function findIndexGaps(keys: string[]): PlaceholderIndexGap[] {
+  const indexesByPrefix = new Map<string, Set<number>>();
+  keys.forEach((key) => {
+    const match = INDEXED_PATTERN.exec(key);
+    if (match) {
+      const indexes = indexesByPrefix.get(match[1]) ?? new Set<number>();
+      indexes.add(Number(match[2]));
+      indexesByPrefix.set(match[1], indexes);
+    }
+  });
+
+  return [...indexesByPrefix].flatMap(([prefix, indexes]) => {
+    const max = Math.max(...indexes);
+    const missing = Array.from({ length: max }, (_, i) => i + 1).filter(
+      (index) => !indexes.has(index),
+    );
+    return missing.length > 0 ? [{ prefix, missing }] : [];
+  });
+}
+
+/**
+ * Checks the placeholders in a design against the data fields available for it
+ * @param occurrences - Every placeholder found in the design, including repeats
+ * @param fields - The data fields there's data for
+ * @param optionalNames - Placeholder names that are known but needn't be in
+ * the design, such as frames for photos a recipe may not have
+ * @returns The unknown, unused and duplicated placeholders, and gaps in numbered ones
+ */
+export function lintPlaceholders(
+  occurrences: PlaceholderOccurrence[],
+  fields: TemplateField[],
+  optionalNames: string[] = [],
+): PlaceholderLintReport {
+  const namesByField = fields.map((field) =>
+    typeof field === "string" ? [field] : field,
+  );
+  const names = namesByField.flat();
+  const knownNames = [...names, ...optionalNames];
+  const pagesByKey = new Map<string, number[]>();
+  occurrences.forEach(({ key, pageIndex }) => {
+    pagesByKey.set(key, [...(pagesByKey.get(key) ?? []), pageIndex]);
+  });
+  const keys = [...pagesByKey.keys()];
+  const distinctPages = (key: string) => [
+    ...new Set(pagesByKey.get(key) ?? []),
+  ];
+
+  return {
+    unknown: keys
+      .filter((key) => !knownNames.includes(key))
+      .map((key) => {
+        const suggestion = suggestField(key, names);
+        return {
+          key,
+          pages: distinctPages(key),
+          ...(suggestion && { suggestion }),
+        };
+      }),
+    unused: namesByField
+      .filter((fieldNames) => !fieldNames.some((name) => pagesByKey.has(name)))
+      .map(([name]) => name),
+    duplicates: keys
+      .filter((key) => (pagesByKey.get(key)?.length ?? 0) > 1)
+      .map((key) => ({
+        key,
+        count: pagesByKey.get(key)?.length ?? 0,
+        pages: distinctPages(key),
+      })),
+    indexGaps: findIndexGaps(keys),
+  };
+}
+
+/**
+ * Checks whether a lint report found any problems. Unused fields aren't
+ * problems, see {@link PlaceholderLintReport}.
+ */
+export function hasLintProblems(report: PlaceholderLintReport): boolean {
+  return (
+    report.unknown.length > 0 ||
+    report.duplicates.length > 0 ||
+    report.indexGaps.length > 0
+  );
+}
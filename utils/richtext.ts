@@ -0,0 +1,253 @@
+import { createRichtextRange } from "@canva/design";
+import type {
+  InlineFormatting,
+  RichtextFormatting,
+  RichtextRange,
+} from "@canva/design";
+
+/**
+ * A run of text that shares the same inline formatting
+ */
+export type TextRun = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+};
+
+/**
+ * A paragraph of parsed markdown
+ * @property list - The kind of list the paragraph is an item of, if any
+ */
+export type MarkdownParagraph = {
+  list?: "bullet" | "numbered";
+  runs: TextRun[];
+};
+
+/**
+ * Formatting applied to every paragraph of the converted text. Inline
+ * properties, like the color and font weight, are applied to each run, so
+ * markdown bold and italic take precedence over them.
+ */
+export type ParagraphStyle = Omit<
+  RichtextFormatting,
+  "listLevel" | "listMarker"
+>;
+
+const INLINE_PROPERTIES: (keyof InlineFormatting)[] = [
+  "color",
+  "fontWeight",
+  "fontStyle",
+  "decoration",
+  "strikethrough",
+  "link",
+];
+
+const BULLET_PATTERN = /^[-*•]\s+/;
+const NUMBERED_PATTERN = /^\d+[.)]\s+/;
+const ESCAPABLE_PATTERN = /[\\*.)\-•]/;
+
+/**
+ * Escapes text so that it's rendered literally by {@link parseMarkdown}
+ * @param text - Plain text that may contain markdown characters
+ * @returns The escaped text
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\*]/g, "\\$&")
+    .replace(/^[-•]/, "\\$&")
+    .replace(/^(\d+)([.)])/, "$1\\$2");
+}
+
+type Token = { kind: "text"; text: string } | { kind: "bold" | "italic" };
+
+function tokenize(line: string): Token[] {
+  const tokens: Token[] = [];
+  let text = "";
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const next = line[i + 1];
+    if (char === "\\" && next !== undefined && ESCAPABLE_PATTERN.test(next)) {
+      text += next;
+      i++;
+    } else if (char === "*") {
+      if (text) {
+        tokens.push({ kind: "text", text });
+        text = "";
+      }
+      if (next === "*") {
+        tokens.push({ kind: "bold" });
+        i++;
+      } else {
+        tokens.push({ kind: "italic" });
+      }
+    } else {
+      text += char;
+    }
+  }
+  if (text) {
+    tokens.push({ kind: "text", text });
+  }
+  return tokens;
+}
+
+function parseInline(line: string): TextRun[] {
+  const tokens = tokenize(line);
+
+  // A marker without a partner later in the line is literal text
+  const unpaired = new Set<Token>();
+  for (const kind of ["bold", "italic"] as const) {
+    const markers = tokens.filter((token) => token.kind === kind);
+    if (markers.length % 2 === 1) {
+      unpaired.add(markers[markers.length - 1]);
+    }
+  }
+
+  const runs: TextRun[] = [];
+  let bold = false;
+  let italic = false;
+  const pushText = (text: string) => {
+    const last = runs[runs.length - 1];
+    if (last && !!last.bold === bold && !!last.italic === italic) {
+      last.text += text;
+    } else {
+      runs.push({
+        text,
+        ...(bold && { bold }),
+        ...(italic && { italic }),
+      });
+    }
+  };
+
+  for (const token of tokens) {
+    if (token.kind === "text") {
+      pushText(token.text);
+    } else if (unpaired.has(token)) {
+      pushText(token.kind === "bold" ? "**" : "*");
+    } else if (token.kind === "bold") {
+      bold = !bold;
+    } else {
+      italic = !italic;
+    }
+  }
+  return runs;
+}
+
+/**
+ * Parses a small subset of markdown: `**bold**`, `*italic*`, bullet lists
+ * (`- item`) and numbered lists (`1. item`). A backslash escapes the next
+ * markdown character. Every line is a paragraph, including empty lines.
+ * @param markdown - The markdown text
+ * @returns The parsed paragraphs
+ */
+export function parseMarkdown(markdown: string): MarkdownParagraph[] {
+  return markdown.split("\n").map((line) => {
+    const bullet = line.match(BULLET_PATTERN);
+    // `**bold**` at the start of a line is formatting, not a bullet
+    if (bullet && !line.startsWith("**")) {
+      return {
+        list: "bullet",
+        runs: parseInline(line.slice(bullet[0].length)),
+      };
+    }
+    const numbered = line.match(NUMBERED_PATTERN);
+    if (numbered) {
+      return {
+        list: "numbered",
+        runs: parseInline(line.slice(numbered[0].length)),
+      };
+    }
+    return { runs: parseInline(line) };
+  });
+}
+
+/**
+ * Splits a paragraph style into the properties that format characters and the
+ * properties that format whole paragraphs
+ */
+function splitParagraphStyle(style: ParagraphStyle): {
+  inline: InlineFormatting;
+  paragraph: ParagraphStyle;
+} {
+  const inline: Record<string, unknown> = {};
+  const paragraph: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(style)) {
+    if (value !== undefined) {
+      const isInline = INLINE_PROPERTIES.includes(
+        key as keyof InlineFormatting,
+      );
+      (isInline ? inline : paragraph)[key] = value;
+    }
+  }
+  return { inline, paragraph };
+}
+
+function toInlineFormatting(
+  run: TextRun,
+  style: InlineFormatting,
+): InlineFormatting {
+  // Set the weight and style of every run, so runs don't inherit the
+  // formatting of the run before them
+  return {
+    ...style,
+    fontWeight: run.bold ? "bold" : (style.fontWeight ?? "normal"),
+    fontStyle: run.italic ? "italic" : (style.fontStyle ?? "normal"),
+  };
+}
+
+/**
+ * Appends markdown to a richtext range as formatted text
+ * @param range - The range to append to
+ * @param markdown - The markdown text, see {@link parseMarkdown}
+ * @param paragraphStyle - Formatting applied to every appended paragraph, see
+ * {@link ParagraphStyle}
+ * @returns The range, to allow chaining
+ */
+export function appendMarkdown(
+  range: RichtextRange,
+  markdown: string,
+  paragraphStyle: ParagraphStyle = {},
+): RichtextRange {
+  const { inline, paragraph } = splitParagraphStyle(paragraphStyle);
+  const start = range.readPlaintext().length;
+  const paragraphs = parseMarkdown(markdown);
+  const listParagraphs: { index: number; list: "bullet" | "numbered" }[] = [];
+
+  let offset = start;
+  paragraphs.forEach((paragraph, i) => {
+    if (paragraph.list) {
+      listParagraphs.push({ index: offset, list: paragraph.list });
+    }
+    for (const run of paragraph.runs) {
+      offset += range.appendText(run.text, toInlineFormatting(run, inline))
+        .bounds.length;
+    }
+    if (i < paragraphs.length - 1) {
+      offset += range.appendText("\n").bounds.length;
+    }
+  });
+
+  if (offset > start && Object.keys(paragraph).length > 0) {
+    range.formatParagraph({ index: start, length: offset - start }, paragraph);
+  }
+  for (const { index, list } of listParagraphs) {
+    range.formatParagraph(
+      { index, length: 1 },
+      { listLevel: 1, listMarker: list === "bullet" ? "disc" : "decimal" },
+    );
+  }
+
+  return range;
+}
+
+/**
+ * Converts markdown into a new richtext range, ready to be added as a richtext element
+ * @param markdown - The markdown text, see {@link parseMarkdown}
+ * @param paragraphStyle - Formatting applied to every paragraph
+ * @returns A richtext range containing the formatted text
+ */
+export function markdownToRichtext(
+  markdown: string,
+  paragraphStyle?: ParagraphStyle,
+): RichtextRange {
+  return appendMarkdown(createRichtextRange(), markdown, paragraphStyle);
+}
@@ -0,0 +1,394 @@
+/**
+ * A value a template placeholder can be filled with. Lists can be looped over
+ * with `{{#each}}` or formatted with the `join`, `bullet` and `numbered` filters.
+ */
+export type TemplateValue = string | string[];
+
+/**
+ * The values available to a template, by placeholder name
+ */
+export type TemplateValues = Record<string, TemplateValue | undefined>;
+
+/**
+ * The filters that can be applied to a placeholder with `|`
+ */
+export type TemplateFilterName =
+  | "default"
+  | "upper"
+  | "join"
+  | "bullet"
+  | "numbered";
+
+/**
+ * A filter applied to a placeholder, e.g. `join:", "`
+ * @property name - The name of the filter
+ * @property arg - The filter's argument, if it has one
+ */
+export interface TemplateFilter {
+  name: TemplateFilterName;
+  arg?: string;
+}
+
+/**
+ * A piece of a parsed template
+ * @property index - Where the node starts in the template
+ * @property source - The template text the node was parsed from, kept so that
+ * placeholders with no value can be left as they are
+ */
+export type TemplateNode =
+  | { type: "text"; text: string }
+  | {
+      type: "placeholder";
+      key: string;
+      filters: TemplateFilter[];
+      index: number;
+      source: string;
+    }
+  | {
+      type: "each";
+      key: string;
+      body: TemplateNode[];
+      index: number;
+      source: string;
+    };
+
+/**
+ * A placeholder or loop in a template that was replaced
+ * @property key - The name of the placeholder or loop
+ * @property index - Where the placeholder starts in the template
+ * @property length - The length of the placeholder in the template
+ * @property text - The text it was replaced with
+ */
+export interface TemplateSpan {
+  key: string;
+  index: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * The result of rendering a template
+ * @property text - The rendered text
+ * @property filled - Placeholders that were given a value
+ * @property unmatched - Placeholders that had no value, and were left as they are
+ * @property replacements - The number of placeholders and loops that were replaced
+ * @property spans - The placeholders and loops that were replaced, in order, so
+ * that only their text needs to be changed
+ */
+export interface RenderResult {
+  text: string;
+  filled: string[];
+  unmatched: string[];
+  replacements: number;
+  spans: TemplateSpan[];
+}
+
+/**
+ * Thrown when a template can't be parsed, e.g. for an unknown filter or a
+ * loop that is never closed
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly index: number,
+  ) {
+    super(message);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+// Tags can't contain braces, so `{{{{name}}` is read as text followed by `{{name}}`
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const KEY_PATTERN = /^\w+$/;
+const EACH_PATTERN = /^#each\s+(\w+)$/;
+const FILTER_NAMES: TemplateFilterName[] = [
+  "default",
+  "upper",
+  "join",
+  "bullet",
+  "numbered",
+];
+// The item being looped over in an `{{#each}}` block
+const ITEM_KEY = "this";
+
+/**
+ * Splits a placeholder expression on `|`, ignoring any inside quoted arguments
+ */
+function splitPipes(expression: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quoted && char === "\\") {
+      current += char + (expression[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if (char === "|" && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseFilter(text: string, index: number): TemplateFilter {
+  const match = /^(\w+)(?::(?:"((?:[^"\\]|\\.)*)"|([^\s"]+)))?$/.exec(
+    text.trim(),
+  );
+  const name = match?.[1] as TemplateFilterName | undefined;
+  if (!match || !name || !FILTER_NAMES.includes(name)) {
+    throw new TemplateSyntaxError(`Unknown filter "${text.trim()}"`, index);
+  }
+  const quoted = match[2]?.replace(/\\(.)/g, "$1");
+  const arg = quoted ?? match[3];
+  return arg === undefined ? { name } : { name, arg };
+}
+
+/**
+ * Parses a template into text, placeholders and loops.
+ * - `{{name}}` is replaced with a value
+ * - `{{name|default:"-"}}` falls back to a value when there's none or it's empty
+ * - `{{name|upper}}`, `{{name|join:", "}}`, `{{name|bullet}}` (or `bullet:"-"`)
+ *   and `{{name|numbered}}` format a value, and can be chained
+ * - `{{#each name}}• {{this}}{{/each}}` repeats its content for every item of a list
+ *
+ * Braces that don't form a valid placeholder, such as `{{two words}}`, are kept as text.
+ * @param template - The text to parse
+ * @returns The parsed nodes, in order
+ * @throws {TemplateSyntaxError} If a filter is unknown or a loop isn't closed properly
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { key: string; body: TemplateNode[]; start: number }[] = [];
+  const current = () => open[open.length - 1]?.body ?? root;
+  let textStart = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      current().push({ type: "text", text: template.slice(textStart, end) });
+    }
+  };
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const expression = match[1].trim();
+    const each = EACH_PATTERN.exec(expression);
+
+    if (each) {
+      pushText(start);
+      open.push({ key: each[1], body: [], start });
+    } else if (expression === "/each") {
+      // The text before the closing tag belongs to the loop
+      pushText(start);
+      const block = open.pop();
+      if (!block) {
+        throw new TemplateSyntaxError(
+          "{{/each}} without a matching {{#each}}",
+          start,
+        );
+      }
+      current().push({
+        type: "each",
+        key: block.key,
+        body: block.body,
+        index: block.start,
+        source: template.slice(block.start, end),
+      });
+    } else {
+      const [key, ...filters] = splitPipes(expression).map((part) =>
+        part.trim(),
+      );
+      if (!KEY_PATTERN.test(key)) {
+        // Not a placeholder, so it stays part of the text
+        continue;
+      }
+      pushText(start);
+      current().push({
+        type: "placeholder",
+        key,
+        filters: filters.map((filter) => parseFilter(filter, start)),
+        index: start,
+        source: match[0],
+      });
+    }
+    textStart = end;
+  }
+
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      `{{#each ${unclosed.key}}} is never closed`,
+      unclosed.start,
+    );
+  }
+  pushText(template.length);
+  return root;
+}
+
+/**
+ * Lists every placeholder and loop name in parsed template nodes, in the order
+ * they appear, including repeats
+ * @param nodes - Nodes from {@link parseTemplate}
+ * @returns The names, without `this`
+ */
+export function listTemplateTokens(nodes: TemplateNode[]): string[] {
+  return nodes.flatMap((node) => {
+    if (node.type === "text") {
+      return [];
+    }
+    const key = node.key === ITEM_KEY ? [] : [node.key];
+    return node.type === "each"
+      ? [...key, ...listTemplateTokens(node.body)]
+      : key;
+  });
+}
+
+/**
+ * Lists the distinct placeholder and loop names in parsed template nodes, in the order they appear
+ * @param nodes - Nodes from {@link parseTemplate}
+ * @returns The names, without `this`
+ */
+export function listTemplateKeys(nodes: TemplateNode[]): string[] {
+  return [...new Set(listTemplateTokens(nodes))];
+}
+
+function toList(value: TemplateValue): string[] {
+  return Array.isArray(value)
+    ? value
+    : value.split("\n").filter((line) => line.trim());
+}
+
+function isEmpty(value: TemplateValue | undefined): boolean {
+  return value === undefined || value.length === 0;
+}
+
+function applyFilter(
+  value: TemplateValue | undefined,
+  { name, arg }: TemplateFilter,
+): TemplateValue | undefined {
+  if (name === "default") {
+    return isEmpty(value) ? (arg ?? "") : value;
+  }
+  if (value === undefined) {
+    return undefined;
+  }
+  if (name === "upper") {
+    return Array.isArray(value)
+      ? value.map((item) => item.toUpperCase())
+      : value.toUpperCase();
+  }
+  if (name === "join") {
+    return Array.isArray(value) ? value.join(arg ?? ", ") : value;
+  }
+  if (name === "bullet") {
+    return toList(value)
+      .map((item) => `${arg ?? "•"} ${item}`)
+      .join("\n");
+  }
+  return toList(value)
+    .map((item, i) => `${i + 1}. ${item}`)
+    .join("\n");
+}
+
+function recordKey(result: RenderResult, key: string, filled: boolean) {
+  const list = filled ? result.filled : result.unmatched;
+  if (key !== ITEM_KEY && !list.includes(key)) {
+    list.push(key);
+  }
+}
+
+/**
+ * Renders a placeholder or loop
+ * @returns The rendered text, or `undefined` if there's no value for it
+ */
+function renderNode(
+  node: Exclude<TemplateNode, { type: "text" }>,
+  values: TemplateValues,
+  item: string | undefined,
+  result: RenderResult,
+): string | undefined {
+  const lookup = (key: string) => (key === ITEM_KEY ? item : values[key]);
+  const value =
+    node.type === "each"
+      ? lookup(node.key)
+      : node.filters.reduce(applyFilter, lookup(node.key));
+  recordKey(result, node.key, value !== undefined);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (node.type === "each") {
+    return toList(value)
+      .map((listItem) => renderNodes(node.body, values, listItem, result))
+      .join("");
+  }
+  // Lists without a formatting filter are put on a line each
+  return Array.isArray(value) ? value.join("\n") : value;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  values: TemplateValues,
+  item: string | undefined,
+  result: RenderResult,
+): string {
+  return nodes
+    .map((node) =>
+      node.type === "text"
+        ? node.text
+        : (renderNode(node, values, item, result) ?? node.source),
+    )
+    .join("");
+}
+
+/**
+ * Renders a template with values. Placeholders and loops there's no value for
+ * are left as they are, so they can be filled later or reported.
+ * @param template - The template text, or nodes already parsed with {@link parseTemplate}
+ * @param values - The values to fill the placeholders with
+ * @returns The rendered text, with which placeholders were filled or left unmatched
+ * @throws {TemplateSyntaxError} If the template text can't be parsed
+ */
+export function renderTemplate(
+  template: string | TemplateNode[],
+  values: TemplateValues,
+): RenderResult {
+  const nodes =
+    typeof template === "string" ? parseTemplate(template) : template;
+  const result: RenderResult = {
+    text: "",
+    filled: [],
+    unmatched: [],
+    replacements: 0,
+    spans: [],
+  };
+  // Loops are rendered as a whole, so only top-level nodes become spans
+  result.text = nodes
+    .map((node) => {
+      if (node.type === "text") {
+        return node.text;
+      }
+      const text = renderNode(node, values, undefined, result);
+      if (text === undefined) {
+        return node.source;
+      }
+      result.spans.push({
+        key: node.key,
+        index: node.index,
+        length: node.source.length,
+        text,
+      });
+      return text;
+    })
+    .join("");
+  result.replacements = result.spans.length;
+  return result;
+}
@@ -0,0 +1,194 @@
+import type { ImageRef } from "@canva/asset";
+import { openDesign } from "@canva/design";
+import type { DesignEditing } from "@canva/design";
+import { readImageTag, replaceImagePlaceholders } from "../image_replacement";
+
+const heroRef = "hero-ref" as ImageRef;
+const stepRef = "step-ref" as ImageRef;
+
+const box = { top: 0, left: 0, width: 100, height: 100, locked: false };
+
+const createRect = (position = box) => ({
+  ...position,
+  type: "rect",
+  fill: { mediaContainer: { set: jest.fn() } },
+});
+
+const createShape = (editable: boolean[]) => {
+  const paths = editable.map((isMediaEditable) => ({
+    fill: { isMediaEditable, mediaContainer: { set: jest.fn() } },
+  }));
+  return {
+    ...box,
+    type: "shape",
+    paths: { forEach: (fn) => paths.forEach(fn) },
+    pathFills: paths.map(({ fill }) => fill.mediaContainer.set),
+  };
+};
+
+const createTag = (
+  text: string,
+  position = { ...box, width: 50, height: 20 },
+) => {
+  let current = text;
+  return {
+    ...position,
+    type: "text",
+    text: {
+      readPlaintext: () => current,
+      replaceText: (_bounds: unknown, characters: string) => {
+        current = characters;
+      },
+    },
+  };
+};
+
+type FakeElement =
+  | ReturnType<typeof createRect>
+  | ReturnType<typeof createShape>
+  | ReturnType<typeof createTag>
+  | { type: "group"; locked: boolean; contents: { toArray: () => unknown[] } };
+
+const mockPage = (elements: FakeElement[]) => {
+  const remaining = [...elements];
+  const sync = jest.fn();
+  jest.mocked(openDesign).mockImplementation(async (_options, callback) => {
+    const pageRef = { type: "absolute", locked: false };
+    const session = {
+      pageRefs: { toArray: () => [pageRef] },
+      helpers: {
+        openPage: async (_ref, pageCallback) => {
+          await pageCallback({
+            page: {
+              type: "absolute",
+              elements: {
+                toArray: () => [...remaining],
+                delete: (element: FakeElement) =>
+                  remaining.splice(remaining.indexOf(element), 1),
+              },
+            },
+          });
+          return { status: "executed" };
+        },
+      },
+      sync,
+    };
+    await callback(session as unknown as DesignEditing.AllPagesSession);
+  });
+  return { remaining, sync };
+};
+
+const imageFill = (imageRef: ImageRef) => ({
+  type: "image",
+  flipX: false,
+  flipY: false,
+  imageRef,
+});
+
+describe("image_replacement", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  describe("readImageTag", () => {
+    it("should only read texts that are nothing but an image placeholder", () => {
+      expect(readImageTag(" {{ recipeImage_2 }}\n")).toBe("recipeImage_2");
+      expect(readImageTag("{{recipeStepImage_2_1}}")).toBe(
+        "recipeStepImage_2_1",
+      );
+      expect(readImageTag("Photo: {{recipeImage_2}}")).toBeUndefined();
+      expect(readImageTag("{{recipeTitle_2}}")).toBeUndefined();
+    });
+  });
+
+  describe("replaceImagePlaceholders", () => {
+    it("should fill the frame under a tag and remove the tag", async () => {
+      const other = createRect({ ...box, left: 500 });
+      const frame = createRect();
+      const tag = createTag("{{recipeImage_1}}");
+      const { remaining, sync } = mockPage([other, frame, tag]);
+
+      const report = await replaceImagePlaceholders({
+        recipeImage_1: heroRef,
+        recipeImage_2: stepRef,
+      });
+
+      expect(frame.fill.mediaContainer.set).toHaveBeenCalledWith(
+        imageFill(heroRef),
+      );
+      expect(other.fill.mediaContainer.set).not.toHaveBeenCalled();
+      expect(remaining).toEqual([other, frame]);
+      expect(report).toEqual({
+        filled: ["recipeImage_1"],
+        missing: ["recipeImage_2"],
+        unmatched: [],
+        pages: [
+          {
+            pageIndex: 0,
+            filled: ["recipeImage_1"],
+            unmatched: [],
+            replacements: 1,
+            errors: [],
+          },
+        ],
+        skippedPages: [],
+      });
+      expect(sync).toHaveBeenCalled();
+    });
+
+    it("should prefer the frame just behind the tag", async () => {
+      const back = createRect();
+      const front = createRect();
+      mockPage([back, front, createTag("{{recipeImage_1}}")]);
+
+      await replaceImagePlaceholders({ recipeImage_1: heroRef });
+
+      expect(front.fill.mediaContainer.set).toHaveBeenCalled();
+      expect(back.fill.mediaContainer.set).not.toHaveBeenCalled();
+    });
+
+    it("should only fill the paths of a shape that can take an image", async () => {
+      const shape = createShape([true, false]);
+      mockPage([shape, createTag("{{recipeImage_1}}")]);
+
+      await replaceImagePlaceholders({ recipeImage_1: heroRef });
+
+      expect(shape.pathFills[0]).toHaveBeenCalledWith(imageFill(heroRef));
+      expect(shape.pathFills[1]).not.toHaveBeenCalled();
+    });
+
+    it("should fill a frame grouped with its tag and empty the tag", async () => {
+      const frame = createRect();
+      const tag = createTag("{{recipeStepImage_1_1}}");
+      mockPage([
+        {
+          type: "group",
+          locked: false,
+          contents: { toArray: () => [tag, frame] },
+        },
+      ]);
+
+      await replaceImagePlaceholders({ recipeStepImage_1_1: stepRef });
+
+      expect(frame.fill.mediaContainer.set).toHaveBeenCalledWith(
+        imageFill(stepRef),
+      );
+      expect(tag.text.readPlaintext()).toBe("");
+    });
+
+    it("should report tags without an image or without a frame", async () => {
+      const lonelyTag = createTag("{{recipeImage_1}}");
+      const unknownTag = createTag("{{recipeImage_9}}");
+      const { remaining } = mockPage([lonelyTag, unknownTag]);
+
+      const report = await replaceImagePlaceholders({ recipeImage_1: heroRef });
+
+      expect(remaining).toEqual([lonelyTag, unknownTag]);
+      expect(report.unmatched).toEqual(["recipeImage_9"]);
+      expect(report.pages[0].errors).toEqual([
+        "No frame to fill for {{recipeImage_1}}",
+      ]);
+    });
+  });
+});
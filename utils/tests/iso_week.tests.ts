@@ -0,0 +1,201 @@
+import {
+  addWeeks,
+  formatWeekLabel,
+  formatWeekValue,
+  getIsoWeek,
+  getIsoWeekRange,
+  getWeeksInYear,
+  parseWeekValue,
+} from "../iso_week";
+
+const FIRST_YEAR = 1995;
+const LAST_YEAR = 2045;
+// Years with 53 ISO weeks: they start on a Thursday, or are leap years that start on a Wednesday
+const LONG_YEARS = [1998, 2004, 2009, 2015, 2020, 2026, 2032, 2037, 2043];
+
+const eachDay = (from: Date, to: Date, fn: (date: Date) => void) => {
+  for (
+    const date = new Date(from);
+    date <= to;
+    date.setDate(date.getDate() + 1)
+  ) {
+    fn(new Date(date));
+  }
+};
+
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+describe("iso_week", () => {
+  describe("getIsoWeek", () => {
+    it.each([
+      ["2025-12-28", 52, 2025],
+      ["2025-12-29", 1, 2026],
+      ["2026-01-04", 1, 2026],
+      ["2026-01-05", 2, 2026],
+      ["2026-12-31", 53, 2026],
+      ["2027-01-03", 53, 2026],
+      ["2027-01-04", 1, 2027],
+      ["2021-01-03", 53, 2020],
+      ["2024-12-30", 1, 2025],
+      ["2008-12-29", 1, 2009],
+      ["2010-01-03", 53, 2009],
+    ])("should put %s in week %i of %i", (day, week, year) => {
+      const [y, m, d] = day.split("-").map(Number);
+
+      expect(getIsoWeek(new Date(y, m - 1, d))).toEqual({ week, year });
+    });
+
+    it("should ignore the time of day", () => {
+      expect(getIsoWeek(new Date(2026, 0, 4, 23, 59))).toEqual({
+        week: 1,
+        year: 2026,
+      });
+      expect(getIsoWeek(new Date(2025, 11, 29, 0, 0))).toEqual({
+        week: 1,
+        year: 2026,
+      });
+    });
+
+    it("should number every day consecutively, changing week only on Mondays", () => {
+      let previous = getIsoWeek(new Date(FIRST_YEAR - 1, 11, 31));
+      const problems: string[] = [];
+
+      eachDay(
+        new Date(FIRST_YEAR, 0, 1),
+        new Date(LAST_YEAR, 11, 31),
+        (date) => {
+          const current = getIsoWeek(date);
+          const isMonday = date.getDay() === 1;
+          const expected = isMonday
+            ? previous.week === getWeeksInYear(previous.year)
+              ? { week: 1, year: previous.year + 1 }
+              : { week: previous.week + 1, year: previous.year }
+            : previous;
+          if (
+            current.week !== expected.week ||
+            current.year !== expected.year
+          ) {
+            problems.push(dateKey(date));
+          }
+          previous = current;
+        },
+      );
+
+      expect(problems).toEqual([]);
+    });
+  });
+
+  describe("getWeeksInYear", () => {
+    it("should find every year with 53 weeks", () => {
+      const years = Array.from(
+        { length: LAST_YEAR - FIRST_YEAR + 1 },
+        (_, i) => FIRST_YEAR + i,
+      );
+
+      expect(years.filter((year) => getWeeksInYear(year) === 53)).toEqual(
+        LONG_YEARS,
+      );
+    });
+  });
+
+  describe("getIsoWeekRange", () => {
+    it("should run from Monday to Sunday across New Year", () => {
+      const { start, end } = getIsoWeekRange({ week: 1, year: 2026 });
+
+      expect(dateKey(start)).toBe("2025-12-29");
+      expect(dateKey(end)).toBe("2026-1-4");
+      expect(start.getHours()).toBe(0);
+    });
+
+    it("should contain every day of its week", () => {
+      const problems: string[] = [];
+
+      eachDay(
+        new Date(FIRST_YEAR, 0, 1),
+        new Date(LAST_YEAR, 11, 31),
+        (date) => {
+          const { start, end } = getIsoWeekRange(getIsoWeek(date));
+          if (
+            start.getDay() !== 1 ||
+            end.getDay() !== 0 ||
+            date < start ||
+            date > end
+          ) {
+            problems.push(dateKey(date));
+          }
+        },
+      );
+
+      expect(problems).toEqual([]);
+    });
+  });
+
+  describe("addWeeks", () => {
+    it("should move across week-years, including week 53", () => {
+      expect(addWeeks({ week: 52, year: 2026 }, 1)).toEqual({
+        week: 53,
+        year: 2026,
+      });
+      expect(addWeeks({ week: 53, year: 2026 }, 1)).toEqual({
+        week: 1,
+        year: 2027,
+      });
+      expect(addWeeks({ week: 52, year: 2025 }, 1)).toEqual({
+        week: 1,
+        year: 2026,
+      });
+      expect(addWeeks({ week: 2, year: 2027 }, -3)).toEqual({
+        week: 52,
+        year: 2026,
+      });
+      expect(addWeeks({ week: 10, year: 2026 }, 0)).toEqual({
+        week: 10,
+        year: 2026,
+      });
+    });
+  });
+
+  describe("formatWeekValue and parseWeekValue", () => {
+    it("should format weeks as wwyy", () => {
+      expect(formatWeekValue({ week: 1, year: 2026 })).toBe("0126");
+      expect(formatWeekValue({ week: 53, year: 2009 })).toBe("5309");
+    });
+
+    it("should parse every week back to itself", () => {
+      const problems: string[] = [];
+      for (let year = 2000; year <= 2099; year++) {
+        for (let week = 1; week <= getWeeksInYear(year); week++) {
+          const parsed = parseWeekValue(formatWeekValue({ week, year }));
+          if (parsed?.week !== week || parsed.year !== year) {
+            problems.push(`${week}/${year}`);
+          }
+        }
+      }
+
+      expect(problems).toEqual([]);
+    });
+
+    it.each(["5326", "0100", "5232"])("should accept %s", (value) => {
+      expect(parseWeekValue(value)).toBeDefined();
+    });
+
+    it.each(["5325", "0026", "5426", "126", "01260", "ab26", ""])(
+      "should reject %s",
+      (value) => {
+        expect(parseWeekValue(value)).toBeUndefined();
+      },
+    );
+  });
+
+  describe("formatWeekLabel", () => {
+    it.each([
+      [{ week: 1, year: 2026 }, "Uge 1 (29. dec – 4. jan)"],
+      [{ week: 53, year: 2026 }, "Uge 53 (28. dec – 3. jan)"],
+      [{ week: 10, year: 2026 }, "Uge 10 (2. mar – 8. mar)"],
+      [{ week: 22, year: 2026 }, "Uge 22 (25. maj – 31. maj)"],
+    ])("should label %o as %s", (week, label) => {
+      expect(formatWeekLabel(week)).toBe(label);
+    });
+  });
+});
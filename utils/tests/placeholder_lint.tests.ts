@@ -0,0 +1,116 @@
+import {
+  hasLintProblems,
+  lintPlaceholders,
+  suggestField,
+} from "../placeholder_lint";
+
+const occurrences = (...keysByPage: string[][]) =>
+  keysByPage.flatMap((keys, pageIndex) =>
+    keys.map((key) => ({ key, pageIndex })),
+  );
+
+describe("placeholder_lint", () => {
+  describe("suggestField", () => {
+    it("should suggest the closest field for a typo", () => {
+      const fields = ["recipeTitle_1", "recipeTitle_2", "recipeDay_1"];
+
+      expect(suggestField("recipeTitel_1", fields)).toBe("recipeTitle_1");
+      expect(suggestField("recipetitle_2", fields)).toBe("recipeTitle_2");
+      expect(suggestField("recipeDay_11", fields)).toBe("recipeDay_1");
+    });
+
+    it("should not suggest fields that are too different", () => {
+      expect(suggestField("frontpageDate", ["frontpageTitle"])).toBeUndefined();
+    });
+  });
+
+  describe("lintPlaceholders", () => {
+    it("should find nothing wrong when the design uses every field once", () => {
+      const report = lintPlaceholders(
+        occurrences(["frontpageTitle"], ["recipeTitle_1"], ["recipeTitle_2"]),
+        ["frontpageTitle", "recipeTitle_1", "recipeTitle_2"],
+      );
+
+      expect(report).toEqual({
+        unknown: [],
+        unused: [],
+        duplicates: [],
+        indexGaps: [],
+      });
+      expect(hasLintProblems(report)).toBe(false);
+    });
+
+    it("should list unknown placeholders with suggestions for typos", () => {
+      const report = lintPlaceholders(
+        occurrences(["frontpageTitel"], ["recipeChef_1"], ["recipeChef_1"]),
+        ["frontpageTitle", "recipeTitle_1"],
+      );
+
+      expect(report.unknown).toEqual([
+        { key: "frontpageTitel", pages: [0], suggestion: "frontpageTitle" },
+        { key: "recipeChef_1", pages: [1, 2] },
+      ]);
+      expect(hasLintProblems(report)).toBe(true);
+    });
+
+    it("should list fields no placeholder uses without counting them as problems", () => {
+      const report = lintPlaceholders(occurrences(["recipeTitle_1"]), [
+        "recipeTitle_1",
+        "recipeDay_1",
+        "recipeTitle_2",
+      ]);
+
+      expect(report.unused).toEqual(["recipeDay_1", "recipeTitle_2"]);
+      expect(hasLintProblems(report)).toBe(false);
+    });
+
+    it("should treat the names of a field as one field", () => {
+      const fields = [
+        ["recipeIngredients_1", "recipeIngredientList_1"],
+        ["recipeIngredients_2", "recipeIngredientList_2"],
+      ];
+
+      expect(
+        lintPlaceholders(occurrences(["recipeIngredientList_1"]), fields),
+      ).toEqual({
+        unknown: [],
+        unused: ["recipeIngredients_2"],
+        duplicates: [],
+        indexGaps: [],
+      });
+    });
+
+    it("should know optional names without listing them as unused", () => {
+      const report = lintPlaceholders(
+        occurrences(["recipeTitle_1", "recipeImage_1"]),
+        ["recipeTitle_1"],
+        ["recipeImage_1", "recipeStepImage_1_1"],
+      );
+
+      expect(report.unknown).toEqual([]);
+      expect(report.unused).toEqual([]);
+    });
+
+    it("should list placeholders used more than once", () => {
+      expect(
+        lintPlaceholders(
+          occurrences(["recipeTitle_1", "recipeTitle_1"], ["recipeTitle_1"]),
+          ["recipeTitle_1"],
+        ).duplicates,
+      ).toEqual([{ key: "recipeTitle_1", count: 3, pages: [0, 1] }]);
+    });
+
+    it("should list numbers skipped by numbered placeholders", () => {
+      expect(
+        lintPlaceholders(
+          occurrences(
+            ["recipeTitle_1", "recipeDay_1"],
+            ["recipeTitle_3", "recipeDay_2"],
+            ["recipeTitle_5"],
+          ),
+          [],
+        ).indexGaps,
+      ).toEqual([{ prefix: "recipeTitle", missing: [2, 4] }]);
+    });
+  });
+});
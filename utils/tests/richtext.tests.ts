@@ -0,0 +1,187 @@
+import type {
+  InlineFormatting,
+  RichtextFormatting,
+  RichtextRange,
+} from "@canva/design";
+import { appendMarkdown, escapeMarkdown, parseMarkdown } from "../richtext";
+
+type AppendedRun = { text: string; formatting?: InlineFormatting };
+type ParagraphFormat = {
+  bounds: { index: number; length: number };
+  formatting: RichtextFormatting;
+};
+
+/**
+ * A richtext range that records what's appended and formatted, since the
+ * design SDK is mocked in tests
+ */
+function createFakeRange() {
+  let text = "";
+  const runs: AppendedRun[] = [];
+  const paragraphFormats: ParagraphFormat[] = [];
+  const range = {
+    readPlaintext: () => text,
+    appendText: (characters: string, formatting?: InlineFormatting) => {
+      const bounds = { index: text.length, length: characters.length };
+      text += characters;
+      runs.push({ text: characters, formatting });
+      return { bounds };
+    },
+    formatParagraph: (
+      bounds: { index: number; length: number },
+      formatting: RichtextFormatting,
+    ) => {
+      paragraphFormats.push({ bounds, formatting });
+    },
+  } as unknown as RichtextRange;
+  return { range, runs, paragraphFormats, getText: () => text };
+}
+
+describe("parseMarkdown", () => {
+  it("should split bold and italic runs", () => {
+    expect(parseMarkdown("Mix **well** and *gently*")).toEqual([
+      {
+        runs: [
+          { text: "Mix " },
+          { text: "well", bold: true },
+          { text: " and " },
+          { text: "gently", italic: true },
+        ],
+      },
+    ]);
+  });
+
+  it("should recognise bullet and numbered list items", () => {
+    expect(parseMarkdown("- Salt\n• Pepper\n2. Stir\n3) Serve")).toEqual([
+      { list: "bullet", runs: [{ text: "Salt" }] },
+      { list: "bullet", runs: [{ text: "Pepper" }] },
+      { list: "numbered", runs: [{ text: "Stir" }] },
+      { list: "numbered", runs: [{ text: "Serve" }] },
+    ]);
+  });
+
+  it("should treat a bold line as text rather than a bullet", () => {
+    expect(parseMarkdown("**Sauce**")).toEqual([
+      { runs: [{ text: "Sauce", bold: true }] },
+    ]);
+  });
+
+  it("should keep unpaired markers as literal text", () => {
+    expect(parseMarkdown("2 * 3 = 6")).toEqual([
+      { runs: [{ text: "2 * 3 = 6" }] },
+    ]);
+  });
+
+  it("should keep empty lines as empty paragraphs", () => {
+    expect(parseMarkdown("One\n\nTwo")).toEqual([
+      { runs: [{ text: "One" }] },
+      { runs: [] },
+      { runs: [{ text: "Two" }] },
+    ]);
+  });
+});
+
+describe("escapeMarkdown", () => {
+  it.each([
+    "**not bold**",
+    "- not a bullet",
+    "• not a bullet",
+    "1. not a list",
+    "2) not a list",
+    "a \\ backslash",
+  ])("should render %j literally", (text) => {
+    expect(parseMarkdown(escapeMarkdown(text))).toEqual([{ runs: [{ text }] }]);
+  });
+});
+
+describe("appendMarkdown", () => {
+  it("should append runs with explicit formatting", () => {
+    const { range, runs, getText } = createFakeRange();
+
+    appendMarkdown(range, "**Sauce**\nStir");
+
+    expect(getText()).toBe("Sauce\nStir");
+    expect(runs).toEqual([
+      {
+        text: "Sauce",
+        formatting: { fontWeight: "bold", fontStyle: "normal" },
+      },
+      { text: "\n", formatting: undefined },
+      {
+        text: "Stir",
+        formatting: { fontWeight: "normal", fontStyle: "normal" },
+      },
+    ]);
+  });
+
+  it("should apply the paragraph style to the appended text only", () => {
+    const { range, paragraphFormats } = createFakeRange();
+    range.appendText("Existing\n");
+
+    appendMarkdown(range, "New text", { fontSize: 16, lineHeightEm: 1.4 });
+
+    expect(paragraphFormats).toEqual([
+      {
+        bounds: { index: 9, length: 8 },
+        formatting: { fontSize: 16, lineHeightEm: 1.4 },
+      },
+    ]);
+  });
+
+  it("should apply inline properties of the style to each run", () => {
+    const { range, runs, paragraphFormats } = createFakeRange();
+
+    appendMarkdown(range, "**Sauce** and *rice*", {
+      fontSize: 16,
+      fontWeight: "medium",
+      color: "#333333",
+    });
+
+    expect(runs).toEqual([
+      {
+        text: "Sauce",
+        formatting: {
+          color: "#333333",
+          fontWeight: "bold",
+          fontStyle: "normal",
+        },
+      },
+      {
+        text: " and ",
+        formatting: {
+          color: "#333333",
+          fontWeight: "medium",
+          fontStyle: "normal",
+        },
+      },
+      {
+        text: "rice",
+        formatting: {
+          color: "#333333",
+          fontWeight: "medium",
+          fontStyle: "italic",
+        },
+      },
+    ]);
+    expect(paragraphFormats).toEqual([
+      { bounds: { index: 0, length: 14 }, formatting: { fontSize: 16 } },
+    ]);
+  });
+
+  it("should set list markers on list paragraphs", () => {
+    const { range, paragraphFormats } = createFakeRange();
+
+    appendMarkdown(range, "Intro\n- Salt\n1. Stir");
+
+    expect(paragraphFormats).toEqual([
+      {
+        bounds: { index: 6, length: 1 },
+        formatting: { listLevel: 1, listMarker: "disc" },
+      },
+      {
+        bounds: { index: 11, length: 1 },
+        formatting: { listLevel: 1, listMarker: "decimal" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  TemplateSyntaxError,
+  listTemplateKeys,
+  parseTemplate,
+  renderTemplate,
+} from "../template";
+
+describe("template", () => {
+  describe("parseTemplate", () => {
+    it("should split text, placeholders and filters", () => {
+      expect(parseTemplate('Dag {{ recipeDay_1|default:"-" }}!')).toEqual([
+        { type: "text", text: "Dag " },
+        {
+          type: "placeholder",
+          key: "recipeDay_1",
+          filters: [{ name: "default", arg: "-" }],
+          index: 4,
+          source: '{{ recipeDay_1|default:"-" }}',
+        },
+        { type: "text", text: "!" },
+      ]);
+    });
+
+    it("should read quoted arguments with pipes and escaped quotes", () => {
+      const [node] = parseTemplate('{{items|join:" | "|default:"\\"none\\""}}');
+
+      expect(node).toMatchObject({
+        filters: [
+          { name: "join", arg: " | " },
+          { name: "default", arg: '"none"' },
+        ],
+      });
+    });
+
+    it("should nest loops", () => {
+      const [node] = parseTemplate(
+        "{{#each days}}{{#each dishes}}{{this}}{{/each}}{{/each}}",
+      );
+
+      expect(node).toMatchObject({
+        type: "each",
+        key: "days",
+        body: [{ type: "each", key: "dishes" }],
+      });
+    });
+
+    it("should keep braces that aren't placeholders as text", () => {
+      expect(parseTemplate("{single} {{two words}} {{}} {{a.b}}")).toEqual([
+        { type: "text", text: "{single} {{two words}} {{}} {{a.b}}" },
+      ]);
+    });
+
+    it("should treat key characters literally", () => {
+      expect(parseTemplate("{{$&}} {{.*}}")).toEqual([
+        { type: "text", text: "{{$&}} {{.*}}" },
+      ]);
+    });
+
+    it.each([
+      ["an unknown filter", "{{title|lower}}"],
+      ["an unclosed loop", "{{#each items}}{{this}}"],
+      ["a loop closed twice", "{{#each items}}{{/each}}{{/each}}"],
+    ])("should throw for %s", (_, template) => {
+      expect(() => parseTemplate(template)).toThrow(TemplateSyntaxError);
+    });
+  });
+
+  describe("listTemplateKeys", () => {
+    it("should list each key once, including loop keys but not this", () => {
+      expect(
+        listTemplateKeys(
+          parseTemplate(
+            "{{title}} {{#each items}}{{this}} {{title}}{{/each}} {{day|upper}}",
+          ),
+        ),
+      ).toEqual(["title", "items", "day"]);
+    });
+  });
+
+  describe("renderTemplate", () => {
+    it("should fill placeholders and leave unknown ones as they are", () => {
+      expect(
+        renderTemplate("{{title}} ({{ day }}) {{ missing }}", {
+          title: "Risotto",
+          day: "1",
+        }),
+      ).toEqual({
+        text: "Risotto (1) {{ missing }}",
+        filled: ["title", "day"],
+        unmatched: ["missing"],
+        replacements: 2,
+        spans: [
+          { key: "title", index: 0, length: 9, text: "Risotto" },
+          { key: "day", index: 11, length: 9, text: "1" },
+        ],
+      });
+    });
+
+    it("should use replacement text literally", () => {
+      expect(renderTemplate("{{title}}", { title: "$& $1" }).text).toBe(
+        "$& $1",
+      );
+    });
+
+    it("should fall back to a default when there's no value or it's empty", () => {
+      const template = '{{recipeDay_1|default:"-"}}';
+
+      expect(renderTemplate(template, {})).toMatchObject({
+        text: "-",
+        filled: ["recipeDay_1"],
+        unmatched: [],
+      });
+      expect(renderTemplate(template, { recipeDay_1: "" }).text).toBe("-");
+      expect(renderTemplate(template, { recipeDay_1: "3" }).text).toBe("3");
+    });
+
+    it("should apply filters in order", () => {
+      const values = { items: ["løg", "gulerod"] };
+
+      expect(renderTemplate("{{items|upper|join}}", values).text).toBe(
+        "LØG, GULEROD",
+      );
+      expect(renderTemplate('{{items|join:" og "}}', values).text).toBe(
+        "løg og gulerod",
+      );
+      expect(renderTemplate("{{items|bullet}}", values).text).toBe(
+        "• løg\n• gulerod",
+      );
+      expect(renderTemplate('{{items|bullet:"-"}}', values).text).toBe(
+        "- løg\n- gulerod",
+      );
+      expect(renderTemplate("{{items|numbered}}", values).text).toBe(
+        "1. løg\n2. gulerod",
+      );
+      expect(renderTemplate("{{items}}", values).text).toBe("løg\ngulerod");
+    });
+
+    it("should treat the lines of a text as list items", () => {
+      expect(
+        renderTemplate("{{steps|numbered}}", { steps: "Skær\n\nSteg" }).text,
+      ).toBe("1. Skær\n2. Steg");
+    });
+
+    it("should repeat loops for every item, with access to other values", () => {
+      expect(
+        renderTemplate("{{#each items}}• {{this}} ({{unit}})\n{{/each}}", {
+          items: ["løg", "gulerod"],
+          unit: "stk",
+        }),
+      ).toEqual({
+        text: "• løg (stk)\n• gulerod (stk)\n",
+        filled: ["items", "unit"],
+        unmatched: [],
+        replacements: 1,
+        spans: [
+          {
+            key: "items",
+            index: 0,
+            length: 46,
+            text: "• løg (stk)\n• gulerod (stk)\n",
+          },
+        ],
+      });
+    });
+
+    it("should leave a loop as it is when there's no list for it", () => {
+      const template = "{{#each items}}• {{this}}{{/each}}";
+
+      expect(renderTemplate(template, {})).toMatchObject({
+        text: template,
+        unmatched: ["items"],
+        replacements: 0,
+        spans: [],
+      });
+    });
+  });
+});
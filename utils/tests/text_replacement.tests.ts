@@ -0,0 +1,396 @@
+import { openDesign } from "@canva/design";
+import type { DesignEditing } from "@canva/design";
+import {
+  findPlaceholders,
+  mergePlaceholderReports,
+  replacePlaceholders,
+  replacePlaceholdersWithFormatting,
+  scanPlaceholders,
+} from "../text_replacement";
+
+/**
+ * A text element whose range records replacements and bold formatting per
+ * character, since the design SDK is mocked in tests
+ */
+const createTextElement = (initialText: string, initialBold: string[] = []) => {
+  let chars = [...initialText].map((char) => ({ char, bold: false }));
+  const getText = () => chars.map(({ char }) => char).join("");
+  initialBold.forEach((part) => {
+    const start = getText().indexOf(part);
+    chars.slice(start, start + part.length).forEach((c) => (c.bold = true));
+  });
+  return {
+    type: "text",
+    locked: false,
+    text: {
+      readPlaintext: getText,
+      replaceText: (
+        { index, length }: { index: number; length: number },
+        characters: string,
+      ) => {
+        // New text takes on the formatting of the text it replaces
+        const bold = chars[index]?.bold ?? false;
+        chars = [
+          ...chars.slice(0, index),
+          ...[...characters].map((char) => ({ char, bold })),
+          ...chars.slice(index + length),
+        ];
+        return { bounds: { index, length: characters.length } };
+      },
+      formatText: (
+        { index, length }: { index: number; length: number },
+        { fontWeight }: { fontWeight?: string },
+      ) => {
+        chars
+          .slice(index, index + length)
+          .forEach((c) => (c.bold = fontWeight === "bold"));
+      },
+    },
+    getText,
+    // The runs of bold text
+    getBold: () =>
+      getText()
+        .split("")
+        .map((char, i) => (chars[i].bold ? char : "\n"))
+        .join("")
+        .split("\n")
+        .filter(Boolean),
+  };
+};
+
+type TextElement = ReturnType<typeof createTextElement>;
+
+const createGroup = (contents: TextElement[]) => ({
+  type: "group",
+  locked: false,
+  contents: { forEach: (fn) => contents.forEach(fn) },
+});
+
+const mockPages = (
+  pages: (TextElement | ReturnType<typeof createGroup>)[][],
+  lockedPages: number[] = [],
+  unopenedPages: number[] = [],
+) => {
+  const pageRefs = pages.map((_, index) => ({
+    type: "absolute",
+    locked: lockedPages.includes(index),
+  }));
+  const sync = jest.fn();
+  jest.mocked(openDesign).mockImplementation(async (_options, callback) => {
+    const session = {
+      pageRefs: { toArray: () => pageRefs },
+      helpers: {
+        openPage: async (pageRef, pageCallback) => {
+          const pageIndex = pageRefs.indexOf(pageRef);
+          if (unopenedPages.includes(pageIndex)) {
+            return { status: "skipped", reason: "page is being edited" };
+          }
+          const elements = pages[pageIndex];
+          await pageCallback({
+            page: {
+              type: "absolute",
+              elements: { forEach: (fn) => elements.forEach(fn) },
+            },
+          });
+          return { status: "executed" };
+        },
+      },
+      sync,
+    };
+    await callback(session as unknown as DesignEditing.AllPagesSession);
+  });
+  return { sync };
+};
+
+describe("text_replacement", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  describe("findPlaceholders", () => {
+    it("should list each placeholder once, in order", () => {
+      expect(
+        findPlaceholders(
+          "{{recipeTitle_2}} and {{ recipeDay_2 }}, {{recipeTitle_2}}",
+        ),
+      ).toEqual(["recipeTitle_2", "recipeDay_2"]);
+    });
+
+    it("should ignore text that isn't a placeholder", () => {
+      expect(findPlaceholders("{single} {{two words}} {{}}")).toEqual([]);
+    });
+  });
+
+  describe("replacePlaceholdersWithFormatting", () => {
+    it("should fill placeholders on every page and report what was found", async () => {
+      const frontPage = createTextElement("{{frontpageTitle}}");
+      const recipeTitle = createTextElement(
+        "{{recipeTitle_1}} ({{recipeDay_1}})",
+      );
+      const recipeMethod = createTextElement("{{recipeMethod_1}}");
+      const stray = createTextElement("{{recipeTitle_7}}");
+      const { sync } = mockPages([
+        [frontPage],
+        [recipeTitle, recipeMethod],
+        [stray],
+      ]);
+
+      const report = await replacePlaceholdersWithFormatting(
+        {
+          frontpageTitle: "Uge 12",
+          recipeTitle_1: "Risotto",
+          recipeDay_1: "1",
+          recipeTitle_2: "Lasagne",
+        },
+        { recipeMethod_1: { headers: [""], content: ["Stir $& well"] } },
+      );
+
+      expect(frontPage.getText()).toBe("Uge 12");
+      expect(recipeTitle.getText()).toBe("Risotto (1)");
+      // Replacement text is used literally, even if it looks like a pattern
+      expect(recipeMethod.getText()).toBe("Stir $& well");
+      expect(stray.getText()).toBe("{{recipeTitle_7}}");
+      expect(report).toEqual({
+        filled: [
+          "frontpageTitle",
+          "recipeTitle_1",
+          "recipeDay_1",
+          "recipeMethod_1",
+        ],
+        missing: ["recipeTitle_2"],
+        unmatched: ["recipeTitle_7"],
+        pages: [
+          {
+            pageIndex: 0,
+            filled: ["frontpageTitle"],
+            unmatched: [],
+            replacements: 1,
+            errors: [],
+          },
+          {
+            pageIndex: 1,
+            filled: ["recipeTitle_1", "recipeDay_1", "recipeMethod_1"],
+            unmatched: [],
+            replacements: 3,
+            errors: [],
+          },
+          {
+            pageIndex: 2,
+            filled: [],
+            unmatched: ["recipeTitle_7"],
+            replacements: 0,
+            errors: [],
+          },
+        ],
+        skippedPages: [],
+      });
+      expect(sync).toHaveBeenCalled();
+    });
+
+    it("should let simple placeholders take precedence over formatted ones", async () => {
+      const method = createTextElement("{{recipeMethod_1}}");
+      mockPages([[method]]);
+
+      await replacePlaceholdersWithFormatting(
+        { recipeMethod_1: "Plain" },
+        { recipeMethod_1: { headers: ["Header"], content: ["Formatted"] } },
+      );
+
+      expect(method.getText()).toBe("Plain");
+    });
+    it("should make method headers bold", async () => {
+      const method = createTextElement("Fremgangsmåde: {{recipeMethod_1}}");
+      mockPages([[method]]);
+
+      await replacePlaceholdersWithFormatting(
+        {},
+        {
+          recipeMethod_1: {
+            headers: ["Ris", ""],
+            content: ["Kog risene", "Server"],
+          },
+        },
+      );
+
+      expect(method.getText()).toBe("Fremgangsmåde: Ris\nKog risene\n\nServer");
+      expect(method.getBold()).toEqual(["Ris"]);
+    });
+  });
+
+  describe("replacePlaceholders", () => {
+    it("should look up values per page and count every occurrence", async () => {
+      const first = createTextElement("{{recipeTitle}} / {{recipeTitle}}");
+      const second = createTextElement("{{recipeTitle}}");
+      mockPages([[first], [second]]);
+      const titles = ["Risotto", "Lasagne"];
+
+      const report = await replacePlaceholders((pageIndex) => ({
+        recipeTitle: titles[pageIndex],
+      }));
+
+      expect(first.getText()).toBe("Risotto / Risotto");
+      expect(second.getText()).toBe("Lasagne");
+      expect(report.pages.map(({ replacements }) => replacements)).toEqual([
+        2, 1,
+      ]);
+    });
+
+    it("should report a placeholder as unmatched on pages with no value for it", async () => {
+      const first = createTextElement("{{recipeTitle}}");
+      const second = createTextElement("{{recipeTitle}}");
+      mockPages([[first], [second]]);
+
+      const report = await replacePlaceholders((pageIndex) => ({
+        recipeTitle: pageIndex === 0 ? "Risotto" : undefined,
+      }));
+
+      expect(second.getText()).toBe("{{recipeTitle}}");
+      expect(report.filled).toEqual(["recipeTitle"]);
+      expect(report.unmatched).toEqual(["recipeTitle"]);
+      expect(report.missing).toEqual([]);
+    });
+
+    it("should fill text inside groups", async () => {
+      const grouped = createTextElement("{{frontpageTitle}}");
+      mockPages([[createGroup([grouped])]]);
+
+      await replacePlaceholders({ frontpageTitle: "Uge 12" });
+
+      expect(grouped.getText()).toBe("Uge 12");
+    });
+
+    it("should render filters and loops", async () => {
+      const ingredients = createTextElement(
+        '{{#each recipeIngredientList_1}}• {{this}}\n{{/each}}{{recipeDay_1|default:"-"}}',
+      );
+      mockPages([[ingredients]]);
+
+      const report = await replacePlaceholders({
+        recipeIngredientList_1: ["2 løg", "1 gulerod"],
+      });
+
+      expect(ingredients.getText()).toBe("• 2 løg\n• 1 gulerod\n-");
+      expect(report.pages[0]).toMatchObject({
+        filled: ["recipeIngredientList_1", "recipeDay_1"],
+        replacements: 2,
+      });
+    });
+
+    it("should leave text with template errors as it is and report them", async () => {
+      const broken = createTextElement("{{recipeTitle_1|shout}}");
+      const fine = createTextElement("{{recipeTitle_1}}");
+      mockPages([[broken, fine]]);
+
+      const report = await replacePlaceholders({ recipeTitle_1: "Risotto" });
+
+      expect(broken.getText()).toBe("{{recipeTitle_1|shout}}");
+      expect(fine.getText()).toBe("Risotto");
+      expect(report.pages[0].errors).toEqual(['Unknown filter "shout"']);
+    });
+
+    it("should keep the formatting around placeholders and inherit their own", async () => {
+      const title = createTextElement("Uge {{week}}: {{recipeTitle_1}} i dag", [
+        "Uge",
+        "{{recipeTitle_1}}",
+      ]);
+      mockPages([[title]]);
+
+      await replacePlaceholders({ week: "12", recipeTitle_1: "Risotto" });
+
+      expect(title.getText()).toBe("Uge 12: Risotto i dag");
+      expect(title.getBold()).toEqual(["Uge", "Risotto"]);
+    });
+
+    it("should skip locked pages and report them", async () => {
+      const locked = createTextElement("{{frontpageTitle}}");
+      const open = createTextElement("{{frontpageTitle}}");
+      mockPages([[locked], [open]], [0]);
+
+      const report = await replacePlaceholders({ frontpageTitle: "Uge 12" });
+
+      expect(locked.getText()).toBe("{{frontpageTitle}}");
+      expect(open.getText()).toBe("Uge 12");
+      expect(report.skippedPages).toEqual([0]);
+      expect(report.pages.map(({ pageIndex }) => pageIndex)).toEqual([1]);
+    });
+
+    it("should report pages that Canva skipped opening", async () => {
+      const unopened = createTextElement("{{frontpageTitle}}");
+      const open = createTextElement("{{frontpageTitle}}");
+      mockPages([[unopened], [open]], [], [0]);
+
+      const report = await replacePlaceholders({ frontpageTitle: "Uge 12" });
+
+      expect(unopened.getText()).toBe("{{frontpageTitle}}");
+      expect(report.skippedPages).toEqual([0]);
+      expect(report.pages.map(({ pageIndex }) => pageIndex)).toEqual([1]);
+    });
+  });
+
+  describe("scanPlaceholders", () => {
+    it("should list every placeholder and error without changing the design", async () => {
+      const frontPage = createTextElement(
+        "{{frontpageTitle}} {{#each frontpageIngredientList}}{{this}}{{/each}}",
+      );
+      const recipe = createTextElement("{{recipeTitle_1}} {{recipeTitle_1}}");
+      const broken = createTextElement("{{recipeDay_1|shout}}");
+      const { sync } = mockPages([[frontPage], [recipe, broken]]);
+
+      const scan = await scanPlaceholders();
+
+      expect(scan).toEqual({
+        occurrences: [
+          { key: "frontpageTitle", pageIndex: 0 },
+          { key: "frontpageIngredientList", pageIndex: 0 },
+          { key: "recipeTitle_1", pageIndex: 1 },
+          { key: "recipeTitle_1", pageIndex: 1 },
+        ],
+        errors: [{ pageIndex: 1, message: 'Unknown filter "shout"' }],
+        skippedPages: [],
+      });
+      expect(recipe.getText()).toBe("{{recipeTitle_1}} {{recipeTitle_1}}");
+      expect(sync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("mergePlaceholderReports", () => {
+    it("should combine pages and count a placeholder filled by either run as filled", () => {
+      const page = (pageIndex: number, filled: string[]) => ({
+        pageIndex,
+        filled,
+        unmatched: [],
+        replacements: filled.length,
+        errors: [],
+      });
+
+      expect(
+        mergePlaceholderReports(
+          {
+            filled: ["recipeImage_1"],
+            missing: ["recipeImage_2"],
+            unmatched: [],
+            pages: [page(1, ["recipeImage_1"])],
+            skippedPages: [2],
+          },
+          {
+            filled: ["frontpageTitle", "recipeImage_2"],
+            missing: ["recipeDay_1"],
+            unmatched: ["recipeChef_1"],
+            pages: [page(0, ["frontpageTitle"]), page(1, ["recipeImage_2"])],
+            skippedPages: [2],
+          },
+        ),
+      ).toEqual({
+        filled: ["recipeImage_1", "frontpageTitle", "recipeImage_2"],
+        missing: ["recipeDay_1"],
+        unmatched: ["recipeChef_1"],
+        pages: [
+          page(0, ["frontpageTitle"]),
+          page(1, ["recipeImage_1", "recipeImage_2"]),
+        ],
+        skippedPages: [2],
+      });
+    });
+  });
+});
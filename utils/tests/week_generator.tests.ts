@@ -0,0 +1,21 @@
+import { generateWeeks } from "../week_generator";
+
+describe("week_generator", () => {
+  describe("generateWeeks", () => {
+    it("should use the ISO week-year around New Year", () => {
+      expect(generateWeeks(1, 2, new Date(2026, 11, 30))).toEqual([
+        { value: "5226", label: "Uge 52 (21. dec – 27. dec)" },
+        { value: "5326", label: "Uge 53 (28. dec – 3. jan)" },
+        { value: "0127", label: "Uge 1 (4. jan – 10. jan)" },
+        { value: "0227", label: "Uge 2 (11. jan – 17. jan)" },
+      ]);
+      expect(generateWeeks(0, 0, new Date(2025, 11, 29))).toEqual([
+        { value: "0126", label: "Uge 1 (29. dec – 4. jan)" },
+      ]);
+    });
+
+    it("should default to 4 weeks back and 12 forward", () => {
+      expect(generateWeeks()).toHaveLength(17);
+    });
+  });
+});
@@ -1,165 +1,357 @@
 /* eslint-disable no-console */
-import { editContent } from "@canva/design";
+import type { Bounds, RichtextRange } from "@canva/design";
+import { TemplateSyntaxError, listTemplateKeys, listTemplateTokens, parseTemplate, renderTemplate } from "./template";
+import type { TemplateSpan, TemplateValue } from "./template";
+import type { PlaceholderOccurrence } from "./placeholder_lint";
+import { forEachEditablePage } from "./design_pages";
 
 /**
- * Replaces placeholder text patterns in all text elements on the current page
- * @param replacements - Object mapping placeholder patterns to replacement values
- * @returns Promise that resolves when all replacements are complete
+ * Placeholder values, either the same for every page or looked up per page
+ * @example A map per page, so a generic `{{recipeTitle}}` gets a different recipe on each page
+ * ```typescript
+ * (pageIndex) => ({ recipeTitle: recipes[pageIndex - 1]?.title })
+ * ```
  */
-export async function replacePlaceholders(
-  replacements: Record<string, string>
-): Promise<void> {
-  console.log("Replacing placeholders with:", replacements);
-  await editContent(
-    {
-      contentType: "richtext",
-      target: "current_page",
-    },
-    async (session) => {
-      console.log("Text replacement session started, processing", session.contents.length, "text ranges");
-      if (session.contents.length === 0) {
-        console.log("WARNING: No text content found on current page! Make sure you're on a page with text elements containing placeholders.");
+export type ReplacementSource<T> =
+  | Record<string, T>
+  | ((pageIndex: number) => Record<string, T | undefined>);
+
+/**
+ * What a replacement run found on one page
+ * @property pageIndex - The index of the page in the design (0-based)
+ * @property filled - Placeholders on the page that were replaced
+ * @property unmatched - Placeholders on the page that have no data to fill them with
+ * @property replacements - The number of placeholder occurrences replaced on the page
+ * @property errors - Template syntax errors in texts on the page, which were left as they are
+ */
+export interface PagePlaceholderReport {
+  pageIndex: number;
+  filled: string[];
+  unmatched: string[];
+  replacements: number;
+  errors: string[];
+}
+
+/**
+ * What a replacement run did across the design
+ * @property filled - Placeholders that were found and replaced
+ * @property missing - Placeholders there was data for, but that don't appear anywhere in the design
+ * @property unmatched - Placeholders in the design that have no data to fill them with
+ * @property pages - What was found on each page that contains placeholders
+ * @property skippedPages - Pages that are locked or of a type that can't be edited
+ */
+export interface PlaceholderReport {
+  filled: string[];
+  missing: string[];
+  unmatched: string[];
+  pages: PagePlaceholderReport[];
+  skippedPages: number[];
+}
+
+/**
+ * Lists the distinct placeholder names in a text, in the order they appear.
+ * See {@link parseTemplate} for the placeholder syntax.
+ * @param text - Text that may contain `{{placeholder}}` tokens
+ * @returns The placeholder names, without braces or filters
+ * @throws {TemplateSyntaxError} If the text isn't a valid template
+ */
+export function findPlaceholders(text: string): string[] {
+  return listTemplateKeys(parseTemplate(text));
+}
+
+function resolveSource<T>(source: ReplacementSource<T>, pageIndex: number): Record<string, T> {
+  const values = typeof source === "function" ? source(pageIndex) : source;
+  // Drop placeholders a per-page map has no value for on this page
+  return Object.fromEntries(
+    Object.entries(values).filter((entry): entry is [string, T] => entry[1] !== undefined)
+  );
+}
+
+/**
+ * Calls back with the text of every editable text element on every page of
+ * the design, including text inside groups, then saves the changes
+ * @param onPage - Called once per page with the page's text ranges
+ * @param save - Whether to save changes, false if the text is only read
+ * @returns Promise that resolves with the indexes of pages that couldn't be edited
+ */
+function forEachPageText(
+  onPage: (pageIndex: number, ranges: RichtextRange[]) => void,
+  save = true
+): Promise<number[]> {
+  return forEachEditablePage((pageIndex, page) => {
+    const ranges: RichtextRange[] = [];
+    page.elements.forEach((element) => {
+      if (element.locked) {
         return;
       }
-      // Process each text range in the session
-      for (const range of session.contents) {
-        const originalText = range.readPlaintext();
-        console.log("Original text:", originalText);
-        console.log("Text length:", originalText.length);
-        console.log("Looking for placeholders in text...");
-        let updatedText = originalText;
-
-        // Replace all placeholder patterns
-        for (const [placeholder, replacement] of Object.entries(replacements)) {
-          const pattern = new RegExp(`\\{\\{${placeholder}\\}\\}`, "g");
-          const matches = updatedText.match(pattern);
-          console.log(`Checking for placeholder {{${placeholder}}} in text:`, updatedText.includes(`{{${placeholder}}}`));
-          console.log(`Regex pattern:`, pattern);
-          if (matches) {
-            console.log(`Found ${matches.length} matches for placeholder {{${placeholder}}}, replacing with:`, replacement);
-            updatedText = updatedText.replace(pattern, replacement);
-          } else {
-            console.log(`No matches found for placeholder {{${placeholder}}}`);
+      if (element.type === "text") {
+        ranges.push(element.text);
+      } else if (element.type === "group") {
+        element.contents.forEach((content) => {
+          if (content.type === "text") {
+            ranges.push(content.text);
           }
-        }
+        });
+      }
+    });
+    onPage(pageIndex, ranges);
+  }, save);
+}
+
+/**
+ * Text with parts to make bold, as character bounds within the text
+ */
+interface FormattedText {
+  text: string;
+  bold: Bounds[];
+}
 
-        // Only update if text has changed
-        if (updatedText !== originalText) {
-          console.log("Text updated from:", originalText, "to:", updatedText);
-          const length = originalText.length;
-          range.replaceText({ index: 0, length }, updatedText);
-        } else {
-          console.log("No changes needed for this text range");
+/**
+ * The values for the placeholders on a page
+ * @property values - The value for every placeholder there's data for
+ * @property bold - Parts of a placeholder's value to make bold, by placeholder name
+ */
+interface PageValues {
+  values: Record<string, TemplateValue>;
+  bold?: Record<string, Bounds[]>;
+}
+
+/**
+ * Replaces the placeholders in a text range. Only the characters of each
+ * placeholder are replaced, so the rest of the text keeps its formatting and
+ * the new text takes on the formatting of the placeholder it replaces.
+ * @param range - The text range to update
+ * @param spans - The placeholders to replace, from {@link renderTemplate}
+ * @param bold - Parts of a placeholder's value to make bold, by placeholder name
+ * @param values - The placeholder values, to check the text to make bold wasn't changed by filters
+ */
+function replaceSpans(
+  range: RichtextRange,
+  spans: TemplateSpan[],
+  { values, bold = {} }: PageValues
+) {
+  // Replace from the end, so the positions of earlier spans stay the same
+  [...spans].reverse().forEach(({ key, index, length, text }) => {
+    const { bounds } = range.replaceText({ index, length }, text);
+    if (bold[key] && values[key] === text) {
+      bold[key].forEach((part) =>
+        range.formatText({ index: bounds.index + part.index, length: part.length }, { fontWeight: "bold" })
+      );
+    }
+  });
+}
+
+/**
+ * Replaces the placeholders on every page of the design
+ * @param getPageValues - Returns the values for every placeholder there's data for on a page
+ * @returns Promise that resolves with a report of the replacements made per page
+ */
+async function replaceInDesign(
+  getPageValues: (pageIndex: number) => PageValues
+): Promise<PlaceholderReport> {
+  const pages: PagePlaceholderReport[] = [];
+  const offeredPlaceholders = new Set<string>();
+
+  const skippedPages = await forEachPageText((pageIndex, ranges) => {
+    const pageValues = getPageValues(pageIndex);
+    const { values } = pageValues;
+    Object.keys(values).forEach((placeholder) => offeredPlaceholders.add(placeholder));
+    const pageReport: PagePlaceholderReport = {
+      pageIndex,
+      filled: [],
+      unmatched: [],
+      replacements: 0,
+      errors: [],
+    };
+
+    // Process each text range on the page
+    for (const range of ranges) {
+      const originalText = range.readPlaintext();
+      let result: ReturnType<typeof renderTemplate>;
+      try {
+        result = renderTemplate(originalText, values);
+      } catch (error) {
+        if (!(error instanceof TemplateSyntaxError)) {
+          throw error;
         }
+        console.log(`Leaving text on page ${pageIndex + 1} as it is:`, error.message);
+        pageReport.errors.push(error.message);
+        continue;
+      }
+      if (result.filled.length === 0 && result.unmatched.length === 0) {
+        continue;
+      }
+      console.log(`Found placeholders on page ${pageIndex + 1}:`, [...result.filled, ...result.unmatched]);
+      result.unmatched.forEach((placeholder) => console.log(`No data for placeholder {{${placeholder}}}`));
+      pageReport.replacements += result.replacements;
+      result.filled
+        .filter((placeholder) => !pageReport.filled.includes(placeholder))
+        .forEach((placeholder) => pageReport.filled.push(placeholder));
+      result.unmatched
+        .filter((placeholder) => !pageReport.unmatched.includes(placeholder))
+        .forEach((placeholder) => pageReport.unmatched.push(placeholder));
+
+      // Only update if text has changed
+      if (result.text !== originalText) {
+        console.log("Text updated from:", originalText, "to:", result.text);
+        replaceSpans(range, result.spans, pageValues);
       }
+    }
 
-      // Commit all changes
-      console.log("Committing text replacement changes...");
-      await session.sync();
-      console.log("Text replacement completed on current page");
+    if (pageReport.filled.length > 0 || pageReport.unmatched.length > 0 || pageReport.errors.length > 0) {
+      pages.push(pageReport);
     }
-  );
+  });
+
+  const filled = [...new Set(pages.flatMap((page) => page.filled))];
+  const unmatched = [...new Set(pages.flatMap((page) => page.unmatched))];
+  const missing = [...offeredPlaceholders].filter((placeholder) => !filled.includes(placeholder));
+  console.log(`Text replacement completed: ${filled.length} filled, ${missing.length} missing, ${unmatched.length} unmatched`);
+  return { filled, missing, unmatched, pages, skippedPages };
 }
 
 /**
- * Replaces placeholder text patterns with formatted content (supports bold headers)
- * @param replacements - Object mapping placeholder patterns to replacement values
- * @param formattedReplacements - Object mapping placeholder patterns to formatted content with headers
- * @returns Promise that resolves when all replacements are complete
+ * What a scan of the design found
+ * @property occurrences - Every placeholder in the design, including repeats
+ * @property errors - Template syntax errors, with the page they're on
+ * @property skippedPages - Pages that are locked or of a type that can't be read
  */
-export async function replacePlaceholdersWithFormatting(
-  replacements: Record<string, string>,
-  formattedReplacements: Record<string, { headers: string[]; content: string[] }>
-): Promise<void> {
-  console.log("Replacing placeholders with formatting - simple:", replacements);
-  console.log("Replacing placeholders with formatting - formatted:", formattedReplacements);
-  await editContent(
-    {
-      contentType: "richtext",
-      target: "current_page",
-    },
-    async (session) => {
-      console.log("Formatted text replacement session started, processing", session.contents.length, "text ranges");
-      if (session.contents.length === 0) {
-        console.log("WARNING: No text content found on current page! Make sure you're on a page with text elements containing placeholders.");
-        return;
-      }
-      // Process each text range in the session
-      for (const range of session.contents) {
-        const originalText = range.readPlaintext();
-        console.log("Original text:", originalText);
-        console.log("Text length:", originalText.length);
-        console.log("Looking for placeholders in text...");
-        let updatedText = originalText;
-
-        // First, replace simple text placeholders
-        for (const [placeholder, replacement] of Object.entries(replacements)) {
-          const pattern = new RegExp(`\\{\\{${placeholder}\\}\\}`, "g");
-          const matches = updatedText.match(pattern);
-          console.log(`Checking for simple placeholder {{${placeholder}}} in text:`, updatedText.includes(`{{${placeholder}}}`));
-          console.log(`Regex pattern:`, pattern);
-          if (matches) {
-            console.log(`Found ${matches.length} matches for simple placeholder {{${placeholder}}}, replacing with:`, replacement);
-            updatedText = updatedText.replace(pattern, replacement);
-          } else {
-            console.log(`No matches found for simple placeholder {{${placeholder}}}`);
-          }
-        }
+export interface PlaceholderScan {
+  occurrences: PlaceholderOccurrence[];
+  errors: { pageIndex: number; message: string }[];
+  skippedPages: number[];
+}
 
-        // Then handle formatted replacements
-        for (const [placeholder, formatted] of Object.entries(formattedReplacements)) {
-          const pattern = new RegExp(`\\{\\{${placeholder}\\}\\}`, "g");
-          if (updatedText.includes(`{{${placeholder}}}`)) {
-            console.log(`Found formatted placeholder ${placeholder}, replacing with formatted content`);
-            // Replace the placeholder with formatted content
-            const formattedText = formatMethodSteps(formatted.headers, formatted.content);
-            console.log("Formatted text:", formattedText);
-            updatedText = updatedText.replace(pattern, formattedText);
-          }
-        }
+/**
+ * Lists the placeholders in the text elements of every page of the design,
+ * without changing anything
+ * @returns Promise that resolves with every placeholder found and the page it's on
+ */
+export async function scanPlaceholders(): Promise<PlaceholderScan> {
+  const occurrences: PlaceholderOccurrence[] = [];
+  const errors: PlaceholderScan["errors"] = [];
 
-        // Only update if text has changed
-        if (updatedText !== originalText) {
-          console.log("Text updated from:", originalText, "to:", updatedText);
-          const length = originalText.length;
-          range.replaceText({ index: 0, length }, updatedText);
-        } else {
-          console.log("No changes needed for this text range");
+  const skippedPages = await forEachPageText((pageIndex, ranges) => {
+    for (const range of ranges) {
+      try {
+        listTemplateTokens(parseTemplate(range.readPlaintext())).forEach((key) => occurrences.push({ key, pageIndex }));
+      } catch (error) {
+        if (!(error instanceof TemplateSyntaxError)) {
+          throw error;
         }
+        errors.push({ pageIndex, message: error.message });
       }
-
-      // Commit all changes
-      console.log("Committing formatted text replacement changes...");
-      await session.sync();
-      console.log("Formatted text replacement completed on current page");
     }
-  );
+  }, false);
+
+  console.log(`Placeholder scan completed: ${occurrences.length} placeholders, ${errors.length} errors`);
+  return { occurrences, errors, skippedPages };
+}
+
+/**
+ * Replaces placeholder text patterns in the text elements of every page of the
+ * design. See {@link parseTemplate} for the filters and loops placeholders can use.
+ * @param replacements - Object mapping placeholder patterns to replacement values, or a function returning one per page
+ * @returns Promise that resolves with a report of the replacements made per page
+ */
+export async function replacePlaceholders(
+  replacements: ReplacementSource<TemplateValue>
+): Promise<PlaceholderReport> {
+  console.log("Replacing placeholders with:", replacements);
+  return replaceInDesign((pageIndex) => ({ values: resolveSource(replacements, pageIndex) }));
+}
+
+/**
+ * Replaces placeholder text patterns with formatted content (supports bold
+ * headers) in the text elements of every page of the design
+ * @param replacements - Object mapping placeholder patterns to replacement values, or a function returning one per page
+ * @param formattedReplacements - Object mapping placeholder patterns to formatted content with headers, or a function returning one per page
+ * @returns Promise that resolves with a report of which placeholders were filled, missing or unmatched on each page
+ */
+export async function replacePlaceholdersWithFormatting(
+  replacements: ReplacementSource<TemplateValue>,
+  formattedReplacements: ReplacementSource<{ headers: string[]; content: string[] }>
+): Promise<PlaceholderReport> {
+  console.log("Replacing placeholders with formatting - simple:", replacements);
+  console.log("Replacing placeholders with formatting - formatted:", formattedReplacements);
+  return replaceInDesign((pageIndex) => {
+    const simple = resolveSource(replacements, pageIndex);
+    // Simple text placeholders take precedence over formatted ones
+    const formatted = Object.entries(resolveSource(formattedReplacements, pageIndex))
+      .filter(([placeholder]) => !(placeholder in simple))
+      .map(([placeholder, { headers, content }]) => [placeholder, formatMethodSteps(headers, content)] as const);
+    return {
+      values: {
+        ...Object.fromEntries(formatted.map(([placeholder, { text }]) => [placeholder, text])),
+        ...simple,
+      },
+      bold: Object.fromEntries(formatted.map(([placeholder, { bold }]) => [placeholder, bold])),
+    };
+  });
 }
 
 /**
  * Formats method steps with bold headers and normal text content
  * @param headers - Array of header text (optional for each step)
  * @param content - Array of content text for each step
- * @returns Formatted text with headers in bold and double newlines between steps
+ * @returns Text with a blank line between steps, and the bounds of the headers to make bold
  */
-function formatMethodSteps(headers: string[], content: string[]): string {
-  const steps: string[] = [];
-  
+function formatMethodSteps(headers: string[], content: string[]): FormattedText {
+  let text = "";
+  const bold: Bounds[] = [];
+
   for (let i = 0; i < content.length; i++) {
-    const step: string[] = [];
-    
+    if (i > 0) {
+      text += "\n\n";
+    }
+
     // Add header if it exists for this step
-    if (headers[i] && headers[i].trim()) {
-      step.push(`**${headers[i]}**`);
+    const header = headers[i]?.trim();
+    if (header) {
+      bold.push({ index: text.length, length: header.length });
+      text += `${header}\n`;
     }
-    
+
     // Add content
-    step.push(content[i]);
-    
-    // Join header and content for this step
-    steps.push(step.join('\n'));
+    text += content[i];
   }
-  
-  // Join all steps with double newlines
-  return steps.join('\n\n');
+
+  return { text, bold };
+}
+
+/**
+ * Combines the reports of several replacement runs over the same design, e.g.
+ * of text and image placeholders
+ * @param reports - The reports to combine
+ * @returns One report, with the pages in order
+ */
+export function mergePlaceholderReports(...reports: PlaceholderReport[]): PlaceholderReport {
+  const pages = new Map<number, PagePlaceholderReport>();
+  reports
+    .flatMap((report) => report.pages)
+    .forEach((page) => {
+      const merged = pages.get(page.pageIndex);
+      pages.set(
+        page.pageIndex,
+        merged
+          ? {
+              pageIndex: page.pageIndex,
+              filled: [...new Set([...merged.filled, ...page.filled])],
+              unmatched: [...new Set([...merged.unmatched, ...page.unmatched])],
+              replacements: merged.replacements + page.replacements,
+              errors: [...merged.errors, ...page.errors],
+            }
+          : page
+      );
+    });
+
+  const union = <T>(lists: T[][]) => [...new Set(lists.flatMap((list) => list))];
+  const filled = union(reports.map((report) => report.filled));
+  return {
+    filled,
+    missing: union(reports.map((report) => report.missing)).filter((placeholder) => !filled.includes(placeholder)),
+    unmatched: union(reports.map((report) => report.unmatched)),
+    pages: [...pages.values()].sort((a, b) => a.pageIndex - b.pageIndex),
+    skippedPages: union(reports.map((report) => report.skippedPages)).sort((a, b) => a - b),
+  };
 }